@@ -1,20 +1,17 @@
 "use client"
 
-import { useEffect, useState, useMemo, useCallback, Suspense, lazy } from "react"
+import { useEffect, useState, useMemo, useCallback, useRef, Suspense } from "react"
 import { Progress } from "@/components/ui/progress"
-import { Gift, Trophy, Clock, Target, Brain } from "lucide-react"
+import { Trophy, ChevronLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
 import { motion, AnimatePresence } from "framer-motion"
-import { api } from "@/lib/api-client"
-
-// Lazy load phase components for code splitting
-const IntroPhase = lazy(() => import("@/components/phases/intro-phase"))
-const TutorialPhase = lazy(() => import("@/components/phases/tutorial-phase"))
-const TrainingPhase1 = lazy(() => import("@/components/phases/training-phase-1"))
-const TrainingPhase2 = lazy(() => import("@/components/phases/training-phase-2"))
-const BenchmarkPhase = lazy(() => import("@/components/phases/benchmark-phase"))
-const StrategyPhase = lazy(() => import("@/components/phases/strategy-phase"))
-const PredictionPhase = lazy(() => import("@/components/phases/prediction-phase"))
-const ResultsPhase = lazy(() => import("@/components/phases/results-phase"))
+import { api, type FinalStatus } from "@/lib/api-client"
+import { finishStudy, clearParticipantStorage, prolificCompletionUrl } from "@/lib/completion"
+import { loadSession, saveSession, flushSessionOnUnload, type SessionSnapshot } from "@/lib/session-store"
+import { loadStudyConfig, getStudyConfig, type StudyConfig } from "@/lib/study-config"
+import { loadQuestionBank, getBankVersion } from "@/lib/question-bank"
+import { normalizePipeline, pipelineIds, nextStep, previousPhaseId } from "@/lib/phase-pipeline"
+import { PHASE_REGISTRY, isRegisteredPhase } from "@/components/phases/registry"
 
 // Loading component for lazy loaded phases
 const PhaseLoader = () => (
@@ -26,16 +23,20 @@ const PhaseLoader = () => (
   </div>
 )
 
-const phases = [
-  { id: "intro", name: "Welcome", icon: Gift, color: "bg-blue-500" },
-  { id: "tutorial", name: "Tutorial", icon: Brain, color: "bg-green-500" },
-  { id: "training1", name: "Practice", icon: Target, color: "bg-yellow-500" },
-  { id: "training2", name: "Test 1", icon: Clock, color: "bg-orange-500" },
-  { id: "benchmark", name: "Test 2", icon: Trophy, color: "bg-purple-500" },
-  { id: "strategy", name: "Strategy", icon: Brain, color: "bg-indigo-500" },
-  { id: "prediction", name: "Test 3", icon: Target, color: "bg-red-500" },
-  { id: "results", name: "Results", icon: Gift, color: "bg-emerald-500" },
-]
+// Keep the backend-assigned question seed and ordering condition next to the
+// participantId (see lib/seeded-random.ts and lib/conditions.ts)
+const storeAssignment = (assignment: { questionSeed?: number | null; condition?: string | null }) => {
+  if (assignment.questionSeed === undefined || assignment.questionSeed === null) {
+    localStorage.removeItem('questionSeed')
+  } else {
+    localStorage.setItem('questionSeed', String(assignment.questionSeed))
+  }
+  if (assignment.condition) {
+    localStorage.setItem('condition', assignment.condition)
+  } else {
+    localStorage.removeItem('condition')
+  }
+}
 
 export default function KnapsackExperiment() {
   const [currentPhase, setCurrentPhase] = useState("intro")
@@ -58,10 +59,72 @@ export default function KnapsackExperiment() {
   const [accessAllowed, setAccessAllowed] = useState(false)
   const [showCompletedMessage, setShowCompletedMessage] = useState(false)
   const [isCheckingAccess, setIsCheckingAccess] = useState(true)
+  const [sessionReady, setSessionReady] = useState(false)
+  const [resumeState, setResumeState] = useState<any>(null)
+  const [studyConfig, setStudyConfig] = useState<StudyConfig>(getStudyConfig)
+  const phaseStateRef = useRef<any>(null)
+
+  // Phases shown before the current one, so back-navigation skips phases a branch jumped over
+  const [phaseHistory, setPhaseHistory] = useState<string[]>([])
+  // Early ending (screened out, failed attention check) the backend could not record yet
+  const [failedEnding, setFailedEnding] = useState<{ status: FinalStatus; reason: string } | null>(null)
+  const [ending, setEnding] = useState(false)
+  // The participant's question bank could not be fetched
+  const [bankUnavailable, setBankUnavailable] = useState(false)
+  // Latest participant data, including updates a finishing phase made just before onNext
+  const participantDataRef = useRef(participantData)
+
+  // Phase pipeline from the study configuration (see lib/phase-pipeline.ts)
+  const pipeline = useMemo(
+    () => normalizePipeline(studyConfig.phases).filter((step) => isRegisteredPhase(step.id)),
+    [studyConfig]
+  )
+  const phases = useMemo(
+    () => pipeline.map((step) => ({ id: step.id, ...PHASE_REGISTRY[step.id] })),
+    [pipeline]
+  )
 
   useEffect(() => {
     let cancelled = false
 
+    // Restore a saved session (if any) before showing the experiment
+    const restoreSession = (session: SessionSnapshot | null) => {
+      if (session && (pipelineIds(getStudyConfig().phases) as string[]).includes(session.currentPhase)) {
+        console.log(`[Session] Resuming at phase: ${session.currentPhase}`)
+        setCurrentPhase(session.currentPhase)
+        if (session.participantData) {
+          participantDataRef.current = session.participantData
+          setParticipantData(session.participantData)
+        }
+        // In-progress question IDs only mean the same questions in the bank they were drawn from
+        if (session.phaseState && session.bankVersion && session.bankVersion !== getBankVersion()) {
+          console.warn(`[Session] Saved phase state uses bank ${session.bankVersion}, loaded ${getBankVersion()}; restarting the phase`)
+        } else {
+          phaseStateRef.current = session.phaseState
+          setResumeState(session.phaseState)
+        }
+      }
+      setSessionReady(true)
+      setAccessAllowed(true)
+      setIsCheckingAccess(false)
+    }
+
+    // The participant's question bank must be loaded before any phase draws questions;
+    // without it the study stops on a retry screen instead of switching banks
+    const restoreWithBank = (id: string, session: Promise<SessionSnapshot | null>) =>
+      Promise.all([session, loadQuestionBank(id)])
+        .then(([snapshot]) => {
+          if (!cancelled) restoreSession(snapshot)
+        })
+        .catch((error) => {
+          if (cancelled) return
+          console.error('[QuestionBank] Could not load the question bank:', error)
+          setBankUnavailable(true)
+          setIsCheckingAccess(false)
+        })
+
+    const grantAccess = (id: string) => restoreWithBank(id, loadSession(id))
+
     // Check for Prolific parameters - REQUIRED for access
     const urlParams = new URLSearchParams(window.location.search)
     const prolificPid = urlParams.get('PROLIFIC_PID')
@@ -114,6 +177,9 @@ export default function KnapsackExperiment() {
       setParticipantId(testId)
       localStorage.setItem('participantId', testId)
       localStorage.setItem('prolificPid', `test-${testId}`)
+      storeAssignment({})
+      loadQuestionBank(null)
+      loadStudyConfig(null).then(setStudyConfig)
       setAccessAllowed(true)
       setIsCheckingAccess(false)
       return
@@ -123,8 +189,12 @@ export default function KnapsackExperiment() {
 
     // TEMPORARILY DISABLED FOR TESTING: Always verify with backend first to prevent duplicate participants
     // TODO: Re-enable before production launch
-    // Check participant status (with caching)
-    api.checkParticipant(prolificPid)
+    // Load the study's configuration, then check participant status (with caching)
+    loadStudyConfig(studyId)
+      .then((config) => {
+        if (!cancelled) setStudyConfig(config)
+        return api.checkParticipant(prolificPid)
+      })
       .then((participantStatus) => {
         if (cancelled) return
 
@@ -134,6 +204,8 @@ export default function KnapsackExperiment() {
           // Clear localStorage if participant completed
           localStorage.removeItem('participantId')
           localStorage.removeItem('prolificPid')
+          localStorage.removeItem('questionSeed')
+          localStorage.removeItem('condition')
           setAccessAllowed(false)
           setShowCompletedMessage(true)
           setIsCheckingAccess(false)
@@ -141,6 +213,14 @@ export default function KnapsackExperiment() {
         }
         */
 
+        // Already ended without completing (e.g. timed out): send them to the matching Prolific page
+        if (participantStatus.finalStatus && participantStatus.finalStatus !== 'completed') {
+          console.warn(`[Access Check] Participant already ended with status: ${participantStatus.finalStatus}`)
+          clearParticipantStorage()
+          window.location.href = participantStatus.redirectUrl || prolificCompletionUrl(null)
+          return
+        }
+
         if (participantStatus.exists && !participantStatus.completed && participantStatus.participantId) {
           // Use backend's participantId (always authoritative)
           const backendParticipantId = participantStatus.participantId
@@ -152,53 +232,70 @@ export default function KnapsackExperiment() {
             console.warn(`[Participant Mismatch] Cached: ${cachedParticipantId}, Backend: ${backendParticipantId}. Using backend ID.`)
             localStorage.removeItem('participantId')
             localStorage.removeItem('prolificPid')
+            localStorage.removeItem('questionSeed')
+            localStorage.removeItem('condition')
           }
           
           setParticipantId(backendParticipantId)
           localStorage.setItem('participantId', backendParticipantId)
           localStorage.setItem('prolificPid', prolificPid)
-          setAccessAllowed(true)
-          setIsCheckingAccess(false)
-          return
+          storeAssignment(participantStatus)
+          return grantAccess(backendParticipantId)
         }
 
         // Register new participant if doesn't exist
         if (!participantStatus.exists && studyId && sessionId) {
-          return api.registerProlific(prolificPid, studyId, sessionId)
-            .then((data) => {
-              if (cancelled) return
-              const id = data.participantId
-              
-              // Clear any old cached data before setting new
-              localStorage.removeItem('participantId')
-              localStorage.removeItem('prolificPid')
-              
-              setParticipantId(id)
-              localStorage.setItem('participantId', id)
-              localStorage.setItem('prolificPid', prolificPid)
-              setAccessAllowed(true)
-              setIsCheckingAccess(false)
-            })
-            .catch((registerError: any) => {
-              if (cancelled) return
-              console.error('[Registration Error]', registerError)
-              
-              // If registration fails, try checking again (might have been created by another request)
-              return api.checkParticipant(prolificPid)
-                .then((retryStatus) => {
-                  if (cancelled) return
-                  if (retryStatus.exists && retryStatus.participantId) {
-                    setParticipantId(retryStatus.participantId)
-                    localStorage.setItem('participantId', retryStatus.participantId)
-                    localStorage.setItem('prolificPid', prolificPid)
-                    setAccessAllowed(true)
-                    setIsCheckingAccess(false)
-                  } else {
-                    setAccessAllowed(false)
-                    setIsCheckingAccess(false)
-                  }
-                })
-            })
+          // A refresh keeps the cached participantId, so resume it if it has a saved session
+          const cachedParticipantId = localStorage.getItem('participantId')
+          const cachedSession = cachedParticipantId && localStorage.getItem('prolificPid') === prolificPid
+            ? loadSession(cachedParticipantId)
+            : Promise.resolve(null)
+
+          return cachedSession.then((session) => {
+            if (cancelled) return
+            if (cachedParticipantId && session) {
+              setParticipantId(cachedParticipantId)
+              return restoreWithBank(cachedParticipantId, Promise.resolve(session))
+            }
+
+            return api.registerProlific(prolificPid, studyId, sessionId)
+              .then((data) => {
+                if (cancelled) return
+                const id = data.participantId
+                
+                // Clear any old cached data before setting new
+                localStorage.removeItem('participantId')
+                localStorage.removeItem('prolificPid')
+                localStorage.removeItem('questionSeed')
+                localStorage.removeItem('condition')
+                
+                setParticipantId(id)
+                localStorage.setItem('participantId', id)
+                localStorage.setItem('prolificPid', prolificPid)
+                storeAssignment(data)
+                return grantAccess(id)
+              })
+              .catch((registerError: any) => {
+                if (cancelled) return
+                console.error('[Registration Error]', registerError)
+                
+                // If registration fails, try checking again (might have been created by another request)
+                return api.checkParticipant(prolificPid)
+                  .then((retryStatus) => {
+                    if (cancelled) return
+                    if (retryStatus.exists && retryStatus.participantId) {
+                      setParticipantId(retryStatus.participantId)
+                      localStorage.setItem('participantId', retryStatus.participantId)
+                      localStorage.setItem('prolificPid', prolificPid)
+                      storeAssignment(retryStatus)
+                      return grantAccess(retryStatus.participantId)
+                    } else {
+                      setAccessAllowed(false)
+                      setIsCheckingAccess(false)
+                    }
+                  })
+              })
+          })
         }
 
         setAccessAllowed(false)
@@ -225,41 +322,86 @@ export default function KnapsackExperiment() {
   // Memoize expensive calculations
   const currentPhaseIndex = useMemo(
     () => phases.findIndex((p) => p.id === currentPhase),
-    [currentPhase]
+    [phases, currentPhase]
   )
   
   const progress = useMemo(
     () => ((currentPhaseIndex + 1) / phases.length) * 100,
-    [currentPhaseIndex]
+    [phases, currentPhaseIndex]
   )
 
+  const showPhase = useCallback((id: string) => {
+    phaseStateRef.current = null
+    setResumeState(null)
+    setCurrentPhase(id)
+  }, [])
+
+  // Leave the study early; stays on a retry screen until the final status is recorded
+  const endStudy = useCallback(async (status: FinalStatus, reason: string) => {
+    setEnding(true)
+    const ended = await finishStudy(status, reason)
+    setFailedEnding(ended ? null : { status, reason })
+    setEnding(false)
+  }, [])
+
+  // Advance along the pipeline, following the current phase's branches;
+  // a branch that ends the study (screened out, failed attention check) leaves for Prolific
   const nextPhase = useCallback(() => {
-    const nextIndex = currentPhaseIndex + 1
-    if (nextIndex < phases.length) {
-      setCurrentPhase(phases[nextIndex].id)
-    }
-  }, [currentPhaseIndex])
-
-  const completeProlificStudy = useCallback(async () => {
-    if (prolificParams.prolificPid && participantId) {
-      try {
-        await api.post('/api/v1/complete-participant', {
-          participantId,
-          prolificPid: prolificParams.prolificPid,
-          completedAt: new Date().toISOString()
-        })
-      } catch (error) {
-        console.error("[Completion] Failed to mark participant as completed:", error)
-      }
-      
-      localStorage.removeItem('participantId')
-      localStorage.removeItem('prolificPid')
-      
-      window.location.href = `https://app.prolific.co/submissions/complete?cc=KNAPSACK2024`
+    const next = nextStep(pipeline, currentPhase, participantDataRef.current)
+    if (!next) return
+    if ('end' in next) {
+      endStudy(next.end, next.reason || `Ended after ${currentPhase}`)
+      return
     }
-  }, [prolificParams.prolificPid, participantId])
+    setPhaseHistory((history) => history.concat(currentPhase))
+    showPhase(next.phase)
+  }, [pipeline, currentPhase, showPhase, endStudy])
+
+  // Only phases whose pipeline step sets allowBack offer a way back
+  const previousPhase = useMemo(
+    () => previousPhaseId(pipeline, currentPhase, phaseHistory),
+    [pipeline, currentPhase, phaseHistory]
+  )
+
+  const goBack = useCallback(() => {
+    if (!previousPhase) return
+    setPhaseHistory((history) => history.slice(0, Math.max(0, history.lastIndexOf(previousPhase))))
+    showPhase(previousPhase)
+  }, [previousPhase, showPhase])
+
+  // Persist phase changes immediately so an interrupted participant resumes at the right phase
+  useEffect(() => {
+    if (!sessionReady || !participantId) return
+    saveSession(participantId, {
+      currentPhase,
+      participantData,
+      phaseState: phaseStateRef.current,
+      bankVersion: getBankVersion(),
+    }, true)
+  }, [sessionReady, participantId, currentPhase, participantData])
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSessionOnUnload)
+    return () => window.removeEventListener('pagehide', flushSessionOnUnload)
+  }, [])
+
+  // Phases report in-progress state (answers, timer, question order) through this callback
+  const saveProgress = useCallback((state: any) => {
+    phaseStateRef.current = state
+    if (!sessionReady || !participantId) return
+    saveSession(participantId, {
+      currentPhase,
+      participantData,
+      phaseState: state,
+      bankVersion: getBankVersion(),
+    })
+  }, [sessionReady, participantId, currentPhase, participantData])
+
+  // Resolves false (without redirecting) while phase submissions are still unacknowledged
+  const completeProlificStudy = useCallback(() => finishStudy('completed'), [])
 
   const updateParticipantData = useCallback((data: any) => {
+    participantDataRef.current = { ...participantDataRef.current, ...data }
     setParticipantData((prev) => ({
       ...prev,
       ...data,
@@ -271,30 +413,18 @@ export default function KnapsackExperiment() {
     onNext: nextPhase,
     participantData,
     updateParticipantData,
-  }), [nextPhase, participantData, updateParticipantData])
+    resumeState,
+    saveProgress,
+  }), [nextPhase, participantData, updateParticipantData, resumeState, saveProgress])
 
   const renderPhase = useMemo(() => {
-    switch (currentPhase) {
-      case "intro":
-        return <IntroPhase {...phaseProps} />
-      case "tutorial":
-        return <TutorialPhase {...phaseProps} />
-      case "training1":
-        return <TrainingPhase1 {...phaseProps} />
-      case "training2":
-        return <TrainingPhase2 {...phaseProps} />
-      case "benchmark":
-        return <BenchmarkPhase {...phaseProps} />
-      case "strategy":
-        return <StrategyPhase {...phaseProps} benchmarkData={participantData.benchmark || {}} />
-      case "prediction":
-        return <PredictionPhase {...phaseProps} />
-      case "results":
-        return <ResultsPhase {...phaseProps} />
-      default:
-        return <IntroPhase {...phaseProps} />
-    }
-  }, [currentPhase, phaseProps, participantData.benchmark])
+    const step = pipeline.find((s) => s.id === currentPhase) || pipeline[0]
+    if (!step) return null
+    const definition = PHASE_REGISTRY[step.id]
+    const PhaseComponent = definition.component
+    const contextProps = definition.props?.({ participantData, completeStudy: completeProlificStudy }) || {}
+    return <PhaseComponent {...phaseProps} {...contextProps} {...step.props} />
+  }, [pipeline, currentPhase, phaseProps, participantData, completeProlificStudy])
 
   // Show loading state while checking access
   if (isCheckingAccess) {
@@ -368,6 +498,40 @@ export default function KnapsackExperiment() {
     )
   }
 
+  if (bankUnavailable) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto p-8">
+          <div className="bg-white rounded-2xl shadow-xl p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">Connection Problem</h1>
+            <p className="text-gray-600 mb-6">
+              We could not load the study questions. Please check your internet connection and try again.
+            </p>
+            <Button onClick={() => window.location.reload()}>Try Again</Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (failedEnding) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto p-8">
+          <div className="bg-white rounded-2xl shadow-xl p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">Connection Problem</h1>
+            <p className="text-gray-600 mb-6">
+              We could not reach our server to end your session. Please check your internet connection and try again.
+            </p>
+            <Button onClick={() => endStudy(failedEnding.status, failedEnding.reason)} disabled={ending}>
+              {ending ? "Trying again..." : "Try Again"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-gray-100">
       {/* Header */}
@@ -464,6 +628,14 @@ export default function KnapsackExperiment() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {previousPhase && (
+          <div className="mb-4">
+            <Button variant="ghost" onClick={goBack} className="text-gray-600">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back to {PHASE_REGISTRY[previousPhase].name}
+            </Button>
+          </div>
+        )}
         <AnimatePresence mode="wait">
           <motion.div
             key={currentPhase}
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN     "currentPhase" TEXT,
+ADD COLUMN     "sessionState" JSONB,
+ADD COLUMN     "sessionUpdatedAt" TIMESTAMP(3);
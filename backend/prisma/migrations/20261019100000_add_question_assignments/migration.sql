@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "QuestionAssignment" (
+    "id" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "questionId" INTEGER NOT NULL,
+    "difficulty" TEXT,
+    "capacity" INTEGER NOT NULL,
+    "balls" JSONB NOT NULL,
+    "solution" JSONB,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionAssignment_participantId_idx" ON "QuestionAssignment"("participantId");
+
+-- CreateIndex
+CREATE INDEX "QuestionAssignment_questionId_idx" ON "QuestionAssignment"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionAssignment_participantId_phase_position_key" ON "QuestionAssignment"("participantId", "phase", "position");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN     "condition" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Participant_condition_idx" ON "Participant"("condition");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "InteractionEvent" (
+    "id" SERIAL NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "section" TEXT,
+    "questionId" INTEGER,
+    "type" TEXT NOT NULL,
+    "clientTimestamp" TIMESTAMP(3),
+    "serverTimestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "payload" JSONB,
+
+    CONSTRAINT "InteractionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InteractionEvent_participantId_serverTimestamp_idx" ON "InteractionEvent"("participantId", "serverTimestamp");
+
+-- CreateIndex
+CREATE INDEX "InteractionEvent_section_idx" ON "InteractionEvent"("section");
+
+-- CreateIndex
+CREATE INDEX "InteractionEvent_type_idx" ON "InteractionEvent"("type");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "InteractionEvent" ADD COLUMN     "clientEventId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InteractionEvent_clientEventId_key" ON "InteractionEvent"("clientEventId");
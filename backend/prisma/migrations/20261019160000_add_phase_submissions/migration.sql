@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PhaseSubmission" (
+    "id" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "idempotencyKey" TEXT,
+    "accepted" BOOLEAN NOT NULL DEFAULT false,
+    "payload" JSONB NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PhaseSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseSubmission_idempotencyKey_key" ON "PhaseSubmission"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "PhaseSubmission_participantId_idx" ON "PhaseSubmission"("participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseSubmission_participantId_phase_revision_key" ON "PhaseSubmission"("participantId", "phase", "revision");
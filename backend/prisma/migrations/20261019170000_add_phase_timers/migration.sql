@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN     "clockSkewMs" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PhaseTimer" (
+    "id" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "clientStartedAt" TIMESTAMP(3),
+    "clockSkewMs" INTEGER,
+
+    CONSTRAINT "PhaseTimer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseTimer_token_key" ON "PhaseTimer"("token");
+
+-- CreateIndex
+CREATE INDEX "PhaseTimer_participantId_idx" ON "PhaseTimer"("participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseTimer_participantId_phase_key" ON "PhaseTimer"("participantId", "phase");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "BonusPayment" (
+    "id" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "prolificPid" TEXT NOT NULL,
+    "scheme" TEXT NOT NULL,
+    "points" INTEGER NOT NULL,
+    "maxPoints" INTEGER NOT NULL,
+    "countedTest" TEXT,
+    "probability" DOUBLE PRECISION,
+    "drawSeed" INTEGER,
+    "drawValue" DOUBLE PRECISION,
+    "won" BOOLEAN,
+    "amountCents" INTEGER NOT NULL,
+    "schemeConfig" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "exportedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BonusPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BonusPayment_participantId_key" ON "BonusPayment"("participantId");
+
+-- CreateIndex
+CREATE INDEX "BonusPayment_prolificPid_idx" ON "BonusPayment"("prolificPid");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN     "finalStatus" TEXT,
+ADD COLUMN     "finalStatusAt" TIMESTAMP(3),
+ADD COLUMN     "finalStatusReason" TEXT;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN     "bankVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "PhaseSubmission" ADD COLUMN     "bankVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "QuestionBank" (
+    "id" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "source" TEXT,
+    "questionCount" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "metadata" JSONB,
+    "active" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "QuestionBank_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Question" (
+    "id" TEXT NOT NULL,
+    "bankVersion" TEXT NOT NULL,
+    "questionId" INTEGER NOT NULL,
+    "phase" TEXT,
+    "difficulty" TEXT,
+    "capacity" INTEGER NOT NULL,
+    "balls" JSONB NOT NULL,
+    "solution" JSONB,
+    "explanation" TEXT,
+    "metadata" JSONB,
+
+    CONSTRAINT "Question_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionBank_version_key" ON "QuestionBank"("version");
+
+-- CreateIndex
+CREATE INDEX "Question_bankVersion_idx" ON "Question"("bankVersion");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Question_bankVersion_questionId_key" ON "Question"("bankVersion", "questionId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "solutions" JSONB;
+
+-- AlterTable
+ALTER TABLE "QuestionAssignment" ADD COLUMN     "solutions" JSONB;
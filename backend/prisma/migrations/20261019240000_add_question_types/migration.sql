@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "type" TEXT,
+ADD COLUMN     "volumeCapacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "QuestionAssignment" ADD COLUMN     "type" TEXT,
+ADD COLUMN     "volumeCapacity" INTEGER;
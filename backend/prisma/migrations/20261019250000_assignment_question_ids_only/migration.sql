@@ -0,0 +1,20 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `balls` on the `QuestionAssignment` table. All the data in the column will be lost.
+  - You are about to drop the column `capacity` on the `QuestionAssignment` table. All the data in the column will be lost.
+  - You are about to drop the column `difficulty` on the `QuestionAssignment` table. All the data in the column will be lost.
+  - You are about to drop the column `solution` on the `QuestionAssignment` table. All the data in the column will be lost.
+  - You are about to drop the column `solutions` on the `QuestionAssignment` table. All the data in the column will be lost.
+  - You are about to drop the column `type` on the `QuestionAssignment` table. All the data in the column will be lost.
+  - You are about to drop the column `volumeCapacity` on the `QuestionAssignment` table. All the data in the column will be lost.
+
+*/
+-- AlterTable
+ALTER TABLE "QuestionAssignment" DROP COLUMN "balls",
+DROP COLUMN "capacity",
+DROP COLUMN "difficulty",
+DROP COLUMN "solution",
+DROP COLUMN "solutions",
+DROP COLUMN "type",
+DROP COLUMN "volumeCapacity";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PhaseSubmission" ADD COLUMN     "rejected" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "errors" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BonusPayment" ALTER COLUMN "points" SET DATA TYPE DOUBLE PRECISION,
+ALTER COLUMN "maxPoints" SET DATA TYPE DOUBLE PRECISION;
@@ -0,0 +1,14 @@
+// ADMIN AUTHENTICATION MIDDLEWARE
+export const adminAuth = (req: any, res: any, next: any) => {
+  const adminKey = req.headers['x-admin-key'] || req.query.adminKey
+  const validAdminKey = process.env.ADMIN_KEY || 'knapsack-admin-2024-secure'
+  
+  if (!adminKey || adminKey !== validAdminKey) {
+    return res.status(401).json({ 
+      error: 'Unauthorized. Admin access required.',
+      hint: 'Provide valid admin key in x-admin-key header or adminKey query parameter'
+    })
+  }
+  
+  next()
+}
@@ -0,0 +1,223 @@
+import crypto from 'crypto'
+import { prisma } from './db'
+import { unscoredPhases } from './scoring'
+
+/**
+ * Bonus payments
+ * Turns a participant's scores into a Prolific bonus. The score is Test 1
+ * points plus the better of the Benchmark and Final test points (the same
+ * figure ResultsPhase shows, using the server-scored totals). Participants
+ * with a test the server could not score get no bonus until it is resolved,
+ * since only client-reported figures exist for it. Two schemes:
+ *  - lottery: every point adds `probabilityPerPoint` to the chance of winning
+ *    `prizeCents`; the draw is reproducible from the recorded seed
+ *  - linear:  `centsPerPoint` for every point, capped at `maxCents`
+ * The scheme is configured through environment variables.
+ */
+
+export type BonusSchemeType = 'lottery' | 'linear'
+
+export interface BonusScheme {
+  type: BonusSchemeType
+  prizeCents: number
+  probabilityPerPoint: number
+  centsPerPoint: number
+  maxCents: number | null
+}
+
+export interface BonusScore {
+  points: number
+  maxPoints: number
+  skillPoints: number
+  testPoints: number
+  countedTest: 'benchmark' | 'final' | null
+  // Submitted tests without server figures
+  unscoredPhases: string[]
+}
+
+export interface BonusResult extends BonusScore {
+  scheme: BonusSchemeType
+  probability: number | null
+  drawSeed: number | null
+  drawValue: number | null
+  won: boolean | null
+  amountCents: number
+}
+
+const MODULUS = Math.pow(2, 32)
+
+const dollarsToCents = (value: string | undefined, fallback: number) => {
+  const parsed = value === undefined ? NaN : parseFloat(value)
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : fallback
+}
+
+/**
+ * Read the reward scheme from the environment
+ * BONUS_SCHEME (lottery|linear), BONUS_PRIZE and BONUS_PER_POINT (dollars),
+ * BONUS_PROBABILITY_PER_POINT, BONUS_MAX (dollars, linear only)
+ */
+export function getBonusScheme(): BonusScheme {
+  const probability = parseFloat(process.env.BONUS_PROBABILITY_PER_POINT || '')
+  const maxCents = dollarsToCents(process.env.BONUS_MAX, -1)
+
+  return {
+    type: process.env.BONUS_SCHEME === 'linear' ? 'linear' : 'lottery',
+    prizeCents: dollarsToCents(process.env.BONUS_PRIZE, 500),
+    probabilityPerPoint: Number.isFinite(probability) ? probability : 0.01,
+    centsPerPoint: dollarsToCents(process.env.BONUS_PER_POINT, 5),
+    maxCents: maxCents >= 0 ? maxCents : null
+  }
+}
+
+/**
+ * Score used for the bonus: Test 1 + the better of Benchmark and Final
+ */
+export function bonusScore(participant: { testSkill: any; testBenchmark: any; testFinal: any }): BonusScore {
+  const skill: any = participant.testSkill || {}
+  const benchmark: any = participant.testBenchmark || null
+  const final: any = participant.testFinal || null
+
+  const benchmarkPoints = benchmark?.totalPoints || 0
+  const finalPoints = final?.totalPoints || 0
+  const countedTest = !benchmark && !final ? null : benchmarkPoints >= finalPoints ? 'benchmark' : 'final'
+  const counted = countedTest === 'benchmark' ? benchmark : countedTest === 'final' ? final : null
+
+  const skillPoints = skill.totalPoints || 0
+  const testPoints = counted?.totalPoints || 0
+
+  return {
+    points: skillPoints + testPoints,
+    maxPoints: (skill.maxPoints || 0) + (counted?.maxPoints || 0),
+    skillPoints,
+    testPoints,
+    countedTest,
+    unscoredPhases: unscoredPhases({ skill: participant.testSkill, benchmark: participant.testBenchmark, final: participant.testFinal })
+  }
+}
+
+/**
+ * Uniform draw in [0, 1) for a participant, reproducible from the batch seed
+ * (first 32 bits of HMAC-SHA256 keyed by the seed over the participantId)
+ */
+export function lotteryDraw(drawSeed: number, participantId: string): number {
+  const digest = crypto.createHmac('sha256', String(drawSeed)).update(participantId).digest()
+  return digest.readUInt32BE(0) / MODULUS
+}
+
+/**
+ * Compute a participant's bonus under a scheme
+ */
+export function computeBonus(
+  participant: { participantId: string; testSkill: any; testBenchmark: any; testFinal: any },
+  scheme: BonusScheme,
+  drawSeed: number
+): BonusResult {
+  const score = bonusScore(participant)
+
+  if (scheme.type === 'linear') {
+    // Negative weights can push the points below zero; a bonus never is.
+    // Fractional weights give fractional points, so round to whole cents
+    const amount = Math.max(0, Math.round(score.points * scheme.centsPerPoint))
+    return {
+      ...score,
+      scheme: scheme.type,
+      probability: null,
+      drawSeed: null,
+      drawValue: null,
+      won: null,
+      amountCents: scheme.maxCents === null ? amount : Math.min(amount, scheme.maxCents)
+    }
+  }
+
+  const probability = Math.min(1, Math.max(0, score.points * scheme.probabilityPerPoint))
+  const drawValue = lotteryDraw(drawSeed, participant.participantId)
+  const won = drawValue < probability
+
+  return {
+    ...score,
+    scheme: scheme.type,
+    probability,
+    drawSeed,
+    drawValue,
+    won,
+    amountCents: won ? scheme.prizeCents : 0
+  }
+}
+
+export const newDrawSeed = () => crypto.randomInt(0, 2147483647)
+
+/**
+ * Compute and store bonuses for Prolific participants whose final status is completed
+ * Participants that already have a bonus are skipped unless `recompute` is set,
+ * and participants with unscored tests are skipped and reported as `unscored`.
+ * A recomputed lottery reuses the participant's stored draw seed, and bonuses
+ * already exported for payment are only recomputed with `recomputeExported`.
+ */
+export async function computeBonuses(options: { drawSeed?: number; recompute?: boolean; recomputeExported?: boolean } = {}) {
+  const scheme = getBonusScheme()
+  const drawSeed = options.drawSeed ?? newDrawSeed()
+
+  const existing = await prisma.bonusPayment.findMany({
+    select: { participantId: true, drawSeed: true, exportedAt: true }
+  })
+  const skipped = existing.filter((payment) =>
+    !options.recompute || (payment.exportedAt !== null && !options.recomputeExported)
+  )
+  const storedSeeds = new Map(existing.map((payment) => [payment.participantId, payment.drawSeed]))
+
+  const participants = await prisma.participant.findMany({
+    where: {
+      prolificPid: { not: null },
+      finalStatus: 'completed',
+      participantId: { notIn: skipped.map((payment) => payment.participantId) }
+    }
+  })
+
+  const results = []
+  const unscored = []
+  const upserts = []
+  for (const participant of participants) {
+    const result = computeBonus(participant, scheme, storedSeeds.get(participant.participantId) ?? drawSeed)
+    if (result.unscoredPhases.length > 0) {
+      unscored.push({ participantId: participant.participantId, phases: result.unscoredPhases })
+      continue
+    }
+    const data = {
+      prolificPid: participant.prolificPid!,
+      scheme: result.scheme,
+      points: result.points,
+      maxPoints: result.maxPoints,
+      countedTest: result.countedTest,
+      probability: result.probability,
+      drawSeed: result.drawSeed,
+      drawValue: result.drawValue,
+      won: result.won,
+      amountCents: result.amountCents,
+      schemeConfig: scheme as any,
+      computedAt: new Date()
+    }
+
+    upserts.push(prisma.bonusPayment.upsert({
+      where: { participantId: participant.participantId },
+      create: { participantId: participant.participantId, ...data },
+      update: data
+    }))
+    results.push({ participantId: participant.participantId, ...result })
+  }
+
+  // One transaction, so a failing row never leaves a partially written batch
+  await prisma.$transaction(upserts)
+
+  const skippedExported = options.recompute ? skipped.length : 0
+  return { scheme, drawSeed, results, skippedExported, unscored }
+}
+
+/**
+ * Prolific bulk-bonus CSV: one `participant_id,amount` row (Prolific ID, dollars) per non-zero bonus
+ */
+export function toBonusCsv(payments: Array<{ prolificPid: string; amountCents: number }>): string {
+  const rows = payments
+    .filter((payment) => payment.amountCents > 0)
+    .map((payment) => `${payment.prolificPid},${(payment.amountCents / 100).toFixed(2)}`)
+  return ['participant_id,amount', ...rows].join('\n') + '\n'
+}
@@ -0,0 +1,180 @@
+import { prisma } from './db'
+import { PHASE_FIELDS, type TestPhase } from './phaseSchemas'
+import type { StudyConfig } from './studyConfig'
+
+/**
+ * Final participant status and Prolific completion codes
+ * Every participant ends in one final status; each status maps to a Prolific
+ * completion code configured per study in PROLIFIC_COMPLETION_CODES, a JSON
+ * object keyed by Prolific study ID ("*" applies to all studies), e.g.
+ *   {"*": {"completed": "KNAPSACK2024", "timed_out": "C1TIMEOUT"}}
+ * or in the study's own configuration (see studyConfig.ts), which wins.
+ * A status without a code sends the participant to Prolific without one, so
+ * Prolific asks them to return the submission.
+ * A participant only completes once the last phase of their pipeline has
+ * been received, whatever the client reports (a submission that failed
+ * validation counts, and the completion is flagged in finalStatusReason).
+ */
+
+export const FINAL_STATUSES = ['completed', 'failed_attention_check', 'screened_out', 'timed_out'] as const
+export type FinalStatus = typeof FINAL_STATUSES[number]
+
+export const isFinalStatus = (value: any): value is FinalStatus => FINAL_STATUSES.includes(value)
+
+const DEFAULT_CODES: Record<FinalStatus, string | null> = {
+  completed: 'KNAPSACK2024',
+  failed_attention_check: null,
+  screened_out: null,
+  timed_out: null
+}
+
+const PROLIFIC_COMPLETE_URL = 'https://app.prolific.co/submissions/complete'
+
+// Participants without a final status this long after registering have timed out
+const DEFAULT_TIMEOUT_MINUTES = 180
+
+function configuredCodes(): Record<string, Partial<Record<FinalStatus, string | null>>> {
+  const raw = process.env.PROLIFIC_COMPLETION_CODES
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch (error) {
+    console.error('[COMPLETION] Invalid PROLIFIC_COMPLETION_CODES, using defaults:', error)
+    return {}
+  }
+}
+
+type CompletionCodes = Partial<Record<FinalStatus, string | null>>
+
+/**
+ * Completion codes for a study: defaults, then "*", then the study's own
+ * entry, then the codes in the study's configuration
+ */
+export function getCompletionCodes(studyId: string | null, studyCodes: CompletionCodes = {}): Record<FinalStatus, string | null> {
+  const config = configuredCodes()
+  const codes: Record<FinalStatus, string | null> = {
+    ...DEFAULT_CODES,
+    ...(config['*'] || {}),
+    ...((studyId && config[studyId]) || {})
+  }
+  for (const status of FINAL_STATUSES) {
+    if (studyCodes[status] !== undefined) codes[status] = studyCodes[status]!
+  }
+  return codes
+}
+
+export function completionCodeFor(studyId: string | null, status: FinalStatus, studyCodes: CompletionCodes = {}): string | null {
+  return getCompletionCodes(studyId, studyCodes)[status] ?? null
+}
+
+export function prolificRedirectUrl(code: string | null): string {
+  return code ? `${PROLIFIC_COMPLETE_URL}?cc=${encodeURIComponent(code)}` : PROLIFIC_COMPLETE_URL
+}
+
+export function studyTimeoutMinutes(): number {
+  const minutes = parseInt(process.env.STUDY_TIMEOUT_MINUTES || '', 10)
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TIMEOUT_MINUTES
+}
+
+/**
+ * Whether a participant without a final status has run out of time
+ */
+export function hasTimedOut(
+  participant: { finalStatus: string | null; completedAt: Date | null; registeredAt: Date | null; createdAt: Date },
+  now = new Date()
+): boolean {
+  if (participant.finalStatus || participant.completedAt) return false
+  const startedAt = participant.registeredAt || participant.createdAt
+  return now.getTime() - startedAt.getTime() > studyTimeoutMinutes() * 60 * 1000
+}
+
+/**
+ * Record a participant's final status (the first one recorded wins)
+ */
+export async function setFinalStatus(participantId: string, status: FinalStatus, reason: string | null = null) {
+  const now = new Date()
+  await prisma.participant.updateMany({
+    where: { participantId, finalStatus: null },
+    data: {
+      finalStatus: status,
+      finalStatusReason: reason,
+      finalStatusAt: now,
+      ...(status === 'completed' ? { completedAt: now } : {})
+    }
+  })
+  return prisma.participant.findFirst({ where: { participantId } })
+}
+
+/**
+ * Completion details for a participant's final status
+ * (participants marked complete before final statuses existed count as completed)
+ */
+export function completionFor(
+  participant: { studyId: string | null; finalStatus: string | null; completedAt: Date | null },
+  studyCodes: CompletionCodes = {}
+) {
+  const status = isFinalStatus(participant.finalStatus)
+    ? participant.finalStatus
+    : participant.completedAt ? 'completed' : null
+  const completionCode = status ? completionCodeFor(participant.studyId, status, studyCodes) : null
+  return {
+    status,
+    completionCode,
+    redirectUrl: status ? prolificRedirectUrl(completionCode) : null
+  }
+}
+
+// Test phase each submitting pipeline step sends to POST /api/v1/ingest-phase
+const STEP_PHASES: Partial<Record<string, TestPhase>> = {
+  training1: 'practice',
+  training2: 'skill',
+  benchmark: 'benchmark',
+  strategy: 'strategy',
+  meta: 'meta',
+  prediction: 'final'
+}
+
+/**
+ * Last test phase every participant of a pipeline submits: steps an earlier
+ * branch can jump past are optional (null when the pipeline submits none)
+ */
+export function finalSubmissionPhase(phases: StudyConfig['phases']): TestPhase | null {
+  const steps = phases.map((entry) => (typeof entry === 'string' ? { id: entry, branches: [] } : entry))
+  const ids = steps.map((step) => step.id)
+  let reach = -1
+  let last: TestPhase | null = null
+
+  steps.forEach((step, index) => {
+    const phase = STEP_PHASES[step.id]
+    if (phase && index >= reach) last = phase
+    for (const branch of step.branches || []) {
+      if (branch.goto) reach = Math.max(reach, ids.indexOf(branch.goto))
+    }
+  })
+
+  return last
+}
+
+export type FinalPhaseState = { phase: TestPhase | null; state: 'received' | 'rejected' | 'missing' }
+
+/**
+ * Whether a participant's final test phase has arrived: received, rejected
+ * (sent but failed validation, kept as a flagged PhaseSubmission, so the
+ * participant may still complete) or missing
+ */
+export async function finalPhaseState(
+  participant: { participantId: string } & Record<(typeof PHASE_FIELDS)[TestPhase], unknown>,
+  phases: StudyConfig['phases']
+): Promise<FinalPhaseState> {
+  const phase = finalSubmissionPhase(phases)
+  if (!phase || (participant[PHASE_FIELDS[phase]] as any)?.completed) return { phase, state: 'received' }
+
+  const rejected = await prisma.phaseSubmission.count({
+    where: { participantId: participant.participantId, phase, rejected: true }
+  })
+  return { phase, state: rejected > 0 ? 'rejected' : 'missing' }
+}
+
+// Final status reason recorded for participants completing with a rejected final phase
+export const rejectedFinalPhaseReason = (phase: TestPhase | null) =>
+  `Final phase ${phase} received but rejected by validation`
@@ -0,0 +1,63 @@
+import crypto from 'crypto'
+import { prisma } from './db'
+
+/**
+ * Question ordering conditions (keep in sync with lib/conditions.ts)
+ * 'random' interleaves difficulties; the rest are block orders of the
+ * easy/medium/hard groups - 'EMH' is ascending, 'HME' is descending
+ */
+export const ORDERING_CONDITIONS = ['random', 'EMH', 'EHM', 'MEH', 'MHE', 'HEM', 'HME']
+
+type Tx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+/**
+ * Pick the condition with the fewest participants so far in the study (ties broken at random)
+ */
+async function pickBalancedCondition(tx: Tx, studyId: string | null): Promise<string> {
+  const groups = await tx.participant.groupBy({
+    by: ['condition'],
+    where: { studyId, condition: { in: ORDERING_CONDITIONS } },
+    _count: { _all: true }
+  })
+
+  const counts = new Map<string, number>(ORDERING_CONDITIONS.map(c => [c, 0]))
+  for (const group of groups) {
+    if (group.condition) counts.set(group.condition, group._count._all)
+  }
+
+  const fewest = Math.min(...Array.from(counts.values()))
+  const candidates = ORDERING_CONDITIONS.filter(c => counts.get(c) === fewest)
+  return candidates[crypto.randomInt(candidates.length)]
+}
+
+/**
+ * Assign an ordering condition to a participant
+ * Returns the existing condition if one was already assigned. Assignments in
+ * the same study are serialized by a transaction-scoped advisory lock, so
+ * concurrent registrations can't both see the same counts and pile onto one
+ * condition.
+ */
+export async function assignCondition(participantId: string): Promise<string | null> {
+  return prisma.$transaction(async (tx) => {
+    const participant = await tx.participant.findFirst({
+      where: { participantId },
+      select: { condition: true, studyId: true }
+    })
+
+    if (!participant) return null
+    if (participant.condition) return participant.condition
+
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`condition:${participant.studyId ?? ''}`}))`
+
+    // Re-read under the lock: a concurrent call may have assigned one meanwhile
+    const current = await tx.participant.findFirst({
+      where: { participantId },
+      select: { condition: true }
+    })
+    if (current?.condition) return current.condition
+
+    const condition = await pickBalancedCondition(tx, participant.studyId)
+    await tx.participant.update({ where: { participantId }, data: { condition } })
+    return condition
+  })
+}
@@ -0,0 +1,247 @@
+import { prisma } from './db'
+
+/**
+ * Interaction event log
+ * Timing and interaction data is stored as append-only InteractionEvent rows.
+ * The analytics endpoints rebuild the old nested `timeTracking` shape from
+ * them, falling back to the legacy JSON column for participants recorded
+ * before the event log existed.
+ */
+
+// Event types with timing meaning; any other type is a question interaction
+export const SECTION_START = 'section_start'
+export const SECTION_END = 'section_end'
+export const QUESTION_END = 'question_end'
+export const STUDY_TIME = 'study_time'
+
+// Largest batch accepted by POST /api/v1/events
+export const MAX_EVENT_BATCH = 500
+
+export interface IncomingEvent {
+  clientEventId?: string | null
+  type: string
+  section?: string | null
+  questionId?: number | null
+  clientTimestamp?: string | null
+  payload?: any
+}
+
+export interface EventRow {
+  id?: number
+  participantId: string
+  section: string | null
+  questionId: number | null
+  type: string
+  clientTimestamp: Date | null
+  serverTimestamp: Date
+  payload: any
+}
+
+/**
+ * Validate an incoming event, returning an error message or null
+ */
+export function validateEvent(event: any): string | null {
+  if (!event || typeof event !== 'object') return 'Event must be an object'
+  if (!event.type || typeof event.type !== 'string') return 'Event is missing a type'
+  if (event.clientEventId !== undefined && event.clientEventId !== null && typeof event.clientEventId !== 'string') {
+    return 'Event clientEventId must be a string'
+  }
+  if (event.questionId !== undefined && event.questionId !== null && !Number.isInteger(Number(event.questionId))) {
+    return 'Event questionId must be an integer'
+  }
+  if (event.clientTimestamp && isNaN(new Date(event.clientTimestamp).getTime())) {
+    return 'Event clientTimestamp must be an ISO date'
+  }
+  return null
+}
+
+/**
+ * Convert an incoming event to a database row
+ */
+export function toEventRow(participantId: string, event: IncomingEvent, serverTimestamp = new Date()) {
+  return {
+    participantId,
+    clientEventId: event.clientEventId ?? null,
+    section: event.section ?? null,
+    questionId: event.questionId === undefined || event.questionId === null ? null : Number(event.questionId),
+    type: event.type,
+    clientTimestamp: event.clientTimestamp ? new Date(event.clientTimestamp) : null,
+    serverTimestamp,
+    payload: event.payload ?? undefined
+  }
+}
+
+/**
+ * Translate a legacy /api/v1/log-time body into events
+ */
+export function legacyLogToEvents(body: any): IncomingEvent[] {
+  const { sectionName, questionId, timeData, interactionType } = body
+  const events: IncomingEvent[] = []
+
+  if (sectionName && !questionId) {
+    if (timeData.endTime) {
+      events.push({
+        type: SECTION_END,
+        section: sectionName,
+        clientTimestamp: timeData.endTime,
+        payload: { endTime: timeData.endTime, timeSpent: timeData.timeSpent }
+      })
+    } else {
+      events.push({
+        type: SECTION_START,
+        section: sectionName,
+        clientTimestamp: timeData.startTime,
+        payload: { startTime: timeData.startTime }
+      })
+    }
+  } else if (sectionName && questionId) {
+    if (interactionType) {
+      events.push({
+        type: interactionType,
+        section: sectionName,
+        questionId,
+        payload: timeData.interactionData || {}
+      })
+    } else {
+      events.push({
+        type: QUESTION_END,
+        section: sectionName,
+        questionId,
+        clientTimestamp: timeData.endTime,
+        payload: { startTime: timeData.startTime, endTime: timeData.endTime, timeSpent: timeData.timeSpent }
+      })
+    }
+  }
+
+  if (timeData.totalStudyTime) {
+    events.push({ type: STUDY_TIME, payload: { totalStudyTime: timeData.totalStudyTime } })
+  }
+
+  return events
+}
+
+const iso = (date: Date | null) => (date ? date.toISOString() : null)
+
+/**
+ * Order a participant's events as they happened on the client
+ * Client timestamps are corrected by the clock skew measured at phase start
+ * (client minus server, see timers.ts) so batches that reach the server late
+ * still slot in where they belong; events without one fall back to the server
+ * timestamp. Ties are broken by server timestamp, then insertion order.
+ */
+export function orderEvents(events: EventRow[], clockSkewMs: number | null = null): EventRow[] {
+  const at = (event: EventRow) =>
+    event.clientTimestamp ? event.clientTimestamp.getTime() - (clockSkewMs ?? 0) : event.serverTimestamp.getTime()
+
+  return [...events].sort((a, b) =>
+    at(a) - at(b) ||
+    a.serverTimestamp.getTime() - b.serverTimestamp.getTime() ||
+    (a.id ?? 0) - (b.id ?? 0)
+  )
+}
+
+/**
+ * Rebuild the nested timeTracking structure from a participant's events
+ * (in the order of orderEvents)
+ */
+export function buildTimeTracking(events: EventRow[]): any {
+  const timeTracking: any = {
+    totalStudyTime: 0,
+    sections: [],
+    sessionStart: events.length > 0 ? iso(events[0].serverTimestamp) : null,
+    sessionEnd: events.length > 0 ? iso(events[events.length - 1].serverTimestamp) : null
+  }
+
+  const getSection = (sectionName: string, startTime: string | null) => {
+    let section = timeTracking.sections.find((s: any) => s.sectionName === sectionName)
+    if (!section) {
+      section = { sectionName, startTime, endTime: null, timeSpent: 0, questionTimes: [] }
+      timeTracking.sections.push(section)
+    }
+    return section
+  }
+
+  const getQuestion = (section: any, questionId: number) => {
+    let question = section.questionTimes.find((q: any) => q.questionId === questionId)
+    if (!question) {
+      question = { questionId, startTime: null, endTime: null, timeSpent: 0, interactions: [] }
+      section.questionTimes.push(question)
+    }
+    return question
+  }
+
+  for (const event of events) {
+    const payload = event.payload || {}
+    const at = iso(event.clientTimestamp) || iso(event.serverTimestamp)
+
+    if (event.type === STUDY_TIME) {
+      timeTracking.totalStudyTime = payload.totalStudyTime || timeTracking.totalStudyTime
+      continue
+    }
+    if (!event.section) continue
+
+    const section = getSection(event.section, event.type === SECTION_END ? null : payload.startTime || at)
+
+    if (event.type === SECTION_START) {
+      continue
+    }
+
+    if (event.type === SECTION_END) {
+      section.endTime = payload.endTime || at
+      section.timeSpent = section.startTime
+        ? new Date(section.endTime).getTime() - new Date(section.startTime).getTime()
+        : payload.timeSpent || 0
+      continue
+    }
+
+    if (event.questionId === null) continue
+    const question = getQuestion(section, event.questionId)
+
+    if (event.type === QUESTION_END) {
+      if (!question.startTime) question.startTime = payload.startTime || null
+      question.endTime = payload.endTime || at
+      question.timeSpent = question.startTime
+        ? new Date(question.endTime).getTime() - new Date(question.startTime).getTime()
+        : payload.timeSpent || 0
+    } else {
+      question.interactions.push({
+        type: event.type,
+        timestamp: at,
+        data: payload
+      })
+    }
+  }
+
+  return timeTracking
+}
+
+/**
+ * Load timeTracking for participants, keyed by participantId
+ * Uses the event log when a participant has events, else their legacy blob
+ */
+export async function loadTimeTracking(
+  participants: Array<{ participantId: string; timeTracking: any; clockSkewMs: number | null }>
+): Promise<Map<string, any>> {
+  const events = await prisma.interactionEvent.findMany({
+    where: { participantId: { in: participants.map(p => p.participantId) } },
+    orderBy: [{ serverTimestamp: 'asc' }, { id: 'asc' }]
+  })
+
+  const byParticipant = new Map<string, EventRow[]>()
+  for (const event of events) {
+    if (!byParticipant.has(event.participantId)) byParticipant.set(event.participantId, [])
+    byParticipant.get(event.participantId)!.push(event)
+  }
+
+  const result = new Map<string, any>()
+  for (const participant of participants) {
+    const participantEvents = byParticipant.get(participant.participantId)
+    result.set(
+      participant.participantId,
+      participantEvents
+        ? buildTimeTracking(orderEvents(participantEvents, participant.clockSkewMs))
+        : participant.timeTracking || {}
+    )
+  }
+  return result
+}
@@ -0,0 +1,59 @@
+/**
+ * Difficulty labelling (meta-analysis) summaries
+ * Participants label bank items as easy/medium/hard with a 1-5 confidence; the
+ * stored classifications are compared with the generator-assigned difficulty
+ * of the items in the participant's pinned bank (see scoring.ts, scoreMetaPhase).
+ */
+
+const DIFFICULTIES = ['easy', 'medium', 'hard']
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+const mean = (values: number[]) =>
+  values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+
+export function meanConfidence(classifications: any[] | undefined): number | null {
+  return mean((classifications || []).map((c) => c.confidence).filter((c): c is number => typeof c === 'number'))
+}
+
+/**
+ * Aggregate labelling results across participants: accuracy and confidence,
+ * a confusion matrix (generator difficulty x participant label) and accuracy
+ * per confidence level
+ */
+export function summarizeMetaAnalysis(participants: Array<{ testMeta: any }>) {
+  const completed = participants.map((p) => p.testMeta).filter((meta) => meta?.completed)
+
+  const confusion: Record<string, Record<string, number>> = {}
+  for (const actual of DIFFICULTIES) {
+    confusion[actual] = { easy: 0, medium: 0, hard: 0, unlabelled: 0 }
+  }
+  const byConfidence: Record<string, { items: number; correct: number }> = {}
+
+  for (const meta of completed) {
+    for (const item of meta.serverScoring?.items || []) {
+      if (!confusion[item.difficulty]) continue
+      confusion[item.difficulty][item.classification ?? 'unlabelled']++
+    }
+    for (const item of meta.classifications || []) {
+      if (typeof item.confidence !== 'number') continue
+      const level = String(item.confidence)
+      if (!byConfidence[level]) byConfidence[level] = { items: 0, correct: 0 }
+      byConfidence[level].items++
+      if (item.correct) byConfidence[level].correct++
+    }
+  }
+
+  const accuracyByConfidence: Record<string, number> = {}
+  Object.keys(byConfidence).forEach((level) => {
+    accuracyByConfidence[level] = round(byConfidence[level].correct / byConfidence[level].items)
+  })
+
+  return {
+    participants: completed.length,
+    avgAccuracy: mean(completed.map((meta) => meta.accuracy).filter((a: any) => typeof a === 'number')),
+    avgConfidence: mean(completed.map((meta) => meanConfidence(meta.classifications)).filter((c): c is number => c !== null)),
+    confusion,
+    accuracyByConfidence
+  }
+}
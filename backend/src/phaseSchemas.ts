@@ -0,0 +1,205 @@
+import z from 'zod'
+
+/**
+ * Phase submission schemas
+ * One zod schema per phase, matching the payloads the phase components send
+ * to POST /api/v1/ingest-phase. Unknown fields are stripped and out-of-range
+ * values rejected before anything is written to the participant record
+ * (rejected payloads are kept as flagged PhaseSubmission revisions).
+ */
+
+export const TestPhase = z.enum(['practice', 'skill', 'benchmark', 'strategy', 'meta', 'final'])
+export type TestPhase = z.infer<typeof TestPhase>
+
+// Participant column holding each phase's accepted submission
+export const PHASE_FIELDS: Record<TestPhase, 'testPractice' | 'testSkill' | 'testBenchmark' | 'testStrategy' | 'testMeta' | 'testFinal'> = {
+  practice: 'testPractice',
+  skill: 'testSkill',
+  benchmark: 'testBenchmark',
+  strategy: 'testStrategy',
+  meta: 'testMeta',
+  final: 'testFinal'
+}
+
+// Time limits of the timed phases, in seconds (timeUsed is clamped to them);
+// studies can configure their own, see studyConfig.ts
+type TimeLimits = { skill: number; benchmark: number; final: number }
+
+const DEFAULT_TIME_LIMITS: TimeLimits = {
+  skill: 15 * 60,
+  benchmark: 15 * 60,
+  final: 20 * 60
+}
+
+const count = z.number().int().nonnegative()
+// Studies set their own (possibly fractional or negative) weights, see studyConfig.ts,
+// so totals can drop below zero
+const points = z.number()
+// Accuracy of an empty test is NaN on the client, which JSON sends as null
+const accuracy = z.number().min(0).max(1).nullable()
+const questionId = z.number().int().positive()
+
+const SelectedItems = z.array(z.number().int().nonnegative()).max(100)
+
+const PracticeAnswer = z.object({
+  questionId,
+  selected: SelectedItems,
+  correct: z.boolean(),
+  confirmed: z.boolean()
+})
+
+const TestAnswer = PracticeAnswer.extend({
+  timeSpent: z.number().nonnegative().optional()
+})
+
+const QuestionTime = z.object({
+  questionId,
+  startTime: z.number().nonnegative().optional(),
+  endTime: z.number().nonnegative().optional(),
+  timeSpent: z.number().nonnegative()
+})
+
+// Routing decision echoed back by the Benchmark and Final tests (see routing.ts)
+const Routing = z.looseObject({}).nullable().optional()
+
+const PracticeData = z.object({
+  completed: z.boolean(),
+  correctAnswers: count,
+  totalQuestions: count,
+  accuracy,
+  answers: z.array(PracticeAnswer).max(100)
+})
+
+const ScoredTest = z.object({
+  completed: z.boolean(),
+  correctAnswers: count,
+  incorrectAnswers: count,
+  unansweredQuestions: count,
+  totalPoints: points,
+  maxPoints: points.nonnegative(),
+  totalQuestions: count,
+  accuracy: accuracy.optional(),
+  timeUsed: z.number().nonnegative(),
+  answers: z.array(TestAnswer).max(100),
+  questionTimes: z.array(QuestionTime).max(100).default([]),
+  routing: Routing,
+  // Token from POST /api/v1/phase-start (see timers.ts)
+  startToken: z.string().max(100).optional()
+})
+
+const StrategyData = z.object({
+  completed: z.boolean(),
+  answers: z.record(z.string().regex(/^\d+$/), z.object({
+    text: z.string().max(10000),
+    timeSpent: z.number().nonnegative().optional()
+  })),
+  questionsAnswered: count,
+  totalQuestions: count,
+  timeUsed: z.number().nonnegative(),
+  questionTimes: z.array(QuestionTime).max(100).default([])
+})
+
+// Difficulty labelling: the participant's easy/medium/hard label and confidence for each item
+const Difficulty = z.enum(['easy', 'medium', 'hard'])
+
+const MetaData = z.object({
+  completed: z.boolean(),
+  correctClassifications: count,
+  totalQuestions: count,
+  totalPoints: points,
+  maxPoints: points.nonnegative(),
+  accuracy: accuracy.optional(),
+  timeUsed: z.number().nonnegative(),
+  classifications: z.array(z.object({
+    questionId,
+    classification: Difficulty.nullable(),
+    // 1 (guessing) to 5 (certain)
+    confidence: z.number().int().min(1).max(5).nullable(),
+    correct: z.boolean(),
+    timeSpent: z.number().nonnegative()
+  })).max(100)
+})
+
+type ScoredTest = z.infer<typeof ScoredTest>
+
+// Time used past the limit (a last timer tick, a resumed session) is clamped
+// to the limit and flagged rather than discarding the submission
+const clampTimeUsed = (timeLimit: number) => (data: ScoredTest) =>
+  data.timeUsed > timeLimit ? { ...data, timeUsed: timeLimit, timeUsedReported: data.timeUsed, timeOverrun: true } : data
+
+// Cross-field checks shared by the scored phases
+const checkCounts = (data: ScoredTest, ctx: z.RefinementCtx) => {
+  if (data.correctAnswers + data.incorrectAnswers + data.unansweredQuestions > data.totalQuestions) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['correctAnswers'],
+      message: 'correct + incorrect + unanswered exceeds totalQuestions'
+    })
+  }
+  if (data.totalPoints > data.maxPoints) {
+    ctx.addIssue({ code: 'custom', path: ['totalPoints'], message: 'totalPoints exceeds maxPoints' })
+  }
+  if (data.answers.length > data.totalQuestions) {
+    ctx.addIssue({ code: 'custom', path: ['answers'], message: 'More answers than totalQuestions' })
+  }
+}
+
+export const buildPhaseDataSchemas = (timeLimits: TimeLimits) => ({
+  practice: PracticeData.superRefine((data, ctx) => {
+    if (data.correctAnswers > data.totalQuestions) {
+      ctx.addIssue({ code: 'custom', path: ['correctAnswers'], message: 'correctAnswers exceeds totalQuestions' })
+    }
+  }),
+  skill: ScoredTest.superRefine(checkCounts).transform(clampTimeUsed(timeLimits.skill)),
+  benchmark: ScoredTest.superRefine(checkCounts).transform(clampTimeUsed(timeLimits.benchmark)),
+  strategy: StrategyData.superRefine((data, ctx) => {
+    if (data.questionsAnswered > data.totalQuestions) {
+      ctx.addIssue({ code: 'custom', path: ['questionsAnswered'], message: 'questionsAnswered exceeds totalQuestions' })
+    }
+  }),
+  meta: MetaData.superRefine((data, ctx) => {
+    if (data.correctClassifications > data.totalQuestions) {
+      ctx.addIssue({ code: 'custom', path: ['correctClassifications'], message: 'correctClassifications exceeds totalQuestions' })
+    }
+    if (data.classifications.length > data.totalQuestions) {
+      ctx.addIssue({ code: 'custom', path: ['classifications'], message: 'More classifications than totalQuestions' })
+    }
+  }),
+  final: ScoredTest.superRefine(checkCounts).transform(clampTimeUsed(timeLimits.final))
+})
+
+export const PhaseDataSchemas = buildPhaseDataSchemas(DEFAULT_TIME_LIMITS)
+
+export const IngestRequest = z.object({
+  participantId: z.string().min(1),
+  phase: TestPhase,
+  // Generated once per submission by the client outbox and reused across retries
+  idempotencyKey: z.string().min(1).max(200).optional(),
+  // Question bank the phase was answered against (see questionBank.ts)
+  bankVersion: z.string().min(1).max(100).optional(),
+  data: z.unknown()
+})
+
+/**
+ * Turn zod issues into "path: message" strings for error responses
+ */
+export function describeIssues(error: z.ZodError, prefix?: string): string[] {
+  return error.issues.map((issue) => {
+    const path = [prefix, ...issue.path.map(String)].filter(Boolean).join('.')
+    return path ? `${path}: ${issue.message}` : issue.message
+  })
+}
+
+/**
+ * Validate a phase payload, returning the cleaned data or descriptive errors
+ */
+export function parsePhaseData(phase: TestPhase, data: unknown, timeLimits?: TimeLimits):
+  | { success: true; data: any }
+  | { success: false; errors: string[] } {
+  const schemas = timeLimits ? buildPhaseDataSchemas(timeLimits) : PhaseDataSchemas
+  const result = schemas[phase].safeParse(data)
+  if (!result.success) {
+    return { success: false, errors: describeIssues(result.error, 'data') }
+  }
+  return { success: true, data: result.data }
+}
@@ -0,0 +1,182 @@
+import crypto from 'crypto'
+import z from 'zod'
+import { prisma } from './db'
+
+/**
+ * Versioned question banks
+ * Generator output (scripts/generate-static-questions.ts) is imported as a
+ * QuestionBank row plus one Question row per item. One version is active at a
+ * time: participants are pinned to it at registration and keep seeing it even
+ * after a newer bank is activated, and every phase submission records the
+ * version it was answered against.
+ */
+
+const Ball = z.object({
+  id: z.number().int(),
+  weight: z.number(),
+  reward: z.number(),
+  color: z.string(),
+  // Bounded, multidimensional and multiple-choice questions (see lib/knapsack-variants.ts)
+  quantity: z.number().int().positive().optional(),
+  volume: z.number().optional(),
+  group: z.number().int().optional()
+})
+
+const BankQuestion = z.looseObject({
+  id: z.number().int(),
+  type: z.enum(['binary', 'bounded', 'multidimensional', 'multiple-choice']).optional(),
+  capacity: z.number().int().positive(),
+  volumeCapacity: z.number().int().positive().optional(),
+  balls: z.array(Ball).min(1),
+  solution: z.array(z.number().int()).optional(),
+  solutions: z.array(z.array(z.number().int())).optional(),
+  explanation: z.string().optional(),
+  difficulty: z.string().optional(),
+  phase: z.string().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional()
+})
+
+// Shape of lib/static-questions.json
+export const BankFile = z.object({
+  metadata: z.looseObject({
+    generatedAt: z.string().optional(),
+    bankVersion: z.string().optional(),
+    version: z.string().optional()
+  }),
+  questions: z.array(BankQuestion).min(1)
+}).superRefine((file, ctx) => {
+  const seen = new Set<number>()
+  file.questions.forEach((question, index) => {
+    if (seen.has(question.id)) {
+      ctx.addIssue({ code: 'custom', path: ['questions', index, 'id'], message: `Duplicate question id ${question.id}` })
+    }
+    seen.add(question.id)
+  })
+})
+
+export type BankFile = z.infer<typeof BankFile>
+type BankQuestion = z.infer<typeof BankQuestion>
+
+/**
+ * Version of a generator output: an explicit bankVersion, otherwise the
+ * generation timestamp (keep in sync with lib/question-bank.ts)
+ */
+export function bankVersionOf(metadata: BankFile['metadata']): string | null {
+  return metadata.bankVersion || metadata.generatedAt || null
+}
+
+export function bankChecksum(questions: BankQuestion[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(questions)).digest('hex')
+}
+
+/**
+ * Stored question rows back in the generator's shape
+ */
+export function toBankQuestion(row: {
+  questionId: number
+  phase: string | null
+  difficulty: string | null
+  type: string | null
+  capacity: number
+  volumeCapacity: number | null
+  balls: any
+  solution: any
+  solutions: any
+  explanation: string | null
+  metadata: any
+}) {
+  return {
+    id: row.questionId,
+    ...(row.type !== null ? { type: row.type } : {}),
+    capacity: row.capacity,
+    ...(row.volumeCapacity !== null ? { volumeCapacity: row.volumeCapacity } : {}),
+    balls: row.balls,
+    ...(row.solution !== null ? { solution: row.solution } : {}),
+    ...(row.solutions !== null ? { solutions: row.solutions } : {}),
+    ...(row.explanation !== null ? { explanation: row.explanation } : {}),
+    ...(row.difficulty !== null ? { difficulty: row.difficulty } : {}),
+    ...(row.phase !== null ? { phase: row.phase } : {}),
+    ...(row.metadata !== null ? { metadata: row.metadata } : {})
+  }
+}
+
+export async function getActiveBank() {
+  return prisma.questionBank.findFirst({ where: { active: true } })
+}
+
+export async function loadBankQuestions(version: string) {
+  const rows = await prisma.question.findMany({
+    where: { bankVersion: version },
+    orderBy: { questionId: 'asc' }
+  })
+  return rows.map(toBankQuestion)
+}
+
+/**
+ * Make a bank version the one new participants are pinned to
+ * Returns null if the version does not exist
+ */
+export async function activateBank(version: string) {
+  const bank = await prisma.questionBank.findUnique({ where: { version } })
+  if (!bank) return null
+
+  const [, activated] = await prisma.$transaction([
+    prisma.questionBank.updateMany({ where: { active: true, version: { not: version } }, data: { active: false } }),
+    prisma.questionBank.update({ where: { version }, data: { active: true, activatedAt: new Date() } })
+  ])
+  return activated
+}
+
+/**
+ * Import a generator output as a new bank version
+ * Re-importing the same questions under the same version is a no-op; the same
+ * version with different questions (e.g. after IRT calibration) is a conflict
+ * and needs an explicit version.
+ */
+export async function importQuestionBank(
+  file: BankFile,
+  options: { version?: string; source?: string; activate?: boolean } = {}
+): Promise<{ status: 'created' | 'exists' | 'conflict'; bank: any }> {
+  const version = options.version || bankVersionOf(file.metadata)
+  if (!version) {
+    throw new Error('Question bank has no version: pass one or set metadata.bankVersion')
+  }
+
+  const checksum = bankChecksum(file.questions)
+  const existing = await prisma.questionBank.findUnique({ where: { version } })
+  if (existing) {
+    if (existing.checksum !== checksum) return { status: 'conflict', bank: existing }
+    const bank = options.activate && !existing.active ? await activateBank(version) : existing
+    return { status: 'exists', bank }
+  }
+
+  const [bank] = await prisma.$transaction([
+    prisma.questionBank.create({
+      data: {
+        version,
+        source: options.source ?? null,
+        questionCount: file.questions.length,
+        checksum,
+        metadata: file.metadata as any
+      }
+    }),
+    prisma.question.createMany({
+      data: file.questions.map((q) => ({
+        bankVersion: version,
+        questionId: q.id,
+        phase: q.phase ?? null,
+        difficulty: q.difficulty ?? null,
+        type: q.type ?? null,
+        capacity: q.capacity,
+        volumeCapacity: q.volumeCapacity ?? null,
+        balls: q.balls,
+        solution: q.solution ?? undefined,
+        solutions: q.solutions ?? undefined,
+        explanation: q.explanation ?? null,
+        metadata: (q.metadata ?? undefined) as any
+      }))
+    })
+  ])
+
+  return { status: 'created', bank: options.activate ? await activateBank(version) : bank }
+}
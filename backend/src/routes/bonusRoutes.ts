@@ -0,0 +1,84 @@
+import express from 'express'
+import { prisma } from '../db'
+import { adminAuth } from '../adminAuth'
+import { computeBonuses, getBonusScheme, toBonusCsv } from '../bonus'
+
+export const router = express.Router()
+
+// COMPUTE bonuses for completed participants (admin)
+// Body: { drawSeed?: number, recompute?: boolean, recomputeExported?: boolean } - the lottery seed is
+// recorded with every payment and reused on recompute; exported bonuses need recomputeExported.
+// Participants with tests the server could not score are listed under `unscored` and get no bonus
+router.post('/api/v1/admin/bonuses/compute', adminAuth, async (req, res) => {
+  const { drawSeed, recompute, recomputeExported } = req.body || {}
+
+  if (drawSeed !== undefined && (!Number.isInteger(drawSeed) || drawSeed < 0 || drawSeed > 2147483647)) {
+    return res.status(400).json({ error: 'drawSeed must be an integer between 0 and 2147483647' })
+  }
+
+  try {
+    const { scheme, drawSeed: usedSeed, results, skippedExported, unscored } = await computeBonuses({
+      drawSeed,
+      recompute: !!recompute,
+      recomputeExported: !!recomputeExported
+    })
+    const totalCents = results.reduce((sum, r) => sum + r.amountCents, 0)
+
+    console.log(`[BONUS] Computed ${results.length} bonuses (${scheme.type}, seed ${usedSeed}), total $${(totalCents / 100).toFixed(2)}`)
+    if (unscored.length > 0) {
+      console.warn(`[BONUS] Skipped ${unscored.length} participants with unscored tests`)
+    }
+    return res.status(200).json({
+      scheme,
+      drawSeed: usedSeed,
+      computed: results.length,
+      skippedExported,
+      unscored,
+      winners: results.filter(r => r.amountCents > 0).length,
+      totalAmount: totalCents / 100,
+      results
+    })
+
+  } catch (err) {
+    console.error('[BONUS COMPUTE ERROR]', err)
+    return res.status(500).json({ error: 'Failed to compute bonuses' })
+  }
+})
+
+// LIST stored bonuses (admin)
+router.get('/api/v1/admin/bonuses', adminAuth, async (req, res) => {
+  try {
+    const payments = await prisma.bonusPayment.findMany({ orderBy: { computedAt: 'asc' } })
+    return res.status(200).json({ scheme: getBonusScheme(), payments })
+
+  } catch (err) {
+    console.error('[BONUS LIST ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load bonuses' })
+  }
+})
+
+// EXPORT Prolific bulk-bonus CSV (admin) - participant_id,amount for every non-zero bonus
+// not exported yet, so a download is never paid twice; ?all=1 re-downloads every bonus
+router.get('/api/v1/admin/bonuses/export.csv', adminAuth, async (req, res) => {
+  const all = req.query.all === '1'
+
+  try {
+    const payments = await prisma.bonusPayment.findMany({
+      where: all ? {} : { exportedAt: null },
+      orderBy: { computedAt: 'asc' }
+    })
+
+    await prisma.bonusPayment.updateMany({
+      where: { id: { in: payments.map(p => p.id) }, exportedAt: null },
+      data: { exportedAt: new Date() }
+    })
+
+    res.setHeader('Content-Type', 'text/csv')
+    res.setHeader('Content-Disposition', 'attachment; filename=prolific-bonuses.csv')
+    return res.status(200).send(toBonusCsv(payments))
+
+  } catch (err) {
+    console.error('[BONUS EXPORT ERROR]', err)
+    return res.status(500).json({ error: 'Failed to export bonuses' })
+  }
+})
@@ -0,0 +1,80 @@
+import express from 'express'
+import { prisma } from '../db'
+import { FINAL_STATUSES, completionFor, hasTimedOut, isFinalStatus, finalPhaseState, rejectedFinalPhaseReason, setFinalStatus } from '../completion'
+import { loadStudyConfig } from '../studyConfig'
+
+export const router = express.Router()
+
+// RECORD a participant's final status and return the matching Prolific completion code
+// (the first final status recorded wins; later calls return it unchanged)
+// Completing is refused with 409 until the pipeline's final phase has been received
+// (a rejected final submission counts and is noted as the status reason)
+router.post('/api/v1/participant-status', async (req, res) => {
+  const { participantId, status, reason } = req.body
+
+  if (!participantId || !status) {
+    return res.status(400).json({ error: 'Missing required fields: participantId, status' })
+  }
+
+  if (!isFinalStatus(status)) {
+    return res.status(400).json({ error: `Invalid status. Must be one of: ${FINAL_STATUSES.join(', ')}` })
+  }
+
+  try {
+    let statusReason = typeof reason === 'string' ? reason.slice(0, 500) : null
+    if (status === 'completed') {
+      const existing = await prisma.participant.findFirst({ where: { participantId } })
+      if (existing && !existing.finalStatus) {
+        const final = await finalPhaseState(existing, (await loadStudyConfig(existing.studyId)).phases)
+        if (final.state === 'missing') {
+          return res.status(409).json({ error: `Final phase not received yet: ${final.phase}`, phase: final.phase })
+        }
+        if (final.state === 'rejected') statusReason = rejectedFinalPhaseReason(final.phase)
+      }
+    }
+
+    const participant = await setFinalStatus(participantId, status, statusReason)
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    console.log(`[STATUS] Participant ${participantId} final status: ${participant.finalStatus}`)
+    const config = await loadStudyConfig(participant.studyId)
+    return res.status(200).json({ participantId, ...completionFor(participant, config.completionCodes) })
+
+  } catch (err) {
+    console.error('[PARTICIPANT STATUS ERROR]', err)
+    return res.status(500).json({ error: 'Failed to record participant status' })
+  }
+})
+
+// GET the completion code for a participant's final status
+// Participants past the study time limit without a status are marked timed out
+router.get('/api/v1/completion-code/:participantId', async (req, res) => {
+  const { participantId } = req.params
+
+  try {
+    let participant = await prisma.participant.findFirst({ where: { participantId } })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    if (hasTimedOut(participant)) {
+      participant = await setFinalStatus(participantId, 'timed_out', 'Study time limit exceeded')
+    }
+
+    const config = await loadStudyConfig(participant!.studyId)
+    const completion = completionFor(participant!, config.completionCodes)
+    if (!completion.status) {
+      return res.status(409).json({ error: 'Participant has no final status yet' })
+    }
+
+    return res.status(200).json({ participantId, ...completion })
+
+  } catch (err) {
+    console.error('[COMPLETION CODE ERROR]', err)
+    return res.status(500).json({ error: 'Failed to get completion code' })
+  }
+})
@@ -0,0 +1,67 @@
+import express from 'express'
+import { prisma } from '../db'
+import { MAX_EVENT_BATCH, toEventRow, validateEvent } from '../events'
+
+export const router = express.Router()
+
+// APPEND a batch of interaction/timing events (append-only, safe under concurrent requests)
+// Also accepts text/plain bodies, which is what navigator.sendBeacon sends without a CORS preflight.
+// `droppedEvents` reports events the client discarded since its last batch; they are counted on the participant
+router.post('/api/v1/events', express.text({ type: 'text/plain', limit: '2mb' }), async (req, res) => {
+  let body: any = req.body
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body)
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON body' })
+    }
+  }
+  const { participantId, events, droppedEvents } = body || {}
+
+  if (!participantId || !Array.isArray(events)) {
+    return res.status(400).json({ error: 'Missing required fields: participantId, events' })
+  }
+
+  if (events.length > MAX_EVENT_BATCH) {
+    return res.status(413).json({ error: `Too many events in one batch (max ${MAX_EVENT_BATCH})` })
+  }
+
+  for (let i = 0; i < events.length; i++) {
+    const error = validateEvent(events[i])
+    if (error) {
+      return res.status(400).json({ error: `Invalid event at index ${i}: ${error}` })
+    }
+  }
+
+  try {
+    const participant = await prisma.participant.findFirst({
+      where: { participantId },
+      select: { participantId: true }
+    })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    const serverTimestamp = new Date()
+    const created = await prisma.interactionEvent.createMany({
+      data: events.map((event: any) => toEventRow(participantId, event, serverTimestamp)),
+      // Re-sent batches (retries, beacons) carry the same clientEventIds
+      skipDuplicates: true
+    })
+
+    if (Number.isInteger(droppedEvents) && droppedEvents > 0) {
+      console.warn(`[EVENTS] Participant ${participantId} dropped ${droppedEvents} events`)
+      await prisma.participant.update({
+        where: { participantId },
+        data: { droppedEvents: { increment: droppedEvents } }
+      })
+    }
+
+    return res.status(201).json({ success: true, recorded: created.count })
+
+  } catch (err) {
+    console.error('[EVENTS ERROR]', err)
+    return res.status(500).json({ error: 'Failed to record events' })
+  }
+})
@@ -1,7 +1,18 @@
 import express from 'express'
-import z from 'zod'
 import crypto from 'crypto'
+import { Prisma } from '@prisma/client'
 import { prisma } from '../db'
+import { adminAuth } from '../adminAuth'
+import { assignCondition } from '../conditions'
+import { decideRouting, type RoutingDecision } from '../routing'
+import { IngestRequest, PHASE_FIELDS, describeIssues, parsePhaseData } from '../phaseSchemas'
+import { applyServerScoring, phasesWithDiscrepancies, unscoredPhases } from '../scoring'
+import { enforceDeadline, isTimedPhase } from '../timers'
+import { completionFor, hasTimedOut, finalPhaseState, rejectedFinalPhaseReason, setFinalStatus } from '../completion'
+import { loadStudyConfig } from '../studyConfig'
+import { legacyLogToEvents, loadTimeTracking, toEventRow } from '../events'
+import { meanConfidence, summarizeMetaAnalysis } from '../metaAnalysis'
+import { getActiveBank, toBankQuestion } from '../questionBank'
 
 // Type definition for Participant (will be auto-generated after running prisma generate)
 interface Participant {
@@ -13,18 +24,34 @@ interface Participant {
   sessionId: string | null
   registeredAt: Date | null
   completedAt: Date | null
+  finalStatus: string | null
+  finalStatusReason: string | null
+  finalStatusAt: Date | null
+  questionSeed: number | null
+  condition: string | null
+  bankVersion: string | null
+  routing: any
+  clockSkewMs: number | null
+  droppedEvents: number
   testPractice: any
   testSkill: any
   testBenchmark: any
   testStrategy: any
+  testMeta: any
   testFinal: any
   timeTracking: any
+  currentPhase: string | null
+  sessionState: any
+  sessionUpdatedAt: Date | null
 }
 
 export const router = express.Router()
 
-// Zod schemas
-const TestPhase = z.enum(['practice', 'skill', 'benchmark', 'strategy', 'final'])
+// Question seeds fit in a Postgres INTEGER column
+const newQuestionSeed = () => crypto.randomInt(0, 2147483647)
+
+// New participants are pinned to the question bank active when they register
+const activeBankVersion = async () => (await getActiveBank())?.version ?? null
 
 // REGISTER a new participant
 router.post('/api/v1/register', async (req, res) => {
@@ -33,11 +60,15 @@ router.post('/api/v1/register', async (req, res) => {
   const newDoc = await prisma.participant.create({
     data: {
       participantId: id,
+      questionSeed: newQuestionSeed(),
+      bankVersion: await activeBankVersion(),
       createdAt: new Date(),
     }
   })
 
-  return res.status(201).json({ participantId: newDoc.participantId })
+  const condition = await assignCondition(newDoc.participantId)
+
+  return res.status(201).json({ participantId: newDoc.participantId, questionSeed: newDoc.questionSeed, condition })
 })
 
 // CHECK if participant exists and completion status
@@ -49,7 +80,7 @@ router.get('/api/v1/check-participant/:prolificPid', async (req, res) => {
   }
 
   try {
-    const participant = await prisma.participant.findFirst({ 
+    let participant = await prisma.participant.findFirst({ 
       where: { prolificPid }
     })
     
@@ -59,6 +90,12 @@ router.get('/api/v1/check-participant/:prolificPid', async (req, res) => {
         completed: false 
       })
     }
+
+    // Returning after the study time limit ends the study as timed out
+    if (hasTimedOut(participant)) {
+      participant = (await setFinalStatus(participant.participantId, 'timed_out', 'Study time limit exceeded'))!
+    }
+    const completion = completionFor(participant, (await loadStudyConfig(participant.studyId)).completionCodes)
     
     // Check if participant has completed all required phases
     const requiredPhases = ['practice', 'skill', 'benchmark', 'strategy', 'final'] as const
@@ -86,10 +123,14 @@ router.get('/api/v1/check-participant/:prolificPid', async (req, res) => {
       exists: true, 
       completed: isCompleted,
       participantId: participant.participantId,
+      questionSeed: participant.questionSeed,
+      condition: participant.condition,
       completedPhases: completedPhases.length,
       totalPhases: requiredPhases.length,
       allPhasesComplete: isFullyCompleted,
-      markedComplete: isMarkedCompleted
+      markedComplete: isMarkedCompleted,
+      finalStatus: completion.status,
+      redirectUrl: completion.redirectUrl
     })
     
   } catch (err) {
@@ -109,28 +150,39 @@ router.post('/api/v1/complete-participant', async (req, res) => {
   }
 
   try {
-    const updated = await prisma.participant.updateMany({
-      where: { 
-        participantId,
-        prolificPid
-      },
-      data: { 
-        completedAt: completedAt ? new Date(completedAt) : new Date()
-      }
-    })
-    
-    if (updated.count === 0) {
+    const existing = await prisma.participant.findFirst({ where: { participantId, prolificPid } })
+    if (!existing) {
       return res.status(404).json({ error: 'Participant not found' })
     }
-    
+
+    let statusReason: string | null = null
+    if (!existing.finalStatus) {
+      const final = await finalPhaseState(existing, (await loadStudyConfig(existing.studyId)).phases)
+      if (final.state === 'missing') {
+        return res.status(409).json({ error: `Final phase not received yet: ${final.phase}`, phase: final.phase })
+      }
+      if (final.state === 'rejected') statusReason = rejectedFinalPhaseReason(final.phase)
+    }
+
+    // Participants that already ended otherwise (timed out, screened out, failed
+    // an attention check) keep that status and are not marked complete
+    await setFinalStatus(participantId, 'completed', statusReason)
+    if (completedAt) {
+      await prisma.participant.updateMany({
+        where: { participantId, prolificPid, finalStatus: 'completed' },
+        data: { completedAt: new Date(completedAt) }
+      })
+    }
+
     const participant = await prisma.participant.findFirst({
       where: { participantId, prolificPid }
     })
     
-    console.log(`[Backend] Marked participant as completed: ${prolificPid}`)
+    console.log(`[Backend] Participant ${prolificPid} final status: ${participant?.finalStatus}`)
     return res.status(200).json({ 
       success: true, 
-      completedAt: participant?.completedAt 
+      completedAt: participant?.completedAt,
+      ...(participant ? completionFor(participant, (await loadStudyConfig(participant.studyId)).completionCodes) : {})
     })
     
   } catch (err) {
@@ -159,6 +211,13 @@ router.post('/api/v1/register-prolific', async (req, res) => {
     })
   }
 
+  // Studies without a Study row run with the default configuration; deactivated ones accept no one
+  const study = await prisma.study.findUnique({ where: { studyId } })
+  if (study && !study.active) {
+    console.log(`[Backend] Rejected registration for inactive study: ${studyId}`)
+    return res.status(403).json({ error: 'This study is not currently accepting participants' })
+  }
+
   // TEMPORARILY DISABLED FOR TESTING: Check if this Prolific participant already exists
   // TODO: Re-enable this before production launch
   /*
@@ -200,14 +259,20 @@ router.post('/api/v1/register-prolific', async (req, res) => {
         prolificPid: uniqueProlificPid,
         studyId,
         sessionId,
+        questionSeed: newQuestionSeed(),
+        bankVersion: await activeBankVersion(),
         registeredAt: new Date(),
         createdAt: new Date(),
       }
     })
 
-    console.log(`[Backend] Created new participant for Prolific ID: ${prolificPid}, Participant ID: ${id}`)
+    const condition = await assignCondition(newDoc.participantId)
+
+    console.log(`[Backend] Created new participant for Prolific ID: ${prolificPid}, Participant ID: ${id}, condition: ${condition}`)
     return res.status(201).json({ 
       participantId: newDoc.participantId,
+      questionSeed: newDoc.questionSeed,
+      condition,
       message: 'New participant created',
       isExisting: false
     })
@@ -225,6 +290,9 @@ router.post('/api/v1/register-prolific', async (req, res) => {
         console.log(`[Backend] Found existing participant from race condition: ${raceConditionParticipant.participantId}`)
         return res.status(200).json({ 
           participantId: raceConditionParticipant.participantId,
+          questionSeed: raceConditionParticipant.questionSeed,
+          // The winning request may not have assigned its condition yet
+          condition: await assignCondition(raceConditionParticipant.participantId),
           message: 'Returning existing participant (race condition handled)',
           isExisting: true
         })
@@ -237,15 +305,39 @@ router.post('/api/v1/register-prolific', async (req, res) => {
   }
 })
 
+/**
+ * Store a participant's routing decision unless one is stored already, so the
+ * first decision served is the one every later test and export sees
+ */
+const storeRoutingOnce = (participantId: string, routing: RoutingDecision) =>
+  prisma.participant.updateMany({
+    where: { participantId, routing: { equals: Prisma.AnyNull } },
+    data: { routing: routing as any }
+  })
+
+// Answer a retried submission the way its first attempt was answered
+function sendDuplicate(res: express.Response, duplicate: { revision: number; accepted: boolean; rejected: boolean; errors: any; phase: string }) {
+  if (duplicate.rejected) {
+    return res.status(400).json({ error: `Invalid ${duplicate.phase} data`, details: duplicate.errors, revision: duplicate.revision, rejected: true })
+  }
+  return res.status(200).json({ success: true, duplicate: true, revision: duplicate.revision, accepted: duplicate.accepted })
+}
+
 // INGEST phase data (practice, skill, etc)
+// Payloads are validated per phase (see phaseSchemas.ts). Every attempt is recorded as a
+// PhaseSubmission revision; the first complete submission is kept on the participant and
+// later ones are stored alongside it instead of overwriting it. Invalid payloads are still
+// answered with 400, but kept as revisions flagged `rejected`.
 router.post('/api/v1/ingest-phase', async (req, res) => {
-  const { participantId, phase, data } = req.body
-
-  if (!participantId || !phase || !data) {
-    console.error('[INGEST ERROR] Missing required fields', { participantId, phase, hasData: !!data })
-    return res.status(400).json({ error: 'Missing required fields' })
+  const request = IngestRequest.safeParse(req.body)
+  if (!request.success) {
+    const details = describeIssues(request.error)
+    console.error('[INGEST ERROR] Invalid request', details)
+    return res.status(400).json({ error: 'Invalid request', details })
   }
 
+  const { participantId, phase, idempotencyKey } = request.data
+
   try {
     // First verify participant exists
     const participant = await prisma.participant.findFirst({ 
@@ -256,56 +348,159 @@ router.post('/api/v1/ingest-phase', async (req, res) => {
       return res.status(404).json({ error: "Participant not found" })
     }
 
-    console.log(`[INGEST] Storing data for participant ${participantId}, phase: ${phase}`)
-
-    // Map phase to the correct field
-    const phaseFieldMap: { [key: string]: string } = {
-      practice: 'testPractice',
-      skill: 'testSkill',
-      benchmark: 'testBenchmark',
-      strategy: 'testStrategy',
-      final: 'testFinal'
+    // Retried submissions from the client outbox reuse their idempotency key
+    if (idempotencyKey) {
+      const duplicate = await prisma.phaseSubmission.findUnique({ where: { idempotencyKey } })
+      if (duplicate) {
+        console.log(`[INGEST] Duplicate submission ignored for participant ${participantId}, phase: ${phase}`)
+        return sendDuplicate(res, duplicate)
+      }
     }
 
-    const fieldName = phaseFieldMap[phase]
-    if (!fieldName) {
-      return res.status(400).json({ error: 'Invalid phase name' })
+    // Time limits and scoring weights come from the participant's study
+    const config = await loadStudyConfig(participant.studyId)
+    const parsed = parsePhaseData(phase, request.data.data, config.timeLimits)
+    if (!parsed.success) {
+      console.error(`[INGEST ERROR] Invalid ${phase} data for participant ${participantId}`, parsed.errors)
+      // Kept as a flagged revision so nothing the participant submitted is lost
+      const revision = (await prisma.phaseSubmission.count({ where: { participantId, phase } })) + 1
+      await prisma.phaseSubmission.create({
+        data: {
+          participantId,
+          phase,
+          revision,
+          idempotencyKey,
+          accepted: false,
+          rejected: true,
+          errors: parsed.errors,
+          bankVersion: request.data.bankVersion ?? participant.bankVersion,
+          payload: (request.data.data ?? {}) as any
+        }
+      })
+      return res.status(400).json({ error: `Invalid ${phase} data`, details: parsed.errors, revision, rejected: true })
     }
 
-    const updateData: any = {}
-    updateData[fieldName] = {
-      completed: data.completed,
-      correctAnswers: data.correctAnswers,
-      totalQuestions: data.totalQuestions,
-      accuracy: data.accuracy,
-      answers: data.answers,
-      timeUsed: data.timeUsed,
-      questionTimes: data.questionTimes || [],
-      totalPoints: data.totalPoints,
-      maxPoints: data.maxPoints,
-      incorrectAnswers: data.incorrectAnswers,
-      unansweredQuestions: data.unansweredQuestions
+    // Timed phases are checked against the deadline issued at phase start
+    let submitted = parsed.data
+    if (isTimedPhase(phase)) {
+      const timer = await prisma.phaseTimer.findUnique({
+        where: { participantId_phase: { participantId, phase } }
+      })
+      const perQuestionSeconds = phase === 'skill' ? config.timeLimits.skillPerQuestion : null
+      const checked = enforceDeadline(timer, parsed.data.startToken, parsed.data, new Date(), perQuestionSeconds)
+      submitted = { ...checked.data, timing: checked.timing }
+      if (checked.timing.lateSubmission || checked.timing.lateQuestionIds?.length || checked.timing.overtimeQuestionIds.length || checked.timing.tokenValid === false) {
+        console.warn(`[INGEST] Timing flags for participant ${participantId}, phase ${phase}: ${JSON.stringify(checked.timing)}`)
+      }
     }
 
-    const updated = await prisma.participant.update({
-      where: { participantId },
-      data: updateData
+    // Clients that could not reach the backend bank report the bundled one
+    const bankVersion = request.data.bankVersion ?? participant.bankVersion
+
+    // Correctness and points are re-derived on the server from the pinned bank; client figures are kept for comparison
+    const scored = await applyServerScoring(participantId, phase, submitted, config.scoring, request.data.bankVersion)
+    const data = { ...scored, bankVersion }
+
+    const fieldName = PHASE_FIELDS[phase]
+    const existing: any = participant[fieldName]
+    const accepted = !existing?.completed
+    const revision = (await prisma.phaseSubmission.count({ where: { participantId, phase } })) + 1
+
+    console.log(`[INGEST] Storing ${phase} revision ${revision} for participant ${participantId} (${accepted ? 'accepted' : 'kept as revision'})`)
+
+    const submission = prisma.phaseSubmission.create({
+      data: { participantId, phase, revision, idempotencyKey, accepted, bankVersion, payload: data }
     })
-    
-    if (!updated) {
-      console.error(`[INGEST ERROR] Failed to update participant: ${participantId}`)
-      return res.status(404).json({ error: "Participant not found" })
+
+    if (!accepted) {
+      // A complete submission is already stored - keep it and only record this attempt
+      await submission
+      return res.status(200).json({ success: true, revision, accepted: false })
     }
+
+    // Test 1 drives the question mix for the Benchmark and Final tests, unless
+    // GET /routing already served a decision before this submission arrived
+    const routing = phase === 'skill' ? [storeRoutingOnce(participantId, decideRouting(config, data))] : []
+
+    const [, ...stored] = await prisma.$transaction([
+      submission,
+      ...routing,
+      prisma.participant.update({
+        where: { participantId },
+        data: { [fieldName]: data }
+      })
+    ])
+    const updated = stored[stored.length - 1]
     
     console.log(`[INGEST SUCCESS] Data stored for participant ${participantId}, phase: ${phase}`)
-    return res.status(200).json({ success: true, updated })
-    
-  } catch (err) {
+    return res.status(200).json({ success: true, revision, accepted: true, updated })
+    
+  } catch (err: any) {
+    if (err.code === 'P2002') { // Prisma unique constraint violation
+      // Either the same key raced in on a parallel retry, or another submission took this revision number
+      const duplicate = idempotencyKey
+        ? await prisma.phaseSubmission.findUnique({ where: { idempotencyKey } })
+        : null
+      if (duplicate) return sendDuplicate(res, duplicate)
+      return res.status(503).json({ error: 'Concurrent submission for this phase, please retry' })
+    }
     console.error('[INGEST ERROR]', err)
     return res.status(500).json({ error: 'Failed to ingest phase data' })
   }
 })
 
+// ASSIGN a counterbalanced ordering condition (idempotent - returns the existing one)
+router.post('/api/v1/assign-condition', async (req, res) => {
+  const { participantId } = req.body
+
+  if (!participantId) {
+    return res.status(400).json({ error: 'Missing required field: participantId' })
+  }
+
+  try {
+    const condition = await assignCondition(participantId)
+
+    if (!condition) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    return res.status(200).json({ participantId, condition })
+
+  } catch (err) {
+    console.error('[ASSIGN CONDITION ERROR]', err)
+    return res.status(500).json({ error: 'Failed to assign condition' })
+  }
+})
+
+// GET the adaptive routing decision (question mixes) for the Benchmark and Final tests
+router.get('/api/v1/routing/:participantId', async (req, res) => {
+  const { participantId } = req.params
+
+  try {
+    const participant = await prisma.participant.findFirst({
+      where: { participantId },
+      select: { studyId: true, testSkill: true, routing: true }
+    })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    // Decided at skill ingest; otherwise decided now and kept, so the questions
+    // shown and the stored decision agree even if Test 1 arrives later
+    if (participant.routing) return res.status(200).json(participant.routing)
+
+    const decision = decideRouting(await loadStudyConfig(participant.studyId), participant.testSkill)
+    await storeRoutingOnce(participantId, decision)
+    const stored = await prisma.participant.findFirst({ where: { participantId }, select: { routing: true } })
+    return res.status(200).json(stored?.routing ?? decision)
+
+  } catch (err) {
+    console.error('[ROUTING ERROR]', err)
+    return res.status(500).json({ error: 'Failed to get routing' })
+  }
+})
+
 // EXPORT Prolific data for researchers
 router.get('/api/v1/export-prolific-data', async (req, res) => {
   try {
@@ -314,23 +509,65 @@ router.get('/api/v1/export-prolific-data', async (req, res) => {
         prolificPid: { not: null } 
       } 
     })
+
+    // Question sets shown to each participant, joined to the items of their pinned bank
+    const assignments = await prisma.questionAssignment.findMany({
+      where: { participantId: { in: participants.map((p: Participant) => p.participantId) } },
+      orderBy: [{ phase: 'asc' }, { position: 'asc' }]
+    })
+    const bankVersions = Array.from(new Set(participants.map((p: Participant) => p.bankVersion).filter((v): v is string => !!v)))
+    const bankItems = await prisma.question.findMany({
+      where: { bankVersion: { in: bankVersions }, questionId: { in: Array.from(new Set(assignments.map(a => a.questionId))) } }
+    })
+    const itemsByKey = new Map(bankItems.map(q => [`${q.bankVersion}:${q.questionId}`, q]))
     
-    const exportData = participants.map((p: Participant) => ({
-      participantId: p.participantId,
-      prolificPid: p.prolificPid,
-      studyId: p.studyId,
-      sessionId: p.sessionId,
-      registeredAt: p.registeredAt,
-      completedAt: p.completedAt,
-      createdAt: p.createdAt,
-      tests: {
+    const exportData = participants.map((p: Participant) => {
+      // Scored phases carry server-derived figures (null when unscored); client-reported ones sit under clientReported
+      const tests = {
         practice: p.testPractice,
         skill: p.testSkill,
         benchmark: p.testBenchmark,
         strategy: p.testStrategy,
+        meta: p.testMeta,
         final: p.testFinal
       }
-    }))
+      return {
+        participantId: p.participantId,
+        prolificPid: p.prolificPid,
+        studyId: p.studyId,
+        sessionId: p.sessionId,
+        questionSeed: p.questionSeed,
+        bankVersion: p.bankVersion,
+        condition: p.condition,
+        routing: p.routing,
+        clockSkewMs: p.clockSkewMs,
+        droppedEvents: p.droppedEvents,
+        registeredAt: p.registeredAt,
+        completedAt: p.completedAt,
+        finalStatus: p.finalStatus,
+        finalStatusReason: p.finalStatusReason,
+        createdAt: p.createdAt,
+        tests,
+        scoringDiscrepancies: phasesWithDiscrepancies(tests),
+        unscoredPhases: unscoredPhases(tests),
+        questionAssignments: assignments
+          .filter(a => a.participantId === p.participantId)
+          .map(a => {
+            const item = itemsByKey.get(`${p.bankVersion}:${a.questionId}`)
+            return {
+              phase: a.phase,
+              position: a.position,
+              questionId: a.questionId,
+              difficulty: item?.difficulty ?? null,
+              type: item?.type ?? null,
+              capacity: item?.capacity ?? null,
+              volumeCapacity: item?.volumeCapacity ?? null,
+              balls: item?.balls ?? null,
+              solution: item?.solution ?? null
+            }
+          })
+      }
+    })
     
     res.setHeader('Content-Type', 'application/json')
     res.setHeader('Content-Disposition', 'attachment; filename=prolific-study-data.json')
@@ -342,9 +579,9 @@ router.get('/api/v1/export-prolific-data', async (req, res) => {
   }
 })
 
-// LOG time tracking data
+// LOG time tracking data (legacy endpoint - prefer POST /api/v1/events)
 router.post('/api/v1/log-time', async (req, res) => {
-  const { participantId, sectionName, questionId, timeData, interactionType } = req.body
+  const { participantId, timeData } = req.body
   
   if (!participantId || !timeData) {
     return res.status(400).json({ error: 'Missing required fields: participantId, timeData' })
@@ -359,92 +596,14 @@ router.post('/api/v1/log-time', async (req, res) => {
       return res.status(404).json({ error: 'Participant not found' })
     }
 
-    // Get existing time tracking or initialize
-    let timeTracking: any = participant.timeTracking || {
-      totalStudyTime: 0,
-      sections: [],
-      sessionStart: new Date().toISOString(),
-      sessionEnd: null
-    }
-
-    // Handle different types of time logging
-    if (sectionName && !questionId) {
-      // Section-level time tracking
-      const existingSection = timeTracking.sections.find((s: any) => s.sectionName === sectionName)
-      
-      if (existingSection) {
-        if (timeData.endTime) {
-          existingSection.endTime = timeData.endTime
-          existingSection.timeSpent = new Date(timeData.endTime).getTime() - new Date(existingSection.startTime).getTime()
-        }
-      } else {
-        timeTracking.sections.push({
-          sectionName,
-          startTime: timeData.startTime,
-          endTime: timeData.endTime || null,
-          timeSpent: timeData.timeSpent || 0,
-          questionTimes: []
-        })
-      }
-    } else if (sectionName && questionId) {
-      // Question-level time tracking
-      let section = timeTracking.sections.find((s: any) => s.sectionName === sectionName)
-      
-      if (!section) {
-        const newSection = {
-          sectionName,
-          startTime: new Date().toISOString(),
-          endTime: null,
-          timeSpent: 0,
-          questionTimes: []
-        }
-        timeTracking.sections.push(newSection)
-        section = timeTracking.sections[timeTracking.sections.length - 1]
-      }
-
-      const existingQuestion = section.questionTimes.find((q: any) => q.questionId === questionId)
-      
-      if (existingQuestion) {
-        if (timeData.endTime) {
-          existingQuestion.endTime = timeData.endTime
-          existingQuestion.timeSpent = new Date(timeData.endTime).getTime() - new Date(existingQuestion.startTime).getTime()
-        }
-        
-        // Add interaction if provided
-        if (interactionType) {
-          if (!existingQuestion.interactions) {
-            existingQuestion.interactions = []
-          }
-          existingQuestion.interactions.push({
-            type: interactionType,
-            timestamp: new Date().toISOString(),
-            data: timeData.interactionData || {}
-          })
-        }
-      } else {
-        section.questionTimes.push({
-          questionId,
-          startTime: timeData.startTime,
-          endTime: timeData.endTime || null,
-          timeSpent: timeData.timeSpent || 0,
-          interactions: interactionType ? [{
-            type: interactionType,
-            timestamp: new Date().toISOString(),
-            data: timeData.interactionData || {}
-          }] : []
-        })
-      }
-    }
-
-    // Update total study time
-    if (timeData.totalStudyTime) {
-      timeTracking.totalStudyTime = timeData.totalStudyTime
+    // Appended to the event log instead of rewriting the timeTracking blob
+    const events = legacyLogToEvents(req.body)
+    if (events.length > 0) {
+      const serverTimestamp = new Date()
+      await prisma.interactionEvent.createMany({
+        data: events.map(event => toEventRow(participantId, event, serverTimestamp))
+      })
     }
-
-    await prisma.participant.update({
-      where: { participantId },
-      data: { timeTracking }
-    })
     
     return res.status(200).json({ 
       success: true, 
@@ -470,7 +629,7 @@ router.get('/api/v1/participant-analytics/:participantId', async (req, res) => {
       return res.status(404).json({ error: 'Participant not found' })
     }
 
-    const timeTracking: any = participant.timeTracking || {}
+    const timeTracking: any = (await loadTimeTracking([participant])).get(participantId)
 
     // Calculate analytics
     const analytics = {
@@ -499,6 +658,7 @@ router.get('/api/v1/participant-analytics/:participantId', async (req, res) => {
         skill: participant.testSkill,
         benchmark: participant.testBenchmark,
         strategy: participant.testStrategy,
+        meta: participant.testMeta,
         final: participant.testFinal
       }
     }
@@ -535,17 +695,19 @@ router.get('/api/v1/study-stats', async (req, res) => {
         testSkill: true,
         testBenchmark: true,
         testStrategy: true,
+        testMeta: true,
         testFinal: true
       }
     })
 
-    let practiceCount = 0, skillCount = 0, benchmarkCount = 0, strategyCount = 0, finalCount = 0
+    let practiceCount = 0, skillCount = 0, benchmarkCount = 0, strategyCount = 0, metaCount = 0, finalCount = 0
 
     participants.forEach((p: any) => {
       if ((p.testPractice as any)?.completed) practiceCount++
       if ((p.testSkill as any)?.completed) skillCount++
       if ((p.testBenchmark as any)?.completed) benchmarkCount++
       if ((p.testStrategy as any)?.completed) strategyCount++
+      if ((p.testMeta as any)?.completed) metaCount++
       if ((p.testFinal as any)?.completed) finalCount++
     })
     
@@ -557,6 +719,7 @@ router.get('/api/v1/study-stats', async (req, res) => {
         skill: skillCount,
         benchmark: benchmarkCount,
         strategy: strategyCount,
+        meta: metaCount,
         final: finalCount
       },
       completionRate: totalParticipants > 0 ? (completedParticipants / totalParticipants * 100).toFixed(1) : 0
@@ -568,21 +731,6 @@ router.get('/api/v1/study-stats', async (req, res) => {
   }
 })
 
-// ADMIN AUTHENTICATION MIDDLEWARE
-const adminAuth = (req: any, res: any, next: any) => {
-  const adminKey = req.headers['x-admin-key'] || req.query.adminKey
-  const validAdminKey = process.env.ADMIN_KEY || 'knapsack-admin-2024-secure'
-  
-  if (!adminKey || adminKey !== validAdminKey) {
-    return res.status(401).json({ 
-      error: 'Unauthorized. Admin access required.',
-      hint: 'Provide valid admin key in x-admin-key header or adminKey query parameter'
-    })
-  }
-  
-  next()
-}
-
 // ADMIN ANALYTICS DASHBOARD - Protected Route
 router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
   try {
@@ -592,6 +740,8 @@ router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
       } 
     })
     
+    const timeTrackingById = await loadTimeTracking(participants)
+
     // Calculate comprehensive analytics
     const requiredPhases = ['practice', 'skill', 'benchmark', 'strategy', 'final']
     
@@ -623,7 +773,7 @@ router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
         sectionCompletionRates: {}
       },
       participantDetails: participants.map((p: Participant) => {
-        const timeTracking: any = p.timeTracking || {}
+        const timeTracking: any = timeTrackingById.get(p.participantId) || {}
         return {
           participantId: p.participantId,
           prolificPid: p.prolificPid,
@@ -640,12 +790,14 @@ router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
             } : null,
             skill: p.testSkill ? {
               completed: (p.testSkill as any).completed,
+              scored: (p.testSkill as any).serverScoring?.scored === true,
               accuracy: (p.testSkill as any).accuracy,
               correctAnswers: (p.testSkill as any).correctAnswers,
               totalQuestions: (p.testSkill as any).totalQuestions
             } : null,
             benchmark: p.testBenchmark ? {
               completed: (p.testBenchmark as any).completed,
+              scored: (p.testBenchmark as any).serverScoring?.scored === true,
               accuracy: (p.testBenchmark as any).accuracy,
               correctAnswers: (p.testBenchmark as any).correctAnswers,
               totalQuestions: (p.testBenchmark as any).totalQuestions
@@ -658,8 +810,17 @@ router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
               timeUsed: (p.testStrategy as any).timeUsed,
               questionTimes: (p.testStrategy as any).questionTimes
             } : null,
+            meta: p.testMeta ? {
+              completed: (p.testMeta as any).completed,
+              scored: (p.testMeta as any).serverScoring?.scored === true,
+              accuracy: (p.testMeta as any).accuracy,
+              correctClassifications: (p.testMeta as any).correctClassifications,
+              totalQuestions: (p.testMeta as any).totalQuestions,
+              meanConfidence: meanConfidence((p.testMeta as any).classifications)
+            } : null,
             final: p.testFinal ? {
               completed: (p.testFinal as any).completed,
+              scored: (p.testFinal as any).serverScoring?.scored === true,
               accuracy: (p.testFinal as any).accuracy,
               correctAnswers: (p.testFinal as any).correctAnswers,
               totalQuestions: (p.testFinal as any).totalQuestions
@@ -680,16 +841,16 @@ router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
     }
     
     // Calculate aggregate time analytics
-    const validTimeData = participants.filter((p: Participant) => (p.timeTracking as any)?.totalStudyTime)
+    const validTimeData = participants.filter((p: Participant) => timeTrackingById.get(p.participantId)?.totalStudyTime)
     if (validTimeData.length > 0) {
-      analytics.overview.totalStudyTime = validTimeData.reduce((sum: number, p: Participant) => sum + ((p.timeTracking as any)?.totalStudyTime || 0), 0)
+      analytics.overview.totalStudyTime = validTimeData.reduce((sum: number, p: Participant) => sum + (timeTrackingById.get(p.participantId)?.totalStudyTime || 0), 0)
       analytics.overview.avgStudyTime = analytics.overview.totalStudyTime / validTimeData.length
     }
     
     // Section time analytics
     const sectionTimes: { [key: string]: number[] } = {}
     participants.forEach((p: any) => {
-      const timeTracking: any = p.timeTracking || {}
+      const timeTracking: any = timeTrackingById.get(p.participantId) || {}
       ;(timeTracking.sections || []).forEach((section: any) => {
         if (!sectionTimes[section.sectionName]) {
           sectionTimes[section.sectionName] = []
@@ -707,7 +868,7 @@ router.get('/api/v1/admin/analytics', adminAuth, async (req, res) => {
         : 0
     })
     
-    return res.status(200).json(analytics)
+    return res.status(200).json({ ...analytics, metaAnalysis: summarizeMetaAnalysis(participants) })
     
   } catch (err) {
     console.error('[ADMIN ANALYTICS ERROR]', err)
@@ -728,7 +889,24 @@ router.get('/api/v1/admin/participant/:participantId', adminAuth, async (req, re
       return res.status(404).json({ error: 'Participant not found' })
     }
 
-    const timeTracking: any = participant.timeTracking || {}
+    const timeTracking: any = (await loadTimeTracking([participant])).get(participantId)
+    const assignments = await prisma.questionAssignment.findMany({
+      where: { participantId },
+      orderBy: [{ phase: 'asc' }, { position: 'asc' }]
+    })
+    // Items come from the participant's pinned bank version
+    const bankItems = participant.bankVersion
+      ? await prisma.question.findMany({
+          where: { bankVersion: participant.bankVersion, questionId: { in: assignments.map(a => a.questionId) } }
+        })
+      : []
+    const itemsById = new Map(bankItems.map(q => [q.questionId, toBankQuestion(q)]))
+    const questionAssignments = assignments.map(a => ({ ...a, question: itemsById.get(a.questionId) ?? null }))
+    // Every ingest attempt, including revisions that did not replace the accepted submission
+    const phaseSubmissions = await prisma.phaseSubmission.findMany({
+      where: { participantId },
+      orderBy: [{ phase: 'asc' }, { revision: 'asc' }]
+    })
 
     const detailedAnalytics = {
       participantInfo: {
@@ -736,18 +914,28 @@ router.get('/api/v1/admin/participant/:participantId', adminAuth, async (req, re
         prolificPid: participant.prolificPid,
         studyId: participant.studyId,
         sessionId: participant.sessionId,
+        questionSeed: participant.questionSeed,
+        bankVersion: participant.bankVersion,
+        condition: participant.condition,
+        routing: participant.routing,
+        clockSkewMs: participant.clockSkewMs,
         registeredAt: participant.registeredAt,
         completedAt: participant.completedAt,
+        finalStatus: participant.finalStatus,
+        finalStatusReason: participant.finalStatusReason,
         createdAt: participant.createdAt
       },
-      timeTracking: participant.timeTracking,
+      timeTracking,
       testResults: {
         practice: participant.testPractice,
         skill: participant.testSkill,
         benchmark: participant.testBenchmark,
         strategy: participant.testStrategy,
+        meta: participant.testMeta,
         final: participant.testFinal
       },
+      questionAssignments,
+      phaseSubmissions,
       detailedTimeAnalysis: {
         totalTimeSpent: timeTracking.totalStudyTime || 0,
         sessionDuration: timeTracking.sessionStart && timeTracking.sessionEnd 
@@ -0,0 +1,150 @@
+import express from 'express'
+import { prisma } from '../db'
+import { adminAuth } from '../adminAuth'
+import { describeIssues } from '../phaseSchemas'
+import { BankFile, activateBank, getActiveBank, importQuestionBank, loadBankQuestions } from '../questionBank'
+
+export const router = express.Router()
+
+// GET the question bank a participant is pinned to, with the questions they were assigned so far
+// Participants registered before any bank was imported are pinned to the active one on first request
+router.get('/api/v1/participant-questions/:participantId', async (req, res) => {
+  const { participantId } = req.params
+
+  try {
+    const participant = await prisma.participant.findFirst({
+      where: { participantId },
+      select: { participantId: true, bankVersion: true }
+    })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    let bankVersion = participant.bankVersion
+    if (!bankVersion) {
+      const active = await getActiveBank()
+      if (!active) {
+        return res.status(404).json({ error: 'No question bank available' })
+      }
+      bankVersion = active.version
+      await prisma.participant.update({ where: { participantId }, data: { bankVersion } })
+      console.log(`[QUESTION BANK] Pinned participant ${participantId} to bank ${bankVersion}`)
+    }
+
+    const [questions, assignments] = await Promise.all([
+      loadBankQuestions(bankVersion),
+      prisma.questionAssignment.findMany({
+        where: { participantId },
+        orderBy: [{ phase: 'asc' }, { position: 'asc' }],
+        select: { phase: true, position: true, questionId: true }
+      })
+    ])
+
+    const assigned: Record<string, number[]> = {}
+    for (const assignment of assignments) {
+      if (!assigned[assignment.phase]) assigned[assignment.phase] = []
+      assigned[assignment.phase].push(assignment.questionId)
+    }
+
+    return res.status(200).json({ participantId, bankVersion, questions, assigned })
+
+  } catch (err) {
+    console.error('[PARTICIPANT QUESTIONS ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load participant questions' })
+  }
+})
+
+// LIST question banks (admin), newest first, with how many participants each one served
+router.get('/api/v1/admin/question-banks', adminAuth, async (req, res) => {
+  try {
+    const banks = await prisma.questionBank.findMany({ orderBy: { createdAt: 'desc' } })
+    const counts = await prisma.participant.groupBy({ by: ['bankVersion'], _count: { _all: true } })
+    const participants = new Map(counts.map(c => [c.bankVersion, c._count._all]))
+
+    return res.status(200).json({
+      banks: banks.map(bank => ({ ...bank, participants: participants.get(bank.version) || 0 }))
+    })
+
+  } catch (err) {
+    console.error('[QUESTION BANK LIST ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load question banks' })
+  }
+})
+
+// GET one question bank with its questions (admin)
+router.get('/api/v1/admin/question-banks/:version', adminAuth, async (req, res) => {
+  try {
+    const bank = await prisma.questionBank.findUnique({ where: { version: req.params.version } })
+
+    if (!bank) {
+      return res.status(404).json({ error: 'Question bank not found' })
+    }
+
+    return res.status(200).json({ bank, questions: await loadBankQuestions(bank.version) })
+
+  } catch (err) {
+    console.error('[QUESTION BANK GET ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load question bank' })
+  }
+})
+
+// IMPORT a generator output as a bank version (admin, see scripts/import-question-bank.ts)
+// Body: { bank: contents of static-questions.json, version?, source?, activate?: boolean }
+router.post('/api/v1/admin/question-banks', adminAuth, async (req, res) => {
+  const { bank, version, source, activate } = req.body || {}
+
+  if (version !== undefined && (typeof version !== 'string' || !version || version.length > 100)) {
+    return res.status(400).json({ error: 'version must be a non-empty string of at most 100 characters' })
+  }
+  if (source !== undefined && typeof source !== 'string') {
+    return res.status(400).json({ error: 'source must be a string' })
+  }
+
+  const parsed = BankFile.safeParse(bank)
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid question bank', details: describeIssues(parsed.error, 'bank') })
+  }
+  if (!version && !parsed.data.metadata.bankVersion && !parsed.data.metadata.generatedAt) {
+    return res.status(400).json({ error: 'Question bank has no version: pass version or set metadata.bankVersion' })
+  }
+
+  try {
+    const result = await importQuestionBank(parsed.data, { version, source, activate: activate === true })
+
+    if (result.status === 'conflict') {
+      return res.status(409).json({
+        error: `Bank version ${result.bank.version} already exists with different questions`,
+        bank: result.bank
+      })
+    }
+
+    console.log(`[QUESTION BANK] ${result.status === 'created' ? 'Imported' : 'Re-imported'} bank ${result.bank.version} (${result.bank.questionCount} questions)${result.bank.active ? ', active' : ''}`)
+    return res.status(result.status === 'created' ? 201 : 200).json({ bank: result.bank, created: result.status === 'created' })
+
+  } catch (err: any) {
+    if (err.code === 'P2002') { // Prisma unique constraint violation
+      return res.status(409).json({ error: 'Bank version is being imported concurrently' })
+    }
+    console.error('[QUESTION BANK IMPORT ERROR]', err)
+    return res.status(500).json({ error: 'Failed to import question bank' })
+  }
+})
+
+// ACTIVATE a bank version (admin) - new participants are pinned to it, existing ones keep theirs
+router.post('/api/v1/admin/question-banks/:version/activate', adminAuth, async (req, res) => {
+  try {
+    const bank = await activateBank(req.params.version)
+
+    if (!bank) {
+      return res.status(404).json({ error: 'Question bank not found' })
+    }
+
+    console.log(`[QUESTION BANK] Activated bank ${bank.version}`)
+    return res.status(200).json({ bank })
+
+  } catch (err) {
+    console.error('[QUESTION BANK ACTIVATE ERROR]', err)
+    return res.status(500).json({ error: 'Failed to activate question bank' })
+  }
+})
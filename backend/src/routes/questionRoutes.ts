@@ -0,0 +1,80 @@
+import express from 'express'
+import { prisma } from '../db'
+
+export const router = express.Router()
+
+const ASSIGNMENT_PHASES = ['skill', 'benchmark', 'meta', 'final']
+
+// RECORD the exact question set (and order) a participant was shown at phase start
+// Accepts question IDs (or questions with an `id`) from the participant's bank
+router.post('/api/v1/question-assignments', async (req, res) => {
+  const { participantId, phase, questions } = req.body
+
+  if (!participantId || !phase || !Array.isArray(questions)) {
+    return res.status(400).json({ error: 'Missing required fields: participantId, phase, questions' })
+  }
+
+  if (!ASSIGNMENT_PHASES.includes(phase)) {
+    return res.status(400).json({ error: `Invalid phase. Must be one of: ${ASSIGNMENT_PHASES.join(', ')}` })
+  }
+
+  try {
+    const participant = await prisma.participant.findFirst({
+      where: { participantId },
+      select: { participantId: true }
+    })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    // Only the question IDs are kept: scoring reads the items from the participant's
+    // pinned bank version, so nothing the client sends about an item is trusted
+    const questionIds = questions.map((q: any) => typeof q === 'number' ? q : q?.id)
+    if (!questionIds.every((id: any) => Number.isInteger(id))) {
+      return res.status(400).json({ error: 'questions must be question IDs' })
+    }
+
+    // Positions are unique per participant/phase, so a resumed phase re-posting
+    // the same set is a no-op instead of a duplicate
+    const created = await prisma.questionAssignment.createMany({
+      data: questionIds.map((questionId: number, index: number) => ({
+        participantId,
+        phase,
+        position: index,
+        questionId
+      })),
+      skipDuplicates: true
+    })
+
+    return res.status(201).json({ success: true, recorded: created.count })
+
+  } catch (err) {
+    console.error('[QUESTION ASSIGNMENT ERROR]', err)
+    return res.status(500).json({ error: 'Failed to record question assignments' })
+  }
+})
+
+// GET question assignments for a participant, grouped by phase in presentation order
+router.get('/api/v1/question-assignments/:participantId', async (req, res) => {
+  const { participantId } = req.params
+
+  try {
+    const assignments = await prisma.questionAssignment.findMany({
+      where: { participantId },
+      orderBy: [{ phase: 'asc' }, { position: 'asc' }]
+    })
+
+    const byPhase: Record<string, typeof assignments> = {}
+    for (const assignment of assignments) {
+      if (!byPhase[assignment.phase]) byPhase[assignment.phase] = []
+      byPhase[assignment.phase].push(assignment)
+    }
+
+    return res.status(200).json({ participantId, assignments: byPhase })
+
+  } catch (err) {
+    console.error('[GET QUESTION ASSIGNMENTS ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load question assignments' })
+  }
+})
@@ -0,0 +1,75 @@
+import express from 'express'
+import { prisma } from '../db'
+
+export const router = express.Router()
+
+// GET saved session so an interrupted participant can resume where they left off
+router.get('/api/v1/session/:participantId', async (req, res) => {
+  const { participantId } = req.params
+
+  try {
+    const participant = await prisma.participant.findFirst({
+      where: { participantId },
+      select: {
+        participantId: true,
+        completedAt: true,
+        currentPhase: true,
+        sessionState: true,
+        sessionUpdatedAt: true
+      }
+    })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    const sessionState: any = participant.sessionState || {}
+
+    return res.status(200).json({
+      participantId: participant.participantId,
+      hasSession: !!participant.currentPhase,
+      completed: !!participant.completedAt,
+      currentPhase: participant.currentPhase,
+      participantData: sessionState.participantData ?? null,
+      phaseState: sessionState.phaseState ?? null,
+      updatedAt: participant.sessionUpdatedAt
+    })
+
+  } catch (err) {
+    console.error('[GET SESSION ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load session' })
+  }
+})
+
+// SAVE current phase and in-progress state (answers, timer, question order)
+router.post('/api/v1/session', async (req, res) => {
+  const { participantId, currentPhase, participantData, phaseState } = req.body
+
+  if (!participantId || !currentPhase) {
+    return res.status(400).json({ error: 'Missing required fields: participantId, currentPhase' })
+  }
+
+  try {
+    const updated = await prisma.participant.updateMany({
+      where: { participantId },
+      data: {
+        currentPhase,
+        sessionState: {
+          participantData: participantData ?? null,
+          phaseState: phaseState ?? null
+        },
+        sessionUpdatedAt: new Date()
+      }
+    })
+
+    if (updated.count === 0) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    return res.status(200).json({ success: true })
+
+  } catch (err) {
+    console.error('[SAVE SESSION ERROR]', err)
+    return res.status(500).json({ error: 'Failed to save session' })
+  }
+})
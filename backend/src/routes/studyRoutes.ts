@@ -0,0 +1,166 @@
+import express from 'express'
+import { prisma } from '../db'
+import { adminAuth } from '../adminAuth'
+import { describeIssues } from '../phaseSchemas'
+import { DEFAULT_STUDY_CONFIG, StudyConfigSchema, checkBankCoverage, loadStudyConfig, publicStudyConfig } from '../studyConfig'
+
+export const router = express.Router()
+
+// GET a study's configuration for the frontend (unknown studies get the defaults)
+router.get('/api/v1/study-config/:studyId', async (req, res) => {
+  const { studyId } = req.params
+
+  try {
+    const study = await prisma.study.findUnique({ where: { studyId } })
+    const config = await loadStudyConfig(studyId)
+
+    return res.status(200).json({
+      studyId,
+      active: study ? study.active : true,
+      isDefault: !study,
+      config: publicStudyConfig(config)
+    })
+
+  } catch (err) {
+    console.error('[STUDY CONFIG ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load study configuration' })
+  }
+})
+
+// LIST studies (admin)
+router.get('/api/v1/admin/studies', adminAuth, async (req, res) => {
+  try {
+    const studies = await prisma.study.findMany({ orderBy: { createdAt: 'asc' } })
+    const counts = await prisma.participant.groupBy({ by: ['studyId'], _count: { _all: true } })
+    const participants = new Map(counts.map(c => [c.studyId, c._count._all]))
+
+    return res.status(200).json({
+      defaults: DEFAULT_STUDY_CONFIG,
+      studies: studies.map(study => ({ ...study, participants: participants.get(study.studyId) || 0 }))
+    })
+
+  } catch (err) {
+    console.error('[STUDY LIST ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load studies' })
+  }
+})
+
+// GET one study (admin)
+router.get('/api/v1/admin/studies/:studyId', adminAuth, async (req, res) => {
+  try {
+    const study = await prisma.study.findUnique({ where: { studyId: req.params.studyId } })
+
+    if (!study) {
+      return res.status(404).json({ error: 'Study not found' })
+    }
+
+    return res.status(200).json({ study, resolvedConfig: await loadStudyConfig(study.studyId) })
+
+  } catch (err) {
+    console.error('[STUDY GET ERROR]', err)
+    return res.status(500).json({ error: 'Failed to load study' })
+  }
+})
+
+// CREATE a study (admin)
+// Body: { studyId: Prolific STUDY_ID, name, config?: partial configuration, active?: boolean }
+router.post('/api/v1/admin/studies', adminAuth, async (req, res) => {
+  const { studyId, name, config, active } = req.body || {}
+
+  if (!studyId || typeof studyId !== 'string' || !name || typeof name !== 'string') {
+    return res.status(400).json({ error: 'Missing required fields: studyId, name' })
+  }
+
+  const parsed = StudyConfigSchema.safeParse(config ?? {})
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid study configuration', details: describeIssues(parsed.error, 'config') })
+  }
+
+  try {
+    const coverage = await checkBankCoverage(parsed.data)
+    if (coverage.length > 0) {
+      return res.status(400).json({ error: 'Active question bank cannot serve this configuration', details: coverage.map((issue) => `config.${issue}`) })
+    }
+
+    const study = await prisma.study.create({
+      data: { studyId, name, config: parsed.data as any, active: active !== false }
+    })
+
+    console.log(`[STUDY] Created study ${studyId} (${name})`)
+    return res.status(201).json({ study })
+
+  } catch (err: any) {
+    if (err.code === 'P2002') { // Prisma unique constraint violation
+      return res.status(409).json({ error: 'Study already exists' })
+    }
+    console.error('[STUDY CREATE ERROR]', err)
+    return res.status(500).json({ error: 'Failed to create study' })
+  }
+})
+
+// UPDATE a study (admin) - a given config replaces the stored one
+router.put('/api/v1/admin/studies/:studyId', adminAuth, async (req, res) => {
+  const { studyId } = req.params
+  const { name, config, active } = req.body || {}
+
+  if (name !== undefined && (typeof name !== 'string' || !name)) {
+    return res.status(400).json({ error: 'name must be a non-empty string' })
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    return res.status(400).json({ error: 'active must be a boolean' })
+  }
+
+  const parsed = config === undefined ? null : StudyConfigSchema.safeParse(config)
+  if (parsed && !parsed.success) {
+    return res.status(400).json({ error: 'Invalid study configuration', details: describeIssues(parsed.error, 'config') })
+  }
+
+  try {
+    const existing = await prisma.study.findUnique({ where: { studyId } })
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Study not found' })
+    }
+
+    const coverage = parsed ? await checkBankCoverage(parsed.data) : []
+    if (coverage.length > 0) {
+      return res.status(400).json({ error: 'Active question bank cannot serve this configuration', details: coverage.map((issue) => `config.${issue}`) })
+    }
+
+    const study = await prisma.study.update({
+      where: { studyId },
+      data: {
+        ...(name !== undefined ? { name } : {}),
+        ...(active !== undefined ? { active } : {}),
+        ...(parsed ? { config: parsed.data as any } : {})
+      }
+    })
+
+    console.log(`[STUDY] Updated study ${studyId}`)
+    return res.status(200).json({ study })
+
+  } catch (err) {
+    console.error('[STUDY UPDATE ERROR]', err)
+    return res.status(500).json({ error: 'Failed to update study' })
+  }
+})
+
+// DELETE a study (admin) - its participants fall back to the default configuration
+router.delete('/api/v1/admin/studies/:studyId', adminAuth, async (req, res) => {
+  const { studyId } = req.params
+
+  try {
+    const deleted = await prisma.study.deleteMany({ where: { studyId } })
+
+    if (deleted.count === 0) {
+      return res.status(404).json({ error: 'Study not found' })
+    }
+
+    console.log(`[STUDY] Deleted study ${studyId}`)
+    return res.status(200).json({ success: true })
+
+  } catch (err) {
+    console.error('[STUDY DELETE ERROR]', err)
+    return res.status(500).json({ error: 'Failed to delete study' })
+  }
+})
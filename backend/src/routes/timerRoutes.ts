@@ -0,0 +1,47 @@
+import express from 'express'
+import { prisma } from '../db'
+import { PHASE_TIME_LIMITS, isTimedPhase, startPhaseTimer } from '../timers'
+import { loadStudyConfig } from '../studyConfig'
+
+export const router = express.Router()
+
+// START a timed phase: returns a start token and the server-side deadline
+// (idempotent - a resumed phase gets its original token and deadline back)
+router.post('/api/v1/phase-start', async (req, res) => {
+  const { participantId, phase, clientTimestamp } = req.body
+
+  if (!participantId || !phase) {
+    return res.status(400).json({ error: 'Missing required fields: participantId, phase' })
+  }
+
+  if (!isTimedPhase(phase)) {
+    return res.status(400).json({ error: `Invalid phase. Must be one of: ${Object.keys(PHASE_TIME_LIMITS).join(', ')}` })
+  }
+
+  try {
+    const participant = await prisma.participant.findFirst({
+      where: { participantId },
+      select: { participantId: true, studyId: true }
+    })
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Participant not found' })
+    }
+
+    const config = await loadStudyConfig(participant.studyId)
+    const { timer, serverTime, clockSkewMs } = await startPhaseTimer(participantId, phase, clientTimestamp ?? null, config.timeLimits)
+
+    return res.status(200).json({
+      token: timer.token,
+      phase,
+      startedAt: timer.startedAt,
+      deadline: timer.deadline,
+      serverTime,
+      clockSkewMs
+    })
+
+  } catch (err) {
+    console.error('[PHASE START ERROR]', err)
+    return res.status(500).json({ error: 'Failed to start phase timer' })
+  }
+})
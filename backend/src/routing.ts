@@ -0,0 +1,110 @@
+/**
+ * Adaptive question routing
+ * Picks the Benchmark and Final test question mixes from the participant's
+ * Test 1 (skill) result. Enabled and tuned per study (`routing` in the study
+ * configuration, see studyConfig.ts); each tier shifts the study's own
+ * question counts towards easier or harder questions.
+ */
+
+export type SkillTier = 'low' | 'mid' | 'high'
+
+export interface QuestionMix {
+  easy: number
+  medium: number
+  hard: number
+  // Inclusive capacity bounds; null keeps the whole bank
+  capacityRange: { min: number; max: number } | null
+  // Items per question; null keeps the study's item counts
+  numItems: number | null
+}
+
+export interface RoutingDecision {
+  enabled: boolean
+  skillEstimate: number | null
+  tier: SkillTier | null
+  benchmark: QuestionMix
+  final: QuestionMix
+  decidedAt: string
+}
+
+export interface DifficultyCounts {
+  easy: number
+  medium: number
+  hard: number
+}
+
+// Study routing settings (`routing` in StudyConfigSchema)
+export interface RoutingConfig {
+  enabled: boolean
+  // Share of the hard (low tier) or easy (high tier) questions swapped for the other end
+  low: { shift: number; capacityRange: { min: number; max: number } | null }
+  high: { shift: number; capacityRange: { min: number; max: number } | null }
+}
+
+/**
+ * Benchmark or Final mix for a tier, from the test's question counts: the
+ * low tier trades hard questions for easy ones, the high tier the reverse and
+ * the mid tier keeps the counts (also used to reproduce a participant's
+ * questions offline, see scripts/generate-participant-questions.ts)
+ */
+export function mixForTier(tier: SkillTier, counts: DifficultyCounts, routing: RoutingConfig): QuestionMix {
+  if (tier === 'mid') return { ...counts, capacityRange: null, numItems: null }
+
+  const { shift, capacityRange } = routing[tier]
+  const from = tier === 'low' ? 'hard' : 'easy'
+  const to = tier === 'low' ? 'easy' : 'hard'
+  const moved = Math.round(counts[from] * shift)
+  return { ...counts, [from]: counts[from] - moved, [to]: counts[to] + moved, capacityRange, numItems: null }
+}
+
+// Test 1 allows 15 minutes for 10 questions
+const SECONDS_PER_QUESTION_BUDGET = 90
+
+/**
+ * Skill estimate in [0, 1]: mostly Test 1 accuracy, with a small bonus for
+ * finishing quickly (so equal accuracy at half the time ranks higher)
+ */
+export function estimateSkill(skillData: any): number | null {
+  if (!skillData || !skillData.totalQuestions) return null
+
+  const accuracy = (skillData.correctAnswers || 0) / skillData.totalQuestions
+  const secondsPerQuestion = (skillData.timeUsed || 0) / skillData.totalQuestions
+  const speed = 1 - Math.min(1, secondsPerQuestion / SECONDS_PER_QUESTION_BUDGET)
+
+  return Math.round((accuracy * 0.9 + speed * 0.1) * 1000) / 1000
+}
+
+export function tierForSkill(skillEstimate: number): SkillTier {
+  if (skillEstimate < 0.4) return 'low'
+  if (skillEstimate < 0.75) return 'mid'
+  return 'high'
+}
+
+export function decideRouting(
+  config: { routing: RoutingConfig; questionCounts: { benchmark: DifficultyCounts; final: DifficultyCounts } },
+  skillData: any
+): RoutingDecision {
+  const decidedAt = new Date().toISOString()
+  const skillEstimate = estimateSkill(skillData)
+
+  if (!config.routing.enabled || skillEstimate === null) {
+    return {
+      enabled: false,
+      skillEstimate,
+      tier: null,
+      benchmark: mixForTier('mid', config.questionCounts.benchmark, config.routing),
+      final: mixForTier('mid', config.questionCounts.final, config.routing),
+      decidedAt
+    }
+  }
+
+  const tier = tierForSkill(skillEstimate)
+  return {
+    enabled: true,
+    skillEstimate,
+    tier,
+    benchmark: mixForTier(tier, config.questionCounts.benchmark, config.routing),
+    final: mixForTier(tier, config.questionCounts.final, config.routing),
+    decidedAt
+  }
+}
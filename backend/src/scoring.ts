@@ -0,0 +1,466 @@
+import type { Question } from '@prisma/client'
+import { prisma } from './db'
+
+/**
+ * Server-side scoring
+ * Correctness is re-derived from the question set recorded in QuestionAssignment
+ * and the submitted selections, using the backend's own knapsack solver. Item
+ * data (capacity, balls, optimal selections, difficulty) is read from the
+ * participant's pinned question bank version, never from the client. The
+ * server figures replace the client-reported ones on the stored phase result;
+ * the client figures are kept under `clientReported` and any mismatch is listed
+ * in `serverScoring.discrepancies`.
+ */
+
+// Phases whose question sets are recorded and can be scored on the server
+export const SCORED_PHASES = ['skill', 'benchmark', 'final']
+
+// Default points scheme: 2 per correct answer, 1 per unanswered question, 0 per incorrect answer
+// (studies can configure their own weights, see studyConfig.ts)
+export const POINTS_CORRECT = 2
+export const POINTS_UNANSWERED = 1
+export const POINTS_INCORRECT = 0
+
+export interface ScoringWeights {
+  correct: number
+  unanswered: number
+  incorrect: number
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  correct: POINTS_CORRECT,
+  unanswered: POINTS_UNANSWERED,
+  incorrect: POINTS_INCORRECT
+}
+
+export interface ScoringBall {
+  id: number
+  weight: number
+  reward: number
+  // Bounded, multidimensional and multiple-choice questions (see lib/knapsack-variants.ts)
+  quantity?: number
+  volume?: number
+  group?: number
+}
+
+// Question type and volume limit from the bank (0/1 knapsack when type is missing)
+export interface ScoringVariant {
+  type?: string | null
+  volumeCapacity?: number | null
+}
+
+export interface ScoredQuestion {
+  questionId: number
+  answered: boolean
+  correct: boolean
+  clientCorrect: boolean | null
+  selectedReward: number
+  selectedWeight: number
+  optimalReward: number
+  overCapacity: boolean
+  invalidSelection: boolean
+  // Index of the recorded optimal selection the answer matches (null if none matched or none recorded)
+  matchedSolution: number | null
+}
+
+export interface Discrepancy {
+  field: string
+  questionId?: number
+  client: any
+  server: any
+}
+
+export interface ServerScoring {
+  scored: boolean
+  reason?: string
+  correctAnswers?: number
+  incorrectAnswers?: number
+  unansweredQuestions?: number
+  totalQuestions?: number
+  totalPoints?: number
+  maxPoints?: number
+  accuracy?: number
+  questions?: ScoredQuestion[]
+  discrepancies: Discrepancy[]
+  scoredAt: string
+}
+
+export interface MetaScoring {
+  scored: boolean
+  reason?: string
+  correctClassifications?: number
+  totalQuestions?: number
+  totalPoints?: number
+  maxPoints?: number
+  accuracy?: number
+  items?: Array<{ questionId: number; difficulty: string | null; classification: string | null; correct: boolean }>
+  discrepancies: Discrepancy[]
+  scoredAt: string
+}
+
+/**
+ * Best achievable reward (dynamic programming over capacity)
+ * Bounded questions count each copy as a ball, multidimensional ones also
+ * track volume, and multiple-choice ones take exactly one ball per group
+ * (0 when no such selection fits)
+ */
+export function optimalReward(balls: ScoringBall[], capacity: number, variant: ScoringVariant = {}): number {
+  const cap = Math.max(0, capacity)
+
+  if (variant.type === 'multiple-choice') {
+    const groups = Array.from(new Set(balls.map((ball) => ball.group ?? 0)))
+    let best: number[] = new Array(cap + 1).fill(0)
+    for (const group of groups) {
+      const next: number[] = new Array(cap + 1).fill(-Infinity)
+      for (const ball of balls.filter((b) => (b.group ?? 0) === group)) {
+        for (let c = ball.weight; c <= cap; c++) {
+          next[c] = Math.max(next[c], best[c - ball.weight] + ball.reward)
+        }
+      }
+      best = next
+    }
+    return Math.max(0, best[cap])
+  }
+
+  if (variant.type === 'multidimensional') {
+    const volumeCap = Math.max(0, variant.volumeCapacity ?? 0)
+    const best = Array.from({ length: cap + 1 }, () => new Array(volumeCap + 1).fill(0))
+    for (const ball of balls) {
+      const volume = ball.volume ?? 0
+      for (let c = cap; c >= ball.weight; c--) {
+        for (let v = volumeCap; v >= volume; v--) {
+          best[c][v] = Math.max(best[c][v], best[c - ball.weight][v - volume] + ball.reward)
+        }
+      }
+    }
+    return best[cap][volumeCap]
+  }
+
+  const items = variant.type === 'bounded'
+    ? balls.reduce<ScoringBall[]>((all, ball) => all.concat(new Array(ball.quantity ?? 1).fill(ball)), [])
+    : balls
+  const best = new Array(cap + 1).fill(0)
+  for (const ball of items) {
+    for (let c = capacity; c >= ball.weight; c--) {
+      best[c] = Math.max(best[c], best[c - ball.weight] + ball.reward)
+    }
+  }
+  return best[cap]
+}
+
+/**
+ * Score one selection: correct when it is a valid, within-capacity set of
+ * balls whose reward matches the optimum (any optimal subset is accepted)
+ * Valid means known balls taken at most once (up to their quantity in a
+ * bounded question) and, in a multiple-choice question, one from each group
+ * `solutions` are the optimal selections recorded with the question, if any;
+ * the one the answer matches is reported in matchedSolution
+ */
+export function scoreSelection(
+  balls: ScoringBall[],
+  capacity: number,
+  selected: number[],
+  solutions?: number[][] | null,
+  variant: ScoringVariant = {}
+) {
+  const byId = new Map(balls.map((ball) => [ball.id, ball]))
+  const copies = new Map<number, number>()
+  selected.forEach((id) => copies.set(id, (copies.get(id) || 0) + 1))
+
+  let invalidSelection = selected.some((id) => !byId.has(id))
+  copies.forEach((count, id) => {
+    const ball = byId.get(id)
+    const allowed = variant.type === 'bounded' ? ball?.quantity ?? 1 : 1
+    if (ball && count > allowed) invalidSelection = true
+  })
+  if (variant.type === 'multiple-choice' && selected.length > 0) {
+    const groups = Array.from(new Set(balls.map((ball) => ball.group ?? 0)))
+    invalidSelection = invalidSelection ||
+      groups.some((group) => selected.filter((id) => (byId.get(id)?.group ?? 0) === group).length !== 1)
+  }
+
+  // Repeated balls count once unless the question has copies
+  const counted = variant.type === 'bounded' ? selected : Array.from(new Set(selected))
+  let selectedReward = 0
+  let selectedWeight = 0
+  let selectedVolume = 0
+  counted.forEach((id) => {
+    const ball = byId.get(id)
+    if (!ball) return
+    selectedReward += ball.reward
+    selectedWeight += ball.weight
+    selectedVolume += ball.volume ?? 0
+  })
+
+  const best = optimalReward(balls, capacity, variant)
+  const overCapacity = selectedWeight > capacity ||
+    (variant.type === 'multidimensional' && selectedVolume > (variant.volumeCapacity ?? 0))
+  const sortedIds = (ids: number[]) => [...ids].sort((a, b) => a - b).join(',')
+  const matched = (solutions || []).findIndex((solution) => sortedIds(solution) === sortedIds(counted))
+
+  return {
+    correct: !invalidSelection && !overCapacity && selected.length > 0 && selectedReward === best,
+    selectedReward,
+    selectedWeight,
+    optimalReward: best,
+    overCapacity,
+    invalidSelection,
+    matchedSolution: matched === -1 ? null : matched
+  }
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Score a phase submission against the questions the participant was assigned
+ */
+export function scorePhase(
+  data: any,
+  assignments: Array<{ questionId: number; capacity: number; balls: any; solutions?: any } & ScoringVariant>,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): ServerScoring {
+  const scoredAt = new Date().toISOString()
+  if (assignments.length === 0) {
+    return { scored: false, reason: 'No question assignments recorded for this phase', discrepancies: [], scoredAt }
+  }
+
+  const answersById = new Map<number, any>()
+  for (const answer of data.answers || []) {
+    answersById.set(answer.questionId, answer)
+  }
+
+  const discrepancies: Discrepancy[] = []
+  const questions: ScoredQuestion[] = assignments.map((assignment) => {
+    const answer = answersById.get(assignment.questionId)
+    const answered = !!answer?.confirmed
+    const solutions = Array.isArray(assignment.solutions) ? assignment.solutions as number[][] : null
+    const result = scoreSelection(assignment.balls as ScoringBall[], assignment.capacity, answered ? answer.selected : [], solutions, assignment)
+    const correct = answered && result.correct
+    const clientCorrect = answer ? !!answer.correct : null
+
+    if (clientCorrect !== null && clientCorrect !== correct) {
+      discrepancies.push({ field: 'correct', questionId: assignment.questionId, client: clientCorrect, server: correct })
+    }
+    // An optimal answer missing from the recorded optimal selections means the question's answer key is incomplete
+    if (correct && solutions && result.matchedSolution === null) {
+      discrepancies.push({ field: 'solutions', questionId: assignment.questionId, client: answer.selected, server: 'optimal but not recorded' })
+    }
+
+    return { ...result, questionId: assignment.questionId, answered, correct, clientCorrect }
+  })
+
+  const assignedIds = new Set(assignments.map((a) => a.questionId))
+  answersById.forEach((_answer, questionId) => {
+    if (!assignedIds.has(questionId)) {
+      discrepancies.push({ field: 'answers', questionId, client: 'answered', server: 'not assigned' })
+    }
+  })
+
+  const correctAnswers = questions.filter((q) => q.correct).length
+  const incorrectAnswers = questions.filter((q) => q.answered && !q.correct).length
+  const unansweredQuestions = questions.filter((q) => !q.answered).length
+  const totalQuestions = questions.length
+  const totalPoints =
+    correctAnswers * weights.correct + unansweredQuestions * weights.unanswered + incorrectAnswers * weights.incorrect
+  const maxPoints = totalQuestions * weights.correct
+  const accuracy = round(correctAnswers / totalQuestions)
+
+  const totals: Record<string, number> = {
+    correctAnswers,
+    incorrectAnswers,
+    unansweredQuestions,
+    totalQuestions,
+    totalPoints,
+    maxPoints,
+    accuracy
+  }
+  for (const field of Object.keys(totals)) {
+    const client = data[field]
+    if (client === undefined || client === null) continue
+    const matches = field === 'accuracy' ? Math.abs(client - totals[field]) < 0.001 : client === totals[field]
+    if (!matches) discrepancies.push({ field, client, server: totals[field] })
+  }
+
+  return {
+    scored: true,
+    correctAnswers,
+    incorrectAnswers,
+    unansweredQuestions,
+    totalQuestions,
+    totalPoints,
+    maxPoints,
+    accuracy,
+    questions,
+    discrepancies,
+    scoredAt
+  }
+}
+
+/**
+ * Score a difficulty labelling (meta-analysis) submission: a label is correct
+ * when it matches the generator-assigned difficulty of the bank item
+ */
+export function scoreMetaPhase(
+  data: any,
+  assignments: Array<{ questionId: number; difficulty: string | null }>,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): MetaScoring {
+  const scoredAt = new Date().toISOString()
+  if (assignments.length === 0) {
+    return { scored: false, reason: 'No question assignments recorded for this phase', discrepancies: [], scoredAt }
+  }
+
+  const byId = new Map<number, any>()
+  for (const item of data.classifications || []) {
+    byId.set(item.questionId, item)
+  }
+
+  const discrepancies: Discrepancy[] = []
+  const items = assignments.map((assignment) => {
+    const item = byId.get(assignment.questionId)
+    const classification = item?.classification ?? null
+    const correct = classification !== null && classification === assignment.difficulty
+    if (item && !!item.correct !== correct) {
+      discrepancies.push({ field: 'correct', questionId: assignment.questionId, client: !!item.correct, server: correct })
+    }
+    return { questionId: assignment.questionId, difficulty: assignment.difficulty, classification, correct }
+  })
+
+  const correctClassifications = items.filter((i) => i.correct).length
+  const unlabelled = items.filter((i) => i.classification === null).length
+  const incorrect = items.length - correctClassifications - unlabelled
+  const totalQuestions = items.length
+  const totals: Record<string, number> = {
+    correctClassifications,
+    totalQuestions,
+    totalPoints: correctClassifications * weights.correct + unlabelled * weights.unanswered + incorrect * weights.incorrect,
+    maxPoints: totalQuestions * weights.correct,
+    accuracy: round(correctClassifications / totalQuestions)
+  }
+  for (const field of Object.keys(totals)) {
+    const client = data[field]
+    if (client === undefined || client === null) continue
+    const matches = field === 'accuracy' ? Math.abs(client - totals[field]) < 0.001 : client === totals[field]
+    if (!matches) discrepancies.push({ field, client, server: totals[field] })
+  }
+
+  return {
+    scored: true,
+    correctClassifications: totals.correctClassifications,
+    totalQuestions: totals.totalQuestions,
+    totalPoints: totals.totalPoints,
+    maxPoints: totals.maxPoints,
+    accuracy: totals.accuracy,
+    items,
+    discrepancies,
+    scoredAt
+  }
+}
+
+/**
+ * Bank items of the questions a participant was assigned in a phase, in presentation order
+ * Returns a reason instead when they cannot be resolved: no pinned bank, a
+ * submission answered against another bank, or IDs missing from the bank
+ */
+export async function loadAssignedQuestions(
+  participantId: string,
+  phase: string,
+  answeredBankVersion?: string | null
+): Promise<{ questions: Question[]; reason?: undefined } | { reason: string }> {
+  const assignments = await prisma.questionAssignment.findMany({
+    where: { participantId, phase },
+    orderBy: { position: 'asc' }
+  })
+  if (assignments.length === 0) return { questions: [] }
+
+  const participant = await prisma.participant.findFirst({
+    where: { participantId },
+    select: { bankVersion: true }
+  })
+  const bankVersion = participant?.bankVersion
+  if (!bankVersion) {
+    return { reason: 'Participant is not pinned to a question bank version' }
+  }
+  if (answeredBankVersion && answeredBankVersion !== bankVersion) {
+    return { reason: `Answered against bank ${answeredBankVersion}, participant is pinned to ${bankVersion}` }
+  }
+
+  const rows = await prisma.question.findMany({
+    where: { bankVersion, questionId: { in: assignments.map((a) => a.questionId) } }
+  })
+  const byId = new Map(rows.map((row) => [row.questionId, row]))
+  const missing = assignments.filter((a) => !byId.has(a.questionId)).map((a) => a.questionId)
+  if (missing.length > 0) {
+    return { reason: `Questions ${missing.join(', ')} not found in bank ${bankVersion}` }
+  }
+
+  return { questions: assignments.map((a) => byId.get(a.questionId)!) }
+}
+
+// Figures the client reports and the server recomputes
+const TEST_FIGURES = ['correctAnswers', 'incorrectAnswers', 'unansweredQuestions', 'totalQuestions', 'totalPoints', 'maxPoints', 'accuracy']
+const META_FIGURES = ['correctClassifications', 'totalQuestions', 'totalPoints', 'maxPoints', 'accuracy']
+
+/**
+ * Stored form of a phase: the client's figures only under `clientReported`,
+ * the server's at the top level (null when the phase could not be scored)
+ */
+function withServerFigures(data: any, fields: string[], serverScoring: any): any {
+  const result: any = { ...data, clientReported: {}, serverScoring }
+  for (const field of fields) {
+    result.clientReported[field] = data[field]
+    result[field] = serverScoring.scored ? serverScoring[field] : null
+  }
+  return result
+}
+
+/**
+ * Score a validated phase payload and return the result to store: server
+ * figures at the top level, client figures under `clientReported`
+ * `answeredBankVersion` is the bank the client reports having answered against
+ */
+export async function applyServerScoring(
+  participantId: string,
+  phase: string,
+  data: any,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+  answeredBankVersion?: string | null
+): Promise<any> {
+  if (phase !== 'meta' && !SCORED_PHASES.includes(phase)) return data
+  const fields = phase === 'meta' ? META_FIGURES : TEST_FIGURES
+
+  const assigned = await loadAssignedQuestions(participantId, phase, answeredBankVersion)
+  const serverScoring: any = assigned.reason !== undefined
+    ? { scored: false, reason: assigned.reason, discrepancies: [], scoredAt: new Date().toISOString() }
+    : phase === 'meta'
+      ? scoreMetaPhase(data, assigned.questions, weights)
+      : scorePhase(data, assigned.questions, weights)
+
+  if (!serverScoring.scored) {
+    console.warn(`[SCORING] ${phase} for participant ${participantId} not scored: ${serverScoring.reason}`)
+  } else if (serverScoring.discrepancies.length > 0) {
+    console.warn(
+      `[SCORING] ${serverScoring.discrepancies.length} discrepancies in ${phase} for participant ${participantId}:`,
+      JSON.stringify(serverScoring.discrepancies)
+    )
+  }
+
+  return withServerFigures(data, fields, serverScoring)
+}
+
+/**
+ * Phases of a stored participant whose client figures disagreed with the server
+ */
+export function phasesWithDiscrepancies(tests: Record<string, any>): string[] {
+  return Object.keys(tests).filter((phase) => tests[phase]?.serverScoring?.discrepancies?.length > 0)
+}
+
+/**
+ * Phases of a stored participant that were submitted but could not be scored
+ * (their figures are null; the client's sit under clientReported)
+ */
+export function unscoredPhases(tests: Record<string, any>): string[] {
+  return Object.keys(tests).filter((phase) =>
+    (phase === 'meta' || SCORED_PHASES.includes(phase)) && tests[phase] && tests[phase].serverScoring?.scored !== true
+  )
+}
@@ -3,6 +3,14 @@ import express from 'express';
 import cors from 'cors';
 import { connectPostgres } from './db';
 import { router as participantRoutes } from './routes/participantRoutes';
+import { router as sessionRoutes } from './routes/sessionRoutes';
+import { router as questionRoutes } from './routes/questionRoutes';
+import { router as eventRoutes } from './routes/eventRoutes';
+import { router as timerRoutes } from './routes/timerRoutes';
+import { router as bonusRoutes } from './routes/bonusRoutes';
+import { router as completionRoutes } from './routes/completionRoutes';
+import { router as studyRoutes } from './routes/studyRoutes';
+import { router as questionBankRoutes } from './routes/questionBankRoutes';
 
 const app = express();
 const port = Number(process.env.PORT || 8787);
@@ -18,6 +26,14 @@ app.use(cors({
 }));
 app.use(express.json({ limit: '2mb' }));
 app.use(participantRoutes);
+app.use(sessionRoutes);
+app.use(questionRoutes);
+app.use(eventRoutes);
+app.use(timerRoutes);
+app.use(bonusRoutes);
+app.use(completionRoutes);
+app.use(studyRoutes);
+app.use(questionBankRoutes);
 
 // routes
 app.get('/health', (_, res) => res.json({ ok: true }));
@@ -0,0 +1,266 @@
+import z from 'zod'
+import { prisma } from './db'
+import { getActiveBank, loadBankQuestions } from './questionBank'
+import { mixForTier, type DifficultyCounts } from './routing'
+
+/**
+ * Per-study configuration
+ * Each Study row (keyed by Prolific STUDY_ID) holds a JSON configuration so
+ * several variants of the experiment can run from one deployment. Missing
+ * fields fall back to the defaults below, which match the original study;
+ * participants of unknown studies get the defaults too.
+ */
+
+// Phases a pipeline can include (the frontend registry in components/phases/registry.tsx)
+export const PHASE_IDS = [
+  'intro',
+  'tutorial',
+  'training1',
+  'training2',
+  'benchmark',
+  'strategy',
+  'meta',
+  'prediction',
+  'results'
+] as const
+
+// Phases shown when a study does not configure its own pipeline
+export const DEFAULT_PHASES: Array<typeof PHASE_IDS[number]> = ['intro', 'tutorial', 'training1', 'training2', 'benchmark', 'strategy', 'prediction', 'results']
+
+const PhaseId = z.enum(PHASE_IDS)
+
+// One pipeline step (see lib/phase-pipeline.ts); a bare phase ID is a step without options
+const PipelineStep = z.object({
+  id: PhaseId,
+  allowBack: z.boolean().optional(),
+  branches: z.array(z.object({
+    when: z.object({
+      field: z.string().min(1).max(200),
+      op: z.enum(['lt', 'lte', 'gt', 'gte', 'eq', 'neq']),
+      value: z.union([z.number(), z.string(), z.boolean()])
+    }),
+    // Jump to a later phase, or end the study early with a final status
+    goto: PhaseId.optional(),
+    end: z.enum(['screened_out', 'failed_attention_check']).optional(),
+    reason: z.string().max(500).optional()
+  }).refine((branch) => !branch.goto !== !branch.end, { message: 'A branch needs exactly one of goto and end' })).max(10).optional(),
+  props: z.record(z.string(), z.unknown()).optional()
+})
+
+const PipelineEntry = z.union([PhaseId, PipelineStep])
+
+const stepId = (entry: z.infer<typeof PipelineEntry>) => (typeof entry === 'string' ? entry : entry.id)
+
+// Sequence checks: intro first, results last, no repeats, branches only jump forward
+const checkPipeline = (entries: Array<z.infer<typeof PipelineEntry>>, ctx: z.RefinementCtx) => {
+  const ids = entries.map(stepId)
+  if (ids[0] !== 'intro' || ids[ids.length - 1] !== 'results') {
+    ctx.addIssue({ code: 'custom', message: 'Phase sequence must start with intro and end with results' })
+  }
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: 'custom', message: 'Phases must not repeat' })
+  }
+  entries.forEach((entry, index) => {
+    if (typeof entry === 'string') return
+    for (const branch of entry.branches || []) {
+      if (branch.goto && ids.indexOf(branch.goto) <= index) {
+        ctx.addIssue({ code: 'custom', path: [index, 'branches'], message: `Branch target ${branch.goto} must be a later phase` })
+      }
+    }
+  })
+}
+
+const Mix = z.object({
+  easy: z.number().int().min(0).max(100),
+  medium: z.number().int().min(0).max(100),
+  hard: z.number().int().min(0).max(100)
+})
+
+// Each ball gets its own color, so a question has at most BALL_COLORS.length (lib/config.ts) balls
+const MAX_ITEMS = 16
+
+const ItemCount = z.number().int().min(2).max(MAX_ITEMS)
+
+// One count for the test, or per difficulty
+const TestItemCount = z.union([
+  ItemCount,
+  z.object({ easy: ItemCount.optional(), medium: ItemCount.optional(), hard: ItemCount.optional() })
+])
+
+const CompletionCode = z.string().min(1).max(100).nullable()
+
+const CapacityRange = z.object({ min: z.number().int().min(0), max: z.number().int().min(0) }).nullable()
+
+// One adaptive routing tier (see routing.ts)
+const RoutingTier = z.object({
+  shift: z.number().min(0).max(1),
+  capacityRange: CapacityRange
+})
+
+export const StudyConfigSchema = z.object({
+  // Phase pipeline shown to participants; must start with intro and end with results
+  phases: z.array(PipelineEntry).min(2).superRefine(checkPipeline).default(() => [...DEFAULT_PHASES]),
+  // Items (balls) per question
+  numItems: ItemCount.default(4),
+  // Per-test overrides of numItems (the bank needs questions of that size, see scripts/validate-bank.ts)
+  itemCounts: z.object({
+    skill: TestItemCount.optional(),
+    benchmark: TestItemCount.optional(),
+    final: TestItemCount.optional(),
+    meta: TestItemCount.optional()
+  }).default({}),
+  // Questions per difficulty for each generated test
+  questionCounts: z.object({
+    skill: Mix.default({ easy: 3, medium: 4, hard: 3 }),
+    benchmark: Mix.default({ easy: 10, medium: 10, hard: 10 }),
+    final: Mix.default({ easy: 10, medium: 10, hard: 10 }),
+    // Difficulty labelling (meta-analysis) items
+    meta: Mix.default({ easy: 3, medium: 4, hard: 3 })
+  }).default({
+    skill: { easy: 3, medium: 4, hard: 3 },
+    benchmark: { easy: 10, medium: 10, hard: 10 },
+    final: { easy: 10, medium: 10, hard: 10 },
+    meta: { easy: 3, medium: 4, hard: 3 }
+  }),
+  // Time limits in seconds
+  timeLimits: z.object({
+    skill: z.number().int().positive().default(15 * 60),
+    skillPerQuestion: z.number().int().positive().default(90),
+    benchmark: z.number().int().positive().default(15 * 60),
+    final: z.number().int().positive().default(20 * 60)
+  }).default({ skill: 15 * 60, skillPerQuestion: 90, benchmark: 15 * 60, final: 20 * 60 }),
+  // Points per correct, unanswered and incorrect answer
+  scoring: z.object({
+    correct: z.number().min(0).default(2),
+    unanswered: z.number().min(0).default(1),
+    incorrect: z.number().default(0)
+  }).default({ correct: 2, unanswered: 1, incorrect: 0 }),
+  // Spread test questions evenly over heuristic trap types (see lib/knapsack-heuristics.ts)
+  balanceTrapTypes: z.boolean().default(false),
+  // Adaptive routing of the Benchmark and Final mixes by Test 1 result (see routing.ts)
+  routing: z.object({
+    enabled: z.boolean().default(false),
+    low: RoutingTier.default({ shift: 0.4, capacityRange: { min: 0, max: 22 } }),
+    high: RoutingTier.default({ shift: 0.4, capacityRange: { min: 18, max: 1000 } })
+  }).default({
+    enabled: false,
+    low: { shift: 0.4, capacityRange: { min: 0, max: 22 } },
+    high: { shift: 0.4, capacityRange: { min: 18, max: 1000 } }
+  }),
+  // Prolific completion codes per final status (override PROLIFIC_COMPLETION_CODES, see completion.ts)
+  completionCodes: z.object({
+    completed: CompletionCode.optional(),
+    failed_attention_check: CompletionCode.optional(),
+    screened_out: CompletionCode.optional(),
+    timed_out: CompletionCode.optional()
+  }).default({})
+})
+
+export type StudyConfig = z.infer<typeof StudyConfigSchema>
+
+export const DEFAULT_STUDY_CONFIG: StudyConfig = StudyConfigSchema.parse({})
+
+/**
+ * Configuration for a study, falling back to the defaults for unknown studies
+ */
+export async function loadStudyConfig(studyId: string | null): Promise<StudyConfig> {
+  if (!studyId) return DEFAULT_STUDY_CONFIG
+
+  const study = await prisma.study.findUnique({ where: { studyId } })
+  if (!study) return DEFAULT_STUDY_CONFIG
+
+  const parsed = StudyConfigSchema.safeParse(study.config)
+  if (!parsed.success) {
+    console.error(`[STUDY CONFIG] Stored config for study ${studyId} is invalid, using defaults`, parsed.error.issues)
+    return DEFAULT_STUDY_CONFIG
+  }
+  return parsed.data
+}
+
+type CountedTest = keyof StudyConfig['questionCounts']
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const
+
+// Pipeline step that shows each test, the bank phase it draws from and its name for admins
+const TEST_SOURCES: Record<CountedTest, { step: typeof PHASE_IDS[number]; phase: string | null; name: string }> = {
+  skill: { step: 'training2', phase: 'training', name: 'Test 1' },
+  benchmark: { step: 'benchmark', phase: 'benchmark', name: 'Test 2' },
+  final: { step: 'prediction', phase: 'prediction', name: 'Test 3' },
+  // Meta-analysis items come from the whole bank except the pools of tests after it
+  meta: { step: 'meta', phase: null, name: 'Meta-analysis' }
+}
+
+/**
+ * Items per question for a test's difficulty: the test's override, else numItems
+ * (keep in sync with itemCountFor in lib/study-config.ts)
+ */
+function itemCountFor(config: StudyConfig, test: CountedTest, difficulty: typeof DIFFICULTIES[number]): number {
+  const count = config.itemCounts[test]
+  if (typeof count === 'number') return count
+  return count?.[difficulty] ?? config.numItems
+}
+
+/**
+ * Questions a test can need per difficulty: its own counts, or with adaptive
+ * routing the largest count any tier asks for
+ */
+function requiredCounts(config: StudyConfig, test: CountedTest): DifficultyCounts {
+  const counts = config.questionCounts[test]
+  if (!config.routing.enabled || (test !== 'benchmark' && test !== 'final')) return counts
+
+  const mixes = (['low', 'mid', 'high'] as const).map((tier) => mixForTier(tier, counts, config.routing))
+  return {
+    easy: Math.max(...mixes.map((mix) => mix.easy)),
+    medium: Math.max(...mixes.map((mix) => mix.medium)),
+    hard: Math.max(...mixes.map((mix) => mix.hard))
+  }
+}
+
+/**
+ * Check that the active question bank holds enough questions of the right size
+ * for every test in the study's pipeline, so participants are never served
+ * short or empty tests. Returns one message per shortfall (none without an
+ * active bank, whose questions can't be known yet)
+ */
+export async function checkBankCoverage(config: StudyConfig): Promise<string[]> {
+  const bank = await getActiveBank()
+  if (!bank) return []
+
+  const questions = await loadBankQuestions(bank.version)
+  const steps = config.phases.map(stepId)
+  const metaIndex = steps.indexOf('meta')
+  const laterPhases = new Set(steps.slice(metaIndex + 1).flatMap((step) =>
+    Object.values(TEST_SOURCES).filter((source) => source.step === step && source.phase).map((source) => source.phase)
+  ))
+
+  const issues: string[] = []
+  for (const test of Object.keys(TEST_SOURCES) as CountedTest[]) {
+    const source = TEST_SOURCES[test]
+    if (!steps.includes(source.step)) continue
+
+    const required = requiredCounts(config, test)
+    for (const difficulty of DIFFICULTIES) {
+      const numItems = itemCountFor(config, test, difficulty)
+      const available = questions.filter((question) =>
+        question.difficulty === difficulty &&
+        Array.isArray(question.balls) && question.balls.length === numItems &&
+        (source.phase ? question.phase === source.phase : !laterPhases.has(question.phase ?? null))
+      ).length
+      if (available < required[difficulty]) {
+        issues.push(
+          `questionCounts.${test}.${difficulty}: ${source.name} needs ${required[difficulty]} ${difficulty} questions with ` +
+          `${numItems} balls, active bank ${bank.version} has ${available}`
+        )
+      }
+    }
+  }
+  return issues
+}
+
+/**
+ * Configuration safe to hand to participants (completion codes stay on the server)
+ */
+export function publicStudyConfig(config: StudyConfig) {
+  const { completionCodes: _completionCodes, ...rest } = config
+  return rest
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto'
+import { prisma } from './db'
+
+/**
+ * Server-enforced phase timers
+ * A timed phase asks for a start token when it begins; the deadline is fixed
+ * from the server clock at that moment, so throttled tabs, paused debuggers or
+ * a resumed session can't extend it. Submissions are checked against it at
+ * ingest: answers finished after the deadline (or over Test 1's per-question
+ * limit) are rejected, and a late submission as a whole is flagged (the
+ * client outbox may legitimately deliver it late after a network outage).
+ */
+
+// Default time limits of the timed phases, in seconds (studies can override them, see studyConfig.ts)
+export const PHASE_TIME_LIMITS: Record<string, number> = {
+  skill: 15 * 60,
+  benchmark: 15 * 60,
+  final: 20 * 60
+}
+
+// Allowance for network latency and clock-skew measurement error
+export const DEADLINE_GRACE_MS = 10 * 1000
+
+export const isTimedPhase = (phase: string) => phase in PHASE_TIME_LIMITS
+
+type PhaseTimerRow = {
+  token: string
+  startedAt: Date
+  deadline: Date
+  clockSkewMs: number | null
+}
+
+/**
+ * Start (or return the already started) timer for a participant's phase
+ * `clientTimestamp` is the client clock at the request; the difference to the
+ * server clock is recorded as the participant's clock skew
+ */
+export async function startPhaseTimer(
+  participantId: string,
+  phase: string,
+  clientTimestamp: string | null,
+  timeLimits: Record<string, number> = PHASE_TIME_LIMITS
+) {
+  const now = new Date()
+  const clientTime = clientTimestamp ? new Date(clientTimestamp) : null
+  const clockSkewMs = clientTime && !isNaN(clientTime.getTime()) ? clientTime.getTime() - now.getTime() : null
+
+  // A resumed phase keeps its original token and deadline
+  const timer = await prisma.phaseTimer.upsert({
+    where: { participantId_phase: { participantId, phase } },
+    update: {},
+    create: {
+      participantId,
+      phase,
+      token: crypto.randomUUID(),
+      startedAt: now,
+      deadline: new Date(now.getTime() + (timeLimits[phase] ?? PHASE_TIME_LIMITS[phase]) * 1000),
+      clientStartedAt: clientTime,
+      clockSkewMs
+    }
+  })
+
+  if (clockSkewMs !== null) {
+    await prisma.participant.update({ where: { participantId }, data: { clockSkewMs } })
+  }
+
+  return { timer, serverTime: now, clockSkewMs }
+}
+
+/**
+ * Check a submission against its phase timer
+ * Answers whose (skew-corrected) end time is past the deadline, or that took
+ * longer than `perQuestionSeconds` (Test 1's per-question limit) from start to
+ * end, are marked unconfirmed so server scoring counts them as unanswered.
+ */
+export function enforceDeadline(
+  timer: PhaseTimerRow | null,
+  startToken: string | undefined,
+  data: any,
+  receivedAt = new Date(),
+  perQuestionSeconds: number | null = null
+) {
+  const deadline = timer ? timer.deadline.getTime() + DEADLINE_GRACE_MS : Infinity
+  const skew = timer?.clockSkewMs ?? 0
+  const questionLimitMs = perQuestionSeconds === null ? Infinity : perQuestionSeconds * 1000 + DEADLINE_GRACE_MS
+  const windows = new Map<number, { startedAt: number | null; endedAt: number }>()
+  for (const timing of data.questionTimes || []) {
+    if (timing.endTime) {
+      windows.set(timing.questionId, { startedAt: timing.startTime ? timing.startTime - skew : null, endedAt: timing.endTime - skew })
+    }
+  }
+
+  const lateQuestionIds: number[] = []
+  const overtimeQuestionIds: number[] = []
+  const answers = (data.answers || []).map((answer: any) => {
+    const window = windows.get(answer.questionId)
+    if (!answer.confirmed || !window) return answer
+    if (window.endedAt > deadline) {
+      lateQuestionIds.push(answer.questionId)
+      return { ...answer, confirmed: false, rejectedLate: true }
+    }
+    if (window.startedAt !== null && window.endedAt - window.startedAt > questionLimitMs) {
+      overtimeQuestionIds.push(answer.questionId)
+      return { ...answer, confirmed: false, rejectedLate: true }
+    }
+    return answer
+  })
+
+  if (!timer) {
+    return { data: { ...data, answers }, timing: { enforced: false, reason: 'No phase timer was started', overtimeQuestionIds } }
+  }
+
+  const lateByMs = receivedAt.getTime() - timer.deadline.getTime()
+  return {
+    data: { ...data, answers },
+    timing: {
+      enforced: true,
+      startedAt: timer.startedAt.toISOString(),
+      deadline: timer.deadline.toISOString(),
+      receivedAt: receivedAt.toISOString(),
+      clockSkewMs: timer.clockSkewMs,
+      tokenValid: startToken === timer.token,
+      lateSubmission: lateByMs > DEADLINE_GRACE_MS,
+      lateByMs: Math.max(0, lateByMs),
+      lateQuestionIds,
+      overtimeQuestionIds
+    }
+  }
+}
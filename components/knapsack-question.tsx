@@ -6,22 +6,58 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Package, Coins, Weight, CheckCircle, Zap, Star, Target, ShoppingBag } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
+import {
+  isFeasibleSelection,
+  questionGroups,
+  questionType,
+  sameSelection,
+  selectionTotals,
+  type QuestionType
+} from "@/lib/knapsack-variants"
 
 interface Ball {
   id: number
   weight: number
   reward: number
   color: string
+  // Bounded: copies available; multidimensional: volume; multiple-choice: group
+  quantity?: number
+  volume?: number
+  group?: number
 }
 
 interface Question {
   id: number
+  type?: QuestionType
   capacity: number
+  volumeCapacity?: number
   balls: Ball[]
   solution?: number[]
+  // Every optimal selection when the generator recorded them (ties included)
+  solutions?: number[][]
   explanation?: string
 }
 
+// Questions with more balls than this use compact cards in denser rows
+const COMPACT_ITEM_COUNT = 6
+
+// Selection rules shown above the items for each question type
+const SELECTION_HINTS: Record<QuestionType, string> = {
+  binary: "Click items to select",
+  bounded: "Click an item again to take another copy, up to the number available",
+  multidimensional: "Click items to select • Stay within both weight and volume",
+  "multiple-choice": "Pick exactly one item from each group",
+}
+
+// Item grid columns: one row up to 4 balls, then rows of 3-6 as the count grows
+const itemGridColumns = (count: number) => {
+  if (count === 4 || count === 7 || count === 8) return 'grid-cols-4'
+  if (count === 5 || count === 6) return 'grid-cols-3'
+  if (count === 9 || count === 10) return 'grid-cols-3 sm:grid-cols-5'
+  if (count > 10) return 'grid-cols-4 sm:grid-cols-6'
+  return 'grid-cols-2 md:grid-cols-3'
+}
+
 interface KnapsackQuestionProps {
   question: Question
   onAnswer?: (selectedBalls: number[], isCorrect: boolean) => void
@@ -85,6 +121,9 @@ export default function KnapsackQuestion({
     }
   }, [timeLimit])
 
+  const type = questionType(question)
+  const groups = questionGroups(question)
+
   const toggleBall = (ballId: number) => {
     if (!isInteractive || submitted) {
       console.log("Cannot toggle - not interactive or already submitted")
@@ -92,36 +131,54 @@ export default function KnapsackQuestion({
     }
 
     console.log("Toggling ball:", ballId)
+    const ball = question.balls.find((b) => b.id === ballId)
     setSelectedBalls((prev) => {
-      const newSelection = prev.includes(ballId) ? prev.filter((id) => id !== ballId) : [...prev, ballId]
+      let newSelection: number[]
+      if (type === "bounded") {
+        // Each click takes another copy; clicking past the last one puts them all back
+        const copies = prev.filter((id) => id === ballId).length
+        newSelection = copies < (ball?.quantity ?? 1) ? [...prev, ballId] : prev.filter((id) => id !== ballId)
+      } else if (type === "multiple-choice" && !prev.includes(ballId)) {
+        // Picking a ball replaces the current pick from its group
+        const sameGroup = (id: number) => question.balls.find((b) => b.id === id)?.group === ball?.group
+        newSelection = [...prev.filter((id) => !sameGroup(id)), ballId]
+      } else {
+        newSelection = prev.includes(ballId) ? prev.filter((id) => id !== ballId) : [...prev, ballId]
+      }
       console.log("New selection:", newSelection)
       return newSelection
     })
   }
 
-  const calculateTotals = (ballIds: number[]) => {
-    return ballIds.reduce(
-      (acc, id) => {
-        const ball = question.balls.find((b) => b.id === id)
-        if (ball) {
-          acc.weight += ball.weight
-          acc.reward += ball.reward
-        }
-        return acc
-      },
-      { weight: 0, reward: 0 },
-    )
-  }
+  const calculateTotals = (ballIds: number[]) => selectionTotals(question, ballIds)
 
+  // Ball IDs with copy counts, e.g. "1 ×2, 3"
+  const formatSelection = (ballIds: number[]) =>
+    Array.from(new Set(ballIds))
+      .map((id) => {
+        const copies = ballIds.filter((other) => other === id).length
+        return copies > 1 ? `${id} ×${copies}` : `${id}`
+      })
+      .join(", ")
+
+  // Other optimal selections with the same reward, shown alongside the solution
+  const alternativeSolutions = (question.solutions || []).filter(
+    (optimal) => !question.solution || !sameSelection(optimal, question.solution)
+  )
+
+  const compact = question.balls.length > COMPACT_ITEM_COUNT
   const currentTotals = calculateTotals(selectedBalls)
   const solutionTotals = question.solution ? calculateTotals(question.solution) : null
-  const isOverCapacity = currentTotals.weight > question.capacity
+  const isOverWeight = currentTotals.weight > question.capacity
+  const isOverVolume = type === "multidimensional" && currentTotals.volume > (question.volumeCapacity ?? 0)
+  const isOverCapacity = isOverWeight || isOverVolume
 
   const handleSubmit = () => {
     setSubmitted(true)
     
     let isCorrect = false
-    if (question.solution && !isOverCapacity) {
+    // Feasible: within every limit and, for multiple-choice, one item per group
+    if (question.solution && isFeasibleSelection(question, selectedBalls)) {
       // Calculate optimal reward from the known solution
       const optimalReward = question.solution.reduce((sum, ballId) => {
         const ball = question.balls.find(b => b.id === ballId)
@@ -135,12 +192,150 @@ export default function KnapsackQuestion({
       }, 0)
       
       // Accept any selection that achieves optimal reward and stays within capacity
-      isCorrect = selectedReward === optimalReward
+      isCorrect = question.solutions?.length
+        ? question.solutions.some((optimal) => sameSelection(optimal, selectedBalls))
+        : selectedReward === optimalReward
     }
 
     onAnswer?.(selectedBalls, isCorrect)
   }
 
+  const renderBall = (ball: Ball, index: number) => {
+    const copies = selectedBalls.filter((id) => id === ball.id).length
+    const isSelected = copies > 0
+    const isSolution = showSolution && question.solution?.includes(ball.id)
+
+    return (
+      <motion.div
+        key={ball.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        whileHover={isInteractive && !submitted ? { 
+          scale: 1.05
+        } : {}}
+        whileTap={isInteractive && !submitted ? { scale: 0.95 } : {}}
+        className="relative"
+      >
+        <div
+          className={`
+            relative ${compact ? "p-2 rounded-xl" : "p-4 rounded-2xl"} border-2 transition-all duration-300 cursor-pointer
+            ${isSelected
+              ? "bg-white border-blue-400 shadow-xl ring-4 ring-blue-200 ring-opacity-50"
+              : isSolution
+                ? "bg-white border-green-400 shadow-xl ring-4 ring-green-200 ring-opacity-50"
+                : "bg-white border-gray-200 shadow-md hover:shadow-lg hover:border-gray-300"
+            }
+            ${!isInteractive || submitted ? "cursor-default" : ""}
+          `}
+          onClick={() => toggleBall(ball.id)}
+        >
+          {/* Item Circle */}
+          <div className={`flex justify-center ${compact ? "mb-1" : "mb-2"}`}>
+            <div
+              className={`
+                ${compact ? "w-9 h-9 text-xs" : "w-12 h-12 text-sm"} rounded-full flex items-center justify-center text-white font-bold shadow-lg
+                ${ball.color}
+                ${isSelected ? "ring-4 ring-white ring-opacity-50" : ""}
+              `}
+            >
+              {ball.id}
+            </div>
+          </div>
+
+          {/* Item Stats */}
+          {compact ? (
+            <div className="flex justify-around">
+              <div className="flex items-center space-x-1" title="Weight">
+                <Weight className="h-4 w-4 text-gray-600" />
+                <span className="text-lg font-bold text-gray-700">{ball.weight}</span>
+              </div>
+              {type === "multidimensional" && (
+                <div className="flex items-center space-x-1" title="Volume">
+                  <Package className="h-4 w-4 text-sky-600" />
+                  <span className="text-lg font-bold text-sky-600">{ball.volume ?? 0}</span>
+                </div>
+              )}
+              <div className="flex items-center space-x-1" title="Reward">
+                <Coins className="h-4 w-4 text-amber-600" />
+                <span className="text-lg font-bold text-amber-600">{ball.reward}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="text-center">
+                <div className="flex items-center justify-center space-x-2 mb-1">
+                  <Weight className="h-5 w-5 text-gray-600" />
+                  <span className="text-sm font-medium text-gray-600">Weight</span>
+                </div>
+                <div className="text-2xl font-bold text-gray-700">
+                  {ball.weight}
+                </div>
+              </div>
+
+              {type === "multidimensional" && (
+                <div className="text-center">
+                  <div className="flex items-center justify-center space-x-2 mb-1">
+                    <Package className="h-5 w-5 text-sky-600" />
+                    <span className="text-sm font-medium text-sky-600">Volume</span>
+                  </div>
+                  <div className="text-2xl font-bold text-sky-600">
+                    {ball.volume ?? 0}
+                  </div>
+                </div>
+              )}
+            
+              <div className="text-center">
+                <div className="flex items-center justify-center space-x-2 mb-1">
+                  <Coins className="h-5 w-5 text-amber-600" />
+                  <span className="text-sm font-medium text-amber-600">Reward</span>
+                </div>
+                <div className="text-2xl font-bold text-amber-600">
+                  {ball.reward}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Copies available (bounded questions) */}
+          {type === "bounded" && (
+            <div className="absolute top-1 left-2 text-xs font-semibold text-gray-500" title="Copies available">
+              ×{ball.quantity ?? 1}
+            </div>
+          )}
+
+          {/* Selection Indicator (copies taken, for bounded questions) */}
+          {isSelected && (
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              className="absolute -top-2 -right-2 min-w-6 h-6 px-1 bg-blue-500 rounded-full flex items-center justify-center shadow-lg"
+            >
+              {type === "bounded" ? (
+                <span className="text-xs font-bold text-white">{copies}/{ball.quantity ?? 1}</span>
+              ) : (
+                <CheckCircle className="w-4 h-4 text-white" />
+              )}
+            </motion.div>
+          )}
+
+          {/* Solution Badge */}
+          {isSolution && !isSelected && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="absolute -top-2 -right-2"
+            >
+              <Badge className="bg-green-500 text-white text-xs">
+                Solution
+              </Badge>
+            </motion.div>
+          )}
+        </div>
+      </motion.div>
+    )
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -194,22 +389,28 @@ export default function KnapsackQuestion({
           <div className="inline-flex items-center space-x-2 bg-white rounded-xl px-4 py-2 shadow-md border">
             <span className="text-sm font-medium text-gray-600">Capacity:</span>
             <span className="text-2xl font-bold text-gray-900">{question.capacity}</span>
+            {type === "multidimensional" && (
+              <>
+                <span className="text-sm font-medium text-gray-600 pl-2">Volume:</span>
+                <span className="text-2xl font-bold text-gray-900">{question.volumeCapacity}</span>
+              </>
+            )}
           </div>
         </div>
 
         {/* Statistics Dashboard */}
-        <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className={`grid ${type === "multidimensional" ? "grid-cols-3" : "grid-cols-2"} gap-4 mb-6`}>
           <motion.div
             whileHover={{ scale: 1.02 }}
             className={`p-4 rounded-xl border-2 transition-all duration-200 ${
-              isTestMode || !isOverCapacity 
+              isTestMode || !isOverWeight 
                 ? "bg-blue-50 border-blue-200 text-blue-800" 
                 : "bg-red-50 border-red-200 text-red-800"
             }`}
           >
             <div className="flex items-center space-x-3">
               <div className={`p-2 rounded-lg ${
-                isTestMode || !isOverCapacity ? "bg-blue-100" : "bg-red-100"
+                isTestMode || !isOverWeight ? "bg-blue-100" : "bg-red-100"
               }`}>
                 <Weight className="h-5 w-5" />
               </div>
@@ -222,6 +423,29 @@ export default function KnapsackQuestion({
             </div>
           </motion.div>
 
+          {type === "multidimensional" && (
+            <motion.div
+              whileHover={{ scale: 1.02 }}
+              className={`p-4 rounded-xl border-2 transition-all duration-200 ${
+                isTestMode || !isOverVolume
+                  ? "bg-sky-50 border-sky-200 text-sky-800"
+                  : "bg-red-50 border-red-200 text-red-800"
+              }`}
+            >
+              <div className="flex items-center space-x-3">
+                <div className={`p-2 rounded-lg ${isTestMode || !isOverVolume ? "bg-sky-100" : "bg-red-100"}`}>
+                  <Package className="h-5 w-5" />
+                </div>
+                <div>
+                  <div className="text-xs font-medium opacity-80">Total Volume</div>
+                  <div className="text-2xl font-bold">
+                    {currentTotals.volume} / {question.volumeCapacity}
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          )}
+
           <motion.div
             whileHover={{ scale: 1.02 }}
             className="p-4 rounded-xl bg-emerald-50 border-2 border-emerald-200 text-emerald-800"
@@ -241,110 +465,30 @@ export default function KnapsackQuestion({
         {/* Selection Instructions */}
         <div className="text-center mb-6">
           <p className="text-sm text-gray-600 bg-white/60 rounded-full px-4 py-2 inline-block">
-            Click items to select • Selected: {selectedBalls.length} items
+            {SELECTION_HINTS[type]} • Selected: {selectedBalls.length} items
           </p>
         </div>
 
-        {/* Items Grid */}
-        <div className={`grid gap-4 mb-6 ${
-          question.balls.length === 4 ? 'grid-cols-4' : 
-          question.balls.length === 5 ? 'grid-cols-3' : 
-          question.balls.length === 6 ? 'grid-cols-3' :
-          'grid-cols-2 md:grid-cols-3'
-        }`}>
-          {question.balls.map((ball, index) => {
-            const isSelected = selectedBalls.includes(ball.id)
-            const isSolution = showSolution && question.solution?.includes(ball.id)
-
-            return (
-              <motion.div
-                key={ball.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-                whileHover={isInteractive && !submitted ? { 
-                  scale: 1.05
-                } : {}}
-                whileTap={isInteractive && !submitted ? { scale: 0.95 } : {}}
-                className="relative"
-              >
-                <div
-                  className={`
-                    relative p-4 rounded-2xl border-2 transition-all duration-300 cursor-pointer
-                    ${isSelected
-                      ? "bg-white border-blue-400 shadow-xl ring-4 ring-blue-200 ring-opacity-50"
-                      : isSolution
-                        ? "bg-white border-green-400 shadow-xl ring-4 ring-green-200 ring-opacity-50"
-                        : "bg-white border-gray-200 shadow-md hover:shadow-lg hover:border-gray-300"
-                    }
-                    ${!isInteractive || submitted ? "cursor-default" : ""}
-                  `}
-                  onClick={() => toggleBall(ball.id)}
-                >
-                  {/* Item Circle */}
-                  <div className="flex justify-center mb-2">
-                    <div
-                      className={`
-                        w-12 h-12 rounded-full flex items-center justify-center text-white font-bold text-sm shadow-lg
-                        ${ball.color}
-                        ${isSelected ? "ring-4 ring-white ring-opacity-50" : ""}
-                      `}
-                    >
-                      {ball.id}
-                    </div>
+        {/* Items Grid (multiple-choice questions show one section per group) */}
+        {type === "multiple-choice" ? (
+          <div className="space-y-4 mb-6">
+            {groups.map((group) => {
+              const members = question.balls.filter((ball) => (ball.group ?? 0) === group)
+              return (
+                <div key={group}>
+                  <div className="text-sm font-semibold text-gray-600 mb-2">Group {group}</div>
+                  <div className={`grid ${compact ? 'gap-2' : 'gap-4'} ${itemGridColumns(members.length)}`}>
+                    {members.map(renderBall)}
                   </div>
-
-                  {/* Item Stats */}
-                  <div className="space-y-3">
-                    <div className="text-center">
-                      <div className="flex items-center justify-center space-x-2 mb-1">
-                        <Weight className="h-5 w-5 text-gray-600" />
-                        <span className="text-sm font-medium text-gray-600">Weight</span>
-                      </div>
-                      <div className="text-2xl font-bold text-gray-700">
-                        {ball.weight}
-                      </div>
-                    </div>
-                    
-                    <div className="text-center">
-                      <div className="flex items-center justify-center space-x-2 mb-1">
-                        <Coins className="h-5 w-5 text-amber-600" />
-                        <span className="text-sm font-medium text-amber-600">Reward</span>
-                      </div>
-                      <div className="text-2xl font-bold text-amber-600">
-                        {ball.reward}
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Selection Indicator */}
-                  {isSelected && (
-                    <motion.div
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      className="absolute -top-2 -right-2 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center shadow-lg"
-                    >
-                      <CheckCircle className="w-4 h-4 text-white" />
-                    </motion.div>
-                  )}
-
-                  {/* Solution Badge */}
-                  {isSolution && !isSelected && (
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      className="absolute -top-2 -right-2"
-                    >
-                      <Badge className="bg-green-500 text-white text-xs">
-                        Solution
-                      </Badge>
-                    </motion.div>
-                  )}
                 </div>
-              </motion.div>
-            )
-          })}
-        </div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className={`grid mb-6 ${compact ? 'gap-2' : 'gap-4'} ${itemGridColumns(question.balls.length)}`}>
+            {question.balls.map(renderBall)}
+          </div>
+        )}
 
         {/* Action Buttons */}
         {isInteractive && !submitted && (
@@ -410,11 +554,19 @@ export default function KnapsackQuestion({
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
               <div className="bg-white rounded-xl p-3 text-center">
                 <div className="text-sm text-green-600 font-medium">Selected Items</div>
-                <div className="text-lg font-bold text-green-800">{question.solution.join(", ")}</div>
+                <div className="text-lg font-bold text-green-800">{formatSelection(question.solution)}</div>
+                {alternativeSolutions.length > 0 && (
+                  <div className="text-xs text-green-700 mt-1">
+                    Also optimal: {alternativeSolutions.map(formatSelection).join(" or ")}
+                  </div>
+                )}
               </div>
               <div className="bg-white rounded-xl p-3 text-center">
                 <div className="text-sm text-green-600 font-medium">Total Weight</div>
                 <div className="text-lg font-bold text-green-800">{solutionTotals.weight}/{question.capacity}</div>
+                {type === "multidimensional" && (
+                  <div className="text-xs text-green-700 mt-1">Volume {solutionTotals.volume}/{question.volumeCapacity}</div>
+                )}
               </div>
               <div className="bg-white rounded-xl p-3 text-center">
                 <div className="text-sm text-green-600 font-medium">Total Reward</div>
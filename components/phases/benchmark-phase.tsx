@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState, useEffect, useCallback, useMemo } from "react"
+import React, { useState, useEffect, useCallback } from "react"
 import { useTimeTracker } from "@/lib/time-tracker"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -8,36 +8,44 @@ import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Clock, BarChart3, Star, ChevronLeft, ChevronRight, Zap } from "lucide-react"
 import KnapsackQuestion from "@/components/knapsack-question"
-import { getBenchmarkPhaseQuestions, type Question } from "@/lib/participant-loader"
+import { getBenchmarkPhaseQuestions, getParticipantSeed, getQuestionsByIds, type Question } from "@/lib/participant-loader"
+import { api, submitPhase, waitForOutbox, type RoutingDecision } from "@/lib/api-client"
+import { getParticipantCondition } from "@/lib/conditions"
+import { usePhaseTimer, secondsUntilDeadline } from "@/lib/phase-timer"
+import { getStudyConfig, scorePoints, maxPoints as studyMaxPoints } from "@/lib/study-config"
 
 interface BenchmarkPhaseProps {
   onNext: () => void
   participantData: any
   updateParticipantData: (data: any) => void
+  resumeState?: any
+  saveProgress?: (state: any) => void
 }
 
 // Questions will be loaded dynamically from the backend/generator
 
-export default function BenchmarkPhase({ onNext, updateParticipantData }: BenchmarkPhaseProps) {
+export default function BenchmarkPhase({ onNext, updateParticipantData, resumeState, saveProgress }: BenchmarkPhaseProps) {
   const [questions, setQuestions] = useState<Question[]>([])
-  const [currentQuestion, setCurrentQuestion] = useState(0)
+  const [currentQuestion, setCurrentQuestion] = useState<number>(resumeState?.currentQuestion ?? 0)
   const [answers, setAnswers] = useState<{
     [key: number]: { selected: number[]; confirmed: boolean; correct: boolean; timeSpent?: number }
-  }>({})
-  const [starredQuestions, setStarredQuestions] = useState<Set<number>>(new Set())
-  const [showInstructions, setShowInstructions] = useState(true)
-  const [timeLeft, setTimeLeft] = useState(15 * 60) // 15 minutes
+  }>(resumeState?.answers || {})
+  const [starredQuestions, setStarredQuestions] = useState<Set<number>>(new Set(resumeState?.starredQuestions || []))
+  const [showInstructions, setShowInstructions] = useState(!resumeState?.started)
+  // Time limit (15 minutes by default) comes from the study configuration
+  const [timeLimit] = useState(() => getStudyConfig().timeLimits.benchmark)
+  const [timeLeft, setTimeLeft] = useState<number>(resumeState?.timeLeft ?? timeLimit)
   const [isComplete, setIsComplete] = useState(false)
+  // Server-issued deadline for this test (requested once the test starts)
+  const phaseTimer = usePhaseTimer("benchmark", !showInstructions && !isComplete)
   const timeTracker = useTimeTracker()
   const [showFinishWarning, setShowFinishWarning] = useState(false)
-  const [questionTimes, setQuestionTimes] = useState<{[key: number]: {startTime: number, endTime?: number, timeSpent?: number}}>({})
+  const [questionTimes, setQuestionTimes] = useState<{[key: number]: {startTime: number, endTime?: number, timeSpent?: number}}>(resumeState?.questionTimes || {})
   const [currentQuestionStartTime, setCurrentQuestionStartTime] = useState<number | null>(null)
   const [isLoadingQuestions, setIsLoadingQuestions] = useState(true)
   const [questionLoadError, setQuestionLoadError] = useState<string | null>(null)
   const [participantId, setParticipantId] = useState<string | null>(null)
-
-  // API base
-  const API_BASE = useMemo(() => process.env.NEXT_PUBLIC_API_BASE || "https://knapsack-expirement.onrender.com", [])
+  const [routing, setRouting] = useState<RoutingDecision | null>(null)
 
   // Load participant ID
   useEffect(() => {
@@ -52,13 +60,30 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
   useEffect(() => {
     if (!participantId) return
 
-    const loadQuestions = () => {
+    const loadQuestions = async () => {
       try {
         setIsLoadingQuestions(true)
         setQuestionLoadError(null)
+
+        // Adaptive routing picks the question mix from the Test 1 result (default mix if unavailable),
+        // so give the Test 1 submission the chance to arrive first; the backend keeps the first decision it serves
+        await waitForOutbox()
+        const routingDecision = await api.getRouting(participantId).catch((error) => {
+          console.error("[Benchmark] Failed to load routing, using default mix:", error)
+          return null
+        })
+        setRouting(routingDecision)
         
-        const generatedQuestions = getBenchmarkPhaseQuestions()
+        // Resumed sessions keep the exact question order they were shown
+        const generatedQuestions = resumeState?.questionIds?.length
+          ? getQuestionsByIds(resumeState.questionIds)
+          : getBenchmarkPhaseQuestions(getParticipantSeed(participantId), getParticipantCondition(), routingDecision?.enabled ? routingDecision.benchmark : undefined)
         setQuestions(generatedQuestions)
+
+        // Record the exact set and order shown so answers can be joined back to items
+        api.recordQuestionAssignments(participantId, "benchmark", generatedQuestions).catch((error) => {
+          console.error("[Benchmark] Failed to record question assignments:", error)
+        })
         
       } catch (error) {
         console.error("[Benchmark] Failed to load questions:", error)
@@ -82,22 +107,38 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
     }
   }, [showInstructions, isComplete, timeTracker])
 
-  // 15-minute countdown timer
+  // Countdown timer
   useEffect(() => {
     if (!showInstructions && timeLeft > 0 && !isComplete) {
       const timer = setInterval(() => {
         setTimeLeft((prev) => {
-          if (prev <= 1) {
+          // Count down to the server deadline once it is known
+          const next = phaseTimer ? secondsUntilDeadline(phaseTimer) : prev - 1
+          if (next <= 0) {
             completeTest()
             return 0
           }
-          return prev - 1
+          return next
         })
       }, 1000)
 
       return () => clearInterval(timer)
     }
-  }, [showInstructions, timeLeft, isComplete])
+  }, [showInstructions, timeLeft, isComplete, phaseTimer])
+
+  // Report in-progress state so an interrupted session resumes at the same point
+  useEffect(() => {
+    if (!questions.length || isComplete) return
+    saveProgress?.({
+      questionIds: questions.map((q) => q.id),
+      currentQuestion,
+      answers,
+      starredQuestions: Array.from(starredQuestions),
+      questionTimes,
+      timeLeft,
+      started: !showInstructions,
+    })
+  }, [questions, currentQuestion, answers, starredQuestions, questionTimes, timeLeft, showInstructions, isComplete, saveProgress])
 
   // Complete test function
   const completeTest = async () => {
@@ -108,8 +149,8 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
     const confirmedAnswers = Object.values(answers).filter((a) => a.confirmed).length
     const unansweredQuestions = questions.length - confirmedAnswers
     
-    const totalPoints = (correctAnswers * 2) + (unansweredQuestions * 1) + (incorrectAnswers * 0)
-    const maxPoints = questions.length * 2
+    const totalPoints = scorePoints(correctAnswers, unansweredQuestions, incorrectAnswers)
+    const maxPoints = studyMaxPoints(questions.length)
   
     const finalQuestionTimes = { ...questionTimes }
     if (currentQuestionStartTime !== null && questions[currentQuestion]) {
@@ -135,7 +176,7 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
         maxPoints,
         totalQuestions: questions.length,
         accuracy: correctAnswers / questions.length,
-        timeUsed: 15 * 60 - timeLeft,
+        timeUsed: timeLimit - timeLeft,
         answers: Object.entries(answers).map(([questionId, a]) => ({
           questionId: Number(questionId),
           selected: a.selected,
@@ -148,32 +189,25 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
           startTime: timing.startTime,
           endTime: timing.endTime,
           timeSpent: timing.timeSpent || 0
-        }))
+        })),
+        routing,
+        startToken: phaseTimer?.token
       }
     }
   
-    try {
-      const res = await fetch(`${API_BASE}/api/v1/ingest-phase`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      })
-  
-      if (!res.ok) throw new Error("Failed to submit benchmark test data")
-  
-      updateParticipantData({
-        benchmark: payload.data,
-        totalScore: totalPoints,
-      })
-      onNext()
-    } catch (err) {
-      console.error("[Benchmark] Submission failed:", err)
-      updateParticipantData({
-        benchmark: payload.data,
-        totalScore: totalPoints,
-      })
-      onNext()
+    // Queued in the outbox, so a failed first attempt keeps retrying in the background
+    if (participantId) {
+      const submitted = await submitPhase(participantId, "benchmark", payload.data)
+      if (!submitted) console.warn("[Benchmark] Submission pending, retrying in the background")
+    } else {
+      console.error("[Benchmark] No participantId, submission skipped")
     }
+
+    updateParticipantData({
+      benchmark: payload.data,
+      totalScore: totalPoints,
+    })
+    onNext()
   }
 
   // Track question timing when current question changes
@@ -310,7 +344,7 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
               </p>
               <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-500"></div>
-                <span>Generating 30 questions with controlled difficulty progression</span>
+                <span>Generating questions with controlled difficulty progression</span>
               </div>
               {questionLoadError && (
                 <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
@@ -343,8 +377,8 @@ export default function BenchmarkPhase({ onNext, updateParticipantData }: Benchm
 
               <div className="space-y-6 text-purple-700">
                 <p className="text-xl">
-                  You will complete a test with <strong>30 dynamically generated knapsack questions</strong>. You
-                  have exactly <strong>15 minutes</strong> to complete the test.
+                  You will complete a test with <strong>{questions.length} dynamically generated knapsack questions</strong>. You
+                  have exactly <strong>{Math.round(timeLimit / 60)} minutes</strong> to complete the test.
                 </p>
 
                 {questionLoadError && (
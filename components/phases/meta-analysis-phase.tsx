@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -8,6 +8,9 @@ import { Progress } from "@/components/ui/progress"
 import { Brain } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import KnapsackQuestion from "@/components/knapsack-question"
+import { api, submitPhase } from "@/lib/api-client"
+import { getMetaAnalysisQuestions, getParticipantSeed, type Question } from "@/lib/participant-loader"
+import { getStudyConfig, scorePoints, maxPoints as studyMaxPoints } from "@/lib/study-config"
 
 interface MetaAnalysisPhaseProps {
   onNext: () => void
@@ -15,171 +18,121 @@ interface MetaAnalysisPhaseProps {
   updateParticipantData: (data: any) => void
 }
 
-// Sample questions for difficulty classification
-const classificationQuestions = [
-  {
-    id: 1,
-    capacity: 15,
-    balls: [
-      { id: 1, weight: 8, reward: 24, color: "bg-red-500" },
-      { id: 2, weight: 6, reward: 18, color: "bg-blue-500" },
-      { id: 3, weight: 5, reward: 15, color: "bg-green-500" },
-    ],
-    correctDifficulty: "easy",
-    difficulty: "easy",
-  },
-  {
-    id: 2,
-    capacity: 25,
-    balls: [
-      { id: 1, weight: 15, reward: 45, color: "bg-purple-500" },
-      { id: 2, weight: 12, reward: 36, color: "bg-yellow-500" },
-      { id: 3, weight: 10, reward: 30, color: "bg-pink-500" },
-      { id: 4, weight: 8, reward: 24, color: "bg-indigo-500" },
-      { id: 5, weight: 6, reward: 18, color: "bg-orange-500" },
-    ],
-    correctDifficulty: "medium",
-    difficulty: "medium",
-  },
-  {
-    id: 3,
-    capacity: 40,
-    balls: [
-      { id: 1, weight: 25, reward: 75, color: "bg-red-500" },
-      { id: 2, weight: 20, reward: 60, color: "bg-blue-500" },
-      { id: 3, weight: 18, reward: 54, color: "bg-green-500" },
-      { id: 4, weight: 15, reward: 45, color: "bg-yellow-500" },
-      { id: 5, weight: 12, reward: 36, color: "bg-purple-500" },
-      { id: 6, weight: 10, reward: 30, color: "bg-pink-500" },
-    ],
-    correctDifficulty: "hard",
-    difficulty: "hard",
-  },
-  {
-    id: 4,
-    capacity: 12,
-    balls: [
-      { id: 1, weight: 6, reward: 18, color: "bg-teal-500" },
-      { id: 2, weight: 4, reward: 12, color: "bg-rose-500" },
-      { id: 3, weight: 3, reward: 9, color: "bg-cyan-500" },
-    ],
-    correctDifficulty: "easy",
-    difficulty: "easy",
-  },
-  {
-    id: 5,
-    capacity: 35,
-    balls: [
-      { id: 1, weight: 20, reward: 60, color: "bg-amber-500" },
-      { id: 2, weight: 18, reward: 54, color: "bg-emerald-500" },
-      { id: 3, weight: 15, reward: 45, color: "bg-violet-500" },
-      { id: 4, weight: 12, reward: 36, color: "bg-sky-500" },
-      { id: 5, weight: 10, reward: 30, color: "bg-stone-500" },
-    ],
-    correctDifficulty: "hard",
-    difficulty: "hard",
-  },
-  {
-    id: 6,
-    capacity: 20,
-    balls: [
-      { id: 1, weight: 10, reward: 30, color: "bg-red-500" },
-      { id: 2, weight: 8, reward: 24, color: "bg-blue-500" },
-      { id: 3, weight: 6, reward: 18, color: "bg-green-500" },
-      { id: 4, weight: 5, reward: 15, color: "bg-yellow-500" },
-    ],
-    correctDifficulty: "medium",
-    difficulty: "medium",
-  },
-  {
-    id: 7,
-    capacity: 18,
-    balls: [
-      { id: 1, weight: 9, reward: 27, color: "bg-purple-500" },
-      { id: 2, weight: 7, reward: 21, color: "bg-pink-500" },
-      { id: 3, weight: 6, reward: 18, color: "bg-indigo-500" },
-      { id: 4, weight: 5, reward: 15, color: "bg-orange-500" },
-    ],
-    correctDifficulty: "medium",
-    difficulty: "medium",
-  },
-  {
-    id: 8,
-    capacity: 10,
-    balls: [
-      { id: 1, weight: 5, reward: 15, color: "bg-teal-500" },
-      { id: 2, weight: 4, reward: 12, color: "bg-rose-500" },
-      { id: 3, weight: 3, reward: 9, color: "bg-cyan-500" },
-    ],
-    correctDifficulty: "easy",
-    difficulty: "easy",
-  },
-  {
-    id: 9,
-    capacity: 30,
-    balls: [
-      { id: 1, weight: 18, reward: 54, color: "bg-amber-500" },
-      { id: 2, weight: 15, reward: 45, color: "bg-emerald-500" },
-      { id: 3, weight: 12, reward: 36, color: "bg-violet-500" },
-      { id: 4, weight: 10, reward: 30, color: "bg-sky-500" },
-      { id: 5, weight: 8, reward: 24, color: "bg-stone-500" },
-    ],
-    correctDifficulty: "hard",
-    difficulty: "hard",
-  },
-  {
-    id: 10,
-    capacity: 22,
-    balls: [
-      { id: 1, weight: 12, reward: 36, color: "bg-red-500" },
-      { id: 2, weight: 10, reward: 30, color: "bg-blue-500" },
-      { id: 3, weight: 8, reward: 24, color: "bg-green-500" },
-      { id: 4, weight: 6, reward: 18, color: "bg-yellow-500" },
-    ],
-    correctDifficulty: "medium",
-    difficulty: "medium",
-  },
+type Difficulty = "easy" | "medium" | "hard"
+
+interface Classification {
+  classification: Difficulty
+  confidence: number
+  timeSpent: number
+}
+
+const CONFIDENCE_LEVELS = [
+  { value: 1, label: "Guessing" },
+  { value: 2, label: "Unsure" },
+  { value: 3, label: "Somewhat sure" },
+  { value: 4, label: "Confident" },
+  { value: 5, label: "Certain" },
 ]
 
-export default function MetaAnalysisPhase({ onNext, updateParticipantData }: MetaAnalysisPhaseProps) {
+// Questions the participant already solved, so labelling uses items they have not seen
+const solvedQuestionIds = (participantData: any): number[] =>
+  ["training2", "benchmark", "final"].reduce<number[]>(
+    (ids, key) => ids.concat((participantData?.[key]?.answers || []).map((a: any) => a.questionId)),
+    []
+  )
+
+const countCorrect = (questions: Question[], classifications: { [key: number]: Classification }) =>
+  questions.filter((q) => classifications[q.id]?.classification === q.difficulty).length
+
+export default function MetaAnalysisPhase({ onNext, participantData, updateParticipantData }: MetaAnalysisPhaseProps) {
+  const [questions, setQuestions] = useState<Question[]>([])
   const [currentQuestion, setCurrentQuestion] = useState(0)
-  const [classifications, setClassifications] = useState<{ [key: number]: string }>({})
+  const [classifications, setClassifications] = useState<{ [key: number]: Classification }>({})
+  const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty | null>(null)
+  const [selectedConfidence, setSelectedConfidence] = useState<number | null>(null)
   const [showInstructions, setShowInstructions] = useState(true)
   const [isComplete, setIsComplete] = useState(false)
+  const questionStartRef = useRef<number>(Date.now())
+  const phaseStartRef = useRef<number>(Date.now())
+  const [scoring] = useState(() => getStudyConfig().scoring)
+
+  // Draw the items once, from the bank, with their generator-assigned difficulty as the answer key
+  useEffect(() => {
+    const participantId = localStorage.getItem("participantId")
+    const seed = getParticipantSeed(participantId || "anonymous")
+    const drawn = getMetaAnalysisQuestions(seed, solvedQuestionIds(participantData))
+    setQuestions(drawn)
+
+    if (participantId) {
+      api.recordQuestionAssignments(participantId, "meta", drawn).catch((error) => {
+        console.error("[MetaAnalysis] Failed to record question assignments:", error)
+      })
+    }
+  }, [])
+
+  const startTask = () => {
+    phaseStartRef.current = Date.now()
+    questionStartRef.current = Date.now()
+    setShowInstructions(false)
+  }
+
+  const confirmClassification = () => {
+    if (!selectedDifficulty || selectedConfidence === null) return
 
-  const handleClassification = (difficulty: string) => {
-    const questionId = classificationQuestions[currentQuestion].id
-    setClassifications((prev) => ({
-      ...prev,
-      [questionId]: difficulty,
-    }))
+    const questionId = questions[currentQuestion].id
+    const updated = {
+      ...classifications,
+      [questionId]: {
+        classification: selectedDifficulty,
+        confidence: selectedConfidence,
+        timeSpent: Date.now() - questionStartRef.current,
+      },
+    }
+    setClassifications(updated)
+    setSelectedDifficulty(null)
+    setSelectedConfidence(null)
 
-    if (currentQuestion < classificationQuestions.length - 1) {
+    if (currentQuestion < questions.length - 1) {
       setCurrentQuestion(currentQuestion + 1)
+      questionStartRef.current = Date.now()
     } else {
-      completePhase()
+      completePhase(updated)
     }
   }
 
-  const completePhase = () => {
+  const completePhase = async (final: { [key: number]: Classification }) => {
     setIsComplete(true)
-    const correctClassifications = Object.entries(classifications).filter(([id, classification]) => {
-      const question = classificationQuestions.find((q) => q.id === Number.parseInt(id))
-      return question && question.correctDifficulty === classification
-    }).length
-
-    const totalPoints =
-      correctClassifications * 2 + (classificationQuestions.length - Object.keys(classifications).length) * 1
-
-    updateParticipantData({
-      metaAnalysis: {
-        completed: true,
-        correctClassifications,
-        totalQuestions: classificationQuestions.length,
-        totalPoints,
-        classifications,
-      },
-    })
+    const correctClassifications = countCorrect(questions, final)
+    const unlabelled = questions.filter((q) => !final[q.id]).length
+    const incorrect = questions.length - correctClassifications - unlabelled
+
+    const data = {
+      completed: true,
+      correctClassifications,
+      totalQuestions: questions.length,
+      totalPoints: scorePoints(correctClassifications, unlabelled, incorrect),
+      maxPoints: studyMaxPoints(questions.length),
+      accuracy: questions.length > 0 ? correctClassifications / questions.length : 0,
+      timeUsed: Math.round((Date.now() - phaseStartRef.current) / 1000),
+      classifications: questions.map((q) => ({
+        questionId: q.id,
+        classification: final[q.id]?.classification ?? null,
+        confidence: final[q.id]?.confidence ?? null,
+        correct: final[q.id]?.classification === q.difficulty,
+        timeSpent: final[q.id]?.timeSpent ?? 0,
+      })),
+    }
+
+    // Queued in the outbox, so a failed first attempt keeps retrying in the background
+    const participantId = localStorage.getItem("participantId")
+    if (participantId) {
+      const submitted = await submitPhase(participantId, "meta", data)
+      if (!submitted) console.warn("[MetaAnalysis] Submission pending, retrying in the background")
+    } else {
+      console.error("[MetaAnalysis] No participantId, submission skipped")
+    }
+
+    updateParticipantData({ metaAnalysis: data })
   }
 
   if (showInstructions) {
@@ -204,17 +157,16 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
                 </p>
 
                 <p>
-                  You will see <strong>10 knapsack questions</strong> and classify each one as Easy, Medium, or Hard
-                  based on your perception of their difficulty.
+                  You will see <strong>{questions.length} knapsack questions</strong> and classify each one as Easy,
+                  Medium, or Hard based on your perception of their difficulty, then say how confident you are.
                 </p>
 
                 <div className="grid md:grid-cols-3 gap-4">
                   <div className="bg-white p-4 rounded-lg">
                     <h4 className="font-semibold mb-2 text-green-700">🟢 Easy</h4>
                     <ul className="text-sm space-y-1">
-                      <li>• Few balls (3-4)</li>
-                      <li>• Small capacity</li>
                       <li>• Clear optimal choices</li>
+                      <li>• Few tempting alternatives</li>
                       <li>• Quick to solve</li>
                     </ul>
                   </div>
@@ -222,9 +174,8 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
                   <div className="bg-white p-4 rounded-lg">
                     <h4 className="font-semibold mb-2 text-yellow-700">🟡 Medium</h4>
                     <ul className="text-sm space-y-1">
-                      <li>• Moderate balls (4-5)</li>
-                      <li>• Medium capacity</li>
                       <li>• Some trade-offs</li>
+                      <li>• A few close alternatives</li>
                       <li>• Requires thinking</li>
                     </ul>
                   </div>
@@ -232,9 +183,8 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
                   <div className="bg-white p-4 rounded-lg">
                     <h4 className="font-semibold mb-2 text-red-700">🔴 Hard</h4>
                     <ul className="text-sm space-y-1">
-                      <li>• Many balls (5-6)</li>
-                      <li>• Large capacity</li>
                       <li>• Complex trade-offs</li>
+                      <li>• Greedy choices mislead</li>
                       <li>• Time-consuming</li>
                     </ul>
                   </div>
@@ -242,7 +192,8 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
 
                 <div className="bg-green-100 border border-green-300 rounded-lg p-4">
                   <p className="text-green-800 font-medium">
-                    🎯 <strong>Scoring:</strong> 2 points for correct classification, 1 point for no answer, 0 points
+                    🎯 <strong>Scoring:</strong> {scoring.correct} points for correct classification,{" "}
+                    {scoring.unanswered} point{scoring.unanswered === 1 ? "" : "s"} for no answer, {scoring.incorrect} points
                     for incorrect.
                   </p>
                 </div>
@@ -251,7 +202,8 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
 
             <div className="text-center">
               <Button
-                onClick={() => setShowInstructions(false)}
+                onClick={startTask}
+                disabled={questions.length === 0}
                 size="lg"
                 className="bg-indigo-600 hover:bg-indigo-700"
               >
@@ -266,13 +218,9 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
   }
 
   if (isComplete) {
-    const correctClassifications = Object.entries(classifications).filter(([id, classification]) => {
-      const question = classificationQuestions.find((q) => q.id === Number.parseInt(id))
-      return question && question.correctDifficulty === classification
-    }).length
-
-    const totalPoints =
-      correctClassifications * 2 + (classificationQuestions.length - Object.keys(classifications).length) * 1
+    const correctClassifications = countCorrect(questions, classifications)
+    const unlabelled = questions.filter((q) => !classifications[q.id]).length
+    const totalPoints = scorePoints(correctClassifications, unlabelled, questions.length - correctClassifications - unlabelled)
 
     return (
       <div className="max-w-7xl mx-auto">
@@ -296,7 +244,7 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
                   </div>
 
                   <div className="bg-white p-4 rounded-lg shadow-sm">
-                    <div className="text-3xl font-bold text-blue-600">{classificationQuestions.length}</div>
+                    <div className="text-3xl font-bold text-blue-600">{questions.length}</div>
                     <div className="text-sm text-gray-600">Total Questions</div>
                   </div>
 
@@ -310,17 +258,17 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
                   <p className="text-indigo-800 font-medium">
                     You correctly classified{" "}
                     <strong>
-                      {correctClassifications} out of {classificationQuestions.length}
+                      {correctClassifications} out of {questions.length}
                     </strong>{" "}
                     questions!
                   </p>
                   <p className="text-indigo-700 text-sm mt-1">
-                    Accuracy: {((correctClassifications / classificationQuestions.length) * 100).toFixed(1)}%
+                    Accuracy: {((correctClassifications / questions.length) * 100).toFixed(1)}%
                   </p>
                 </div>
 
                 <Button onClick={onNext} size="lg">
-                  View Final Results
+                  Continue
                 </Button>
               </div>
             </div>
@@ -330,8 +278,8 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
     )
   }
 
-  const question = classificationQuestions[currentQuestion]
-  const progress = ((currentQuestion + 1) / classificationQuestions.length) * 100
+  const question = questions[currentQuestion]
+  const progress = ((currentQuestion + 1) / questions.length) * 100
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
@@ -340,7 +288,7 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
         <CardContent className="p-4">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium">
-              Question {currentQuestion + 1} of {classificationQuestions.length}
+              Question {currentQuestion + 1} of {questions.length}
             </span>
             <Badge variant="outline">No Time Limit</Badge>
           </div>
@@ -375,32 +323,59 @@ export default function MetaAnalysisPhase({ onNext, updateParticipantData }: Met
 
           <div className="grid md:grid-cols-3 gap-4">
             <Button
-              onClick={() => handleClassification("easy")}
+              onClick={() => setSelectedDifficulty("easy")}
               size="lg"
-              className="h-20 bg-green-600 hover:bg-green-700 text-white flex flex-col"
+              className={`h-20 bg-green-600 hover:bg-green-700 text-white flex flex-col ${selectedDifficulty === "easy" ? "ring-4 ring-green-300" : selectedDifficulty ? "opacity-60" : ""}`}
             >
               <span className="text-2xl mb-1">🟢</span>
               <span className="text-lg font-bold">Easy</span>
             </Button>
 
             <Button
-              onClick={() => handleClassification("medium")}
+              onClick={() => setSelectedDifficulty("medium")}
               size="lg"
-              className="h-20 bg-yellow-600 hover:bg-yellow-700 text-white flex flex-col"
+              className={`h-20 bg-yellow-600 hover:bg-yellow-700 text-white flex flex-col ${selectedDifficulty === "medium" ? "ring-4 ring-yellow-300" : selectedDifficulty ? "opacity-60" : ""}`}
             >
               <span className="text-2xl mb-1">🟡</span>
               <span className="text-lg font-bold">Medium</span>
             </Button>
 
             <Button
-              onClick={() => handleClassification("hard")}
+              onClick={() => setSelectedDifficulty("hard")}
               size="lg"
-              className="h-20 bg-red-600 hover:bg-red-700 text-white flex flex-col"
+              className={`h-20 bg-red-600 hover:bg-red-700 text-white flex flex-col ${selectedDifficulty === "hard" ? "ring-4 ring-red-300" : selectedDifficulty ? "opacity-60" : ""}`}
             >
               <span className="text-2xl mb-1">🔴</span>
               <span className="text-lg font-bold">Hard</span>
             </Button>
           </div>
+
+          <h3 className="text-lg font-semibold text-center mt-8 mb-4">How confident are you?</h3>
+
+          <div className="grid grid-cols-5 gap-2">
+            {CONFIDENCE_LEVELS.map((level) => (
+              <Button
+                key={level.value}
+                variant={selectedConfidence === level.value ? "default" : "outline"}
+                onClick={() => setSelectedConfidence(level.value)}
+                className="h-16 flex flex-col"
+              >
+                <span className="text-lg font-bold">{level.value}</span>
+                <span className="text-xs">{level.label}</span>
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-center mt-8">
+            <Button
+              onClick={confirmClassification}
+              disabled={!selectedDifficulty || selectedConfidence === null}
+              size="lg"
+              className="bg-indigo-600 hover:bg-indigo-700"
+            >
+              {currentQuestion < questions.length - 1 ? "Next Question" : "Finish Classification"}
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -9,38 +9,45 @@ import { Progress } from "@/components/ui/progress"
 import { Clock, Target, Star, ChevronLeft, ChevronRight, Zap } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import KnapsackQuestion from "@/components/knapsack-question"
-import { getPredictionPhaseQuestions, type Question } from "@/lib/participant-loader"
-import { useMemo } from "react"
+import { getPredictionPhaseQuestions, getParticipantSeed, getQuestionsByIds, type Question } from "@/lib/participant-loader"
+import { api, submitPhase, type RoutingDecision } from "@/lib/api-client"
+import { getParticipantCondition } from "@/lib/conditions"
+import { usePhaseTimer, secondsUntilDeadline } from "@/lib/phase-timer"
+import { getStudyConfig, scorePoints, maxPoints as studyMaxPoints } from "@/lib/study-config"
 
 interface PredictionPhaseProps {
   onNext: () => void
   participantData: any
   updateParticipantData: (data: any) => void
+  resumeState?: any
+  saveProgress?: (state: any) => void
 }
 
 // Questions will be loaded dynamically from the backend/generator
 
-export default function PredictionPhase({ onNext, updateParticipantData }: PredictionPhaseProps) {
+export default function PredictionPhase({ onNext, updateParticipantData, resumeState, saveProgress }: PredictionPhaseProps) {
   const [questions, setQuestions] = useState<Question[]>([])
-  const [currentQuestion, setCurrentQuestion] = useState(0)
+  const [currentQuestion, setCurrentQuestion] = useState<number>(resumeState?.currentQuestion ?? 0)
   const [answers, setAnswers] = useState<{
     [key: number]: { selected: number[]; confirmed: boolean; correct: boolean; timeSpent?: number }
-  }>({})
-  const [starredQuestions, setStarredQuestions] = useState<Set<number>>(new Set())
-  const [showInstructions, setShowInstructions] = useState(true)
-  const [timeLeft, setTimeLeft] = useState(20 * 60) // 20 minutes
+  }>(resumeState?.answers || {})
+  const [starredQuestions, setStarredQuestions] = useState<Set<number>>(new Set(resumeState?.starredQuestions || []))
+  const [showInstructions, setShowInstructions] = useState(!resumeState?.started)
+  // Time limit (20 minutes by default) comes from the study configuration
+  const [timeLimit] = useState(() => getStudyConfig().timeLimits.final)
+  const [timeLeft, setTimeLeft] = useState<number>(resumeState?.timeLeft ?? timeLimit)
   const [isComplete, setIsComplete] = useState(false)
+  // Server-issued deadline for this test (requested once the test starts)
+  const phaseTimer = usePhaseTimer("final", !showInstructions && !isComplete)
   const [showFinishWarning, setShowFinishWarning] = useState(false)
   const [isLoadingQuestions, setIsLoadingQuestions] = useState(true)
   const [questionLoadError, setQuestionLoadError] = useState<string | null>(null)
   const [participantId, setParticipantId] = useState<string | null>(null)
+  const [routing, setRouting] = useState<RoutingDecision | null>(null)
   const timeTracker = useTimeTracker()
-  const [questionTimes, setQuestionTimes] = useState<{[key: number]: {startTime: number, endTime?: number, timeSpent?: number}}>({})
+  const [questionTimes, setQuestionTimes] = useState<{[key: number]: {startTime: number, endTime?: number, timeSpent?: number}}>(resumeState?.questionTimes || {})
   const [currentQuestionStartTime, setCurrentQuestionStartTime] = useState<number | null>(null)
 
-  // API base (configure in .env.local as NEXT_PUBLIC_API_BASE=http://localhost:8787)
-  const API_BASE = useMemo(() => process.env.NEXT_PUBLIC_API_BASE || "https://knapsack-expirement.onrender.com", [])
-
   // Start section timing when phase begins
   useEffect(() => {
     if (!showInstructions && questions.length > 0) {
@@ -120,13 +127,28 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
   useEffect(() => {
     if (!participantId) return
 
-    const loadQuestions = () => {
+    const loadQuestions = async () => {
       try {
         setIsLoadingQuestions(true)
         setQuestionLoadError(null)
+
+        // Adaptive routing picks the question mix from the Test 1 result (default mix if unavailable)
+        const routingDecision = await api.getRouting(participantId).catch((error) => {
+          console.error("[Final Test] Failed to load routing, using default mix:", error)
+          return null
+        })
+        setRouting(routingDecision)
         
-        const generatedQuestions = getPredictionPhaseQuestions()
+        // Resumed sessions keep the exact question order they were shown
+        const generatedQuestions = resumeState?.questionIds?.length
+          ? getQuestionsByIds(resumeState.questionIds)
+          : getPredictionPhaseQuestions(getParticipantSeed(participantId), getParticipantCondition(), routingDecision?.enabled ? routingDecision.final : undefined)
         setQuestions(generatedQuestions)
+
+        // Record the exact set and order shown so answers can be joined back to items
+        api.recordQuestionAssignments(participantId, "final", generatedQuestions).catch((error) => {
+          console.error("[Final Test] Failed to record question assignments:", error)
+        })
         
       } catch (error) {
         console.error("[Final Test] Failed to load questions:", error)
@@ -139,22 +161,38 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
     loadQuestions()
   }, [participantId])
 
-  // 20-minute countdown timer
+  // Countdown timer
   useEffect(() => {
     if (!showInstructions && timeLeft > 0 && !isComplete) {
       const timer = setInterval(() => {
         setTimeLeft((prev) => {
-          if (prev <= 1) {
+          // Count down to the server deadline once it is known
+          const next = phaseTimer ? secondsUntilDeadline(phaseTimer) : prev - 1
+          if (next <= 0) {
             completeTest()
             return 0
           }
-          return prev - 1
+          return next
         })
       }, 1000)
 
       return () => clearInterval(timer)
     }
-  }, [showInstructions, timeLeft, isComplete])
+  }, [showInstructions, timeLeft, isComplete, phaseTimer])
+
+  // Report in-progress state so an interrupted session resumes at the same point
+  useEffect(() => {
+    if (!questions.length || isComplete) return
+    saveProgress?.({
+      questionIds: questions.map((q) => q.id),
+      currentQuestion,
+      answers,
+      starredQuestions: Array.from(starredQuestions),
+      questionTimes,
+      timeLeft,
+      started: !showInstructions,
+    })
+  }, [questions, currentQuestion, answers, starredQuestions, questionTimes, timeLeft, showInstructions, isComplete, saveProgress])
 
   const handleAnswer = (selectedBalls: number[], isCorrect: boolean) => {
     const questionId = questions[currentQuestion].id
@@ -190,8 +228,8 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
     const unansweredQuestions = questions.length - confirmedAnswers
     
     // Calculate points: 2 points per correct, 1 point per unanswered, 0 per incorrect
-    const totalPoints = (correctAnswers * 2) + (unansweredQuestions * 1) + (incorrectAnswers * 0)
-    const maxPoints = questions.length * 2 // 30 questions × 2 = 60 max points
+    const totalPoints = scorePoints(correctAnswers, unansweredQuestions, incorrectAnswers)
+    const maxPoints = studyMaxPoints(questions.length)
   
     const payload = {
       participantId,
@@ -204,7 +242,7 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
         totalPoints,
         maxPoints,
         totalQuestions: questions.length,
-        timeUsed: 20 * 60 - timeLeft,
+        timeUsed: timeLimit - timeLeft,
         answers: Object.entries(answers).map(([questionId, value]) => ({
           questionId: Number(questionId),
           selected: value.selected,
@@ -217,28 +255,26 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
           startTime: timing.startTime,
           endTime: timing.endTime,
           timeSpent: timing.timeSpent || 0
-        }))
+        })),
+        routing,
+        startToken: phaseTimer?.token
       },
     }
   
-    try {
-      const res = await fetch(`${API_BASE}/api/v1/ingest-phase`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      })
-  
-      if (!res.ok) throw new Error("Failed to submit final test")
-  
-      console.log("[Final Test] Submission successful ✅")
-      updateParticipantData({ final: payload.data })
-      onNext()
-    } catch (err) {
-      console.error("[Final Test] Submission failed ❌", err)
-      alert("There was an error submitting your final test responses.")
+    // Queued in the outbox, so a failed first attempt keeps retrying in the background
+    if (participantId) {
+      const submitted = await submitPhase(participantId, "final", payload.data)
+      if (submitted) {
+        console.log("[Final Test] Submission successful ✅")
+      } else {
+        console.warn("[Final Test] Submission pending, retrying in the background")
+      }
+    } else {
+      console.error("[Final Test] No participantId, submission skipped")
     }
+
+    updateParticipantData({ final: payload.data })
+    onNext()
   }
   
 
@@ -307,7 +343,7 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
               </p>
               <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-500"></div>
-                <span>Generating 30 questions with academic rigor</span>
+                <span>Generating questions with academic rigor</span>
               </div>
               {questionLoadError && (
                 <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
@@ -399,8 +435,8 @@ export default function PredictionPhase({ onNext, updateParticipantData }: Predi
     const incorrectAnswers = Object.values(answers).filter((a) => a.confirmed && !a.correct).length
     
     // Calculate points: 2 points per correct, 1 point per unanswered, 0 per incorrect
-    const totalPoints = (correctAnswers * 2) + (unansweredQuestions * 1) + (incorrectAnswers * 0)
-    const maxPoints = questions.length * 2 // 60 max points
+    const totalPoints = scorePoints(correctAnswers, unansweredQuestions, incorrectAnswers)
+    const maxPoints = studyMaxPoints(questions.length)
 
     return (
       <div className="max-w-7xl mx-auto">
@@ -0,0 +1,88 @@
+"use client"
+
+import { lazy, type ComponentType, type LazyExoticComponent } from "react"
+import { Gift, Trophy, Clock, Target, Brain, BarChart3, type LucideIcon } from "lucide-react"
+import type { PhaseId } from "@/lib/phase-pipeline"
+
+/**
+ * Phase registry
+ * Every phase a study pipeline can include (see lib/phase-pipeline.ts), with
+ * its progress-bar label and icon and any props it needs from the page.
+ * Components are lazy loaded for code splitting.
+ */
+
+// Page state a phase may need beyond the common props
+export interface PhaseContext {
+  participantData: any
+  // Waits for pending submissions, then redirects to Prolific; resolves false if they could not be sent
+  completeStudy: () => Promise<boolean>
+}
+
+export interface PhaseDefinition {
+  name: string
+  icon: LucideIcon
+  color: string
+  component: LazyExoticComponent<ComponentType<any>>
+  props?: (context: PhaseContext) => Record<string, any>
+}
+
+export const PHASE_REGISTRY: Record<PhaseId, PhaseDefinition> = {
+  intro: {
+    name: "Welcome",
+    icon: Gift,
+    color: "bg-blue-500",
+    component: lazy(() => import("./intro-phase")),
+  },
+  tutorial: {
+    name: "Tutorial",
+    icon: Brain,
+    color: "bg-green-500",
+    component: lazy(() => import("./tutorial-phase")),
+  },
+  training1: {
+    name: "Practice",
+    icon: Target,
+    color: "bg-yellow-500",
+    component: lazy(() => import("./training-phase-1")),
+  },
+  training2: {
+    name: "Test 1",
+    icon: Clock,
+    color: "bg-orange-500",
+    component: lazy(() => import("./training-phase-2")),
+  },
+  benchmark: {
+    name: "Test 2",
+    icon: Trophy,
+    color: "bg-purple-500",
+    component: lazy(() => import("./benchmark-phase")),
+  },
+  strategy: {
+    name: "Strategy",
+    icon: Brain,
+    color: "bg-indigo-500",
+    component: lazy(() => import("./strategy-phase")),
+    props: ({ participantData }) => ({ benchmarkData: participantData.benchmark || {} }),
+  },
+  meta: {
+    name: "Analysis",
+    icon: BarChart3,
+    color: "bg-teal-500",
+    component: lazy(() => import("./meta-analysis-phase")),
+  },
+  prediction: {
+    name: "Test 3",
+    icon: Target,
+    color: "bg-red-500",
+    component: lazy(() => import("./prediction-phase")),
+  },
+  results: {
+    name: "Results",
+    icon: Gift,
+    color: "bg-emerald-500",
+    component: lazy(() => import("./results-phase")),
+    props: ({ completeStudy }) => ({ onComplete: completeStudy }),
+  },
+}
+
+export const isRegisteredPhase = (id: string): id is PhaseId => id in PHASE_REGISTRY
@@ -5,17 +5,24 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
-import { Trophy, Gift, Star, BarChart3, Target, Sparkles } from "lucide-react"
+import { Trophy, Gift, Star, BarChart3, Target, Sparkles, AlertTriangle } from "lucide-react"
 import { motion } from "framer-motion"
+import { waitForOutbox, pendingSubmissionCount } from "@/lib/api-client"
 
 interface ResultsPhaseProps {
   onNext?: () => void
   participantData: any
   updateParticipantData: (data: any) => void
+  // Waits for pending submissions, then redirects to Prolific; resolves false if they could
+  // not be sent or the backend could not record the completion
+  onComplete: () => Promise<boolean>
 }
 
-export default function ResultsPhase({ onNext, participantData }: ResultsPhaseProps) {
+export default function ResultsPhase({ onNext, participantData, onComplete }: ResultsPhaseProps) {
   const [hasMarkedComplete, setHasMarkedComplete] = useState(false)
+  const [completing, setCompleting] = useState(false)
+  const [pendingSubmissions, setPendingSubmissions] = useState(0)
+  const [completionFailed, setCompletionFailed] = useState(false)
 
   // Auto-complete the study when Results phase loads
   useEffect(() => {
@@ -28,6 +35,9 @@ export default function ResultsPhase({ onNext, participantData }: ResultsPhasePr
           const participantId = localStorage.getItem('participantId')
           const prolificPid = localStorage.getItem('prolificPid')
           
+          // Don't mark the participant complete before their phase data has arrived
+          await waitForOutbox()
+
           if (participantId && prolificPid) {
             const API_BASE = process.env.NODE_ENV === 'production' 
               ? "https://knapsack-expirement.onrender.com"
@@ -80,6 +90,17 @@ export default function ResultsPhase({ onNext, participantData }: ResultsPhasePr
   const maxTotalPoints = (training2.maxPoints || 20) + (testForOverall.maxPoints || 60)
   const overallPercentage = maxTotalPoints > 0 ? (totalPoints / maxTotalPoints) * 100 : 0
 
+  const handleComplete = async () => {
+    setCompleting(true)
+    setPendingSubmissions(0)
+    setCompletionFailed(false)
+    const completed = await onComplete()
+    if (!completed) {
+      setPendingSubmissions(pendingSubmissionCount())
+      setCompletionFailed(true)
+      setCompleting(false)
+    }
+  }
 
 
   return (
@@ -311,22 +332,46 @@ export default function ResultsPhase({ onNext, participantData }: ResultsPhasePr
             </div>
           </div>
 
+          {completionFailed && pendingSubmissions === 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+              <div className="text-sm text-red-800">
+                <p className="font-semibold">We could not confirm your completion with our server</p>
+                <p>
+                  Please check your internet connection and click the button below to try again. Do not close this
+                  page, or you will not receive your completion code.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {pendingSubmissions > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+              <div className="text-sm text-red-800">
+                <p className="font-semibold">Some of your responses have not reached our server yet</p>
+                <p>
+                  {pendingSubmissions} submission{pendingSubmissions === 1 ? " is" : "s are"} still pending. Please check
+                  your internet connection and click the button below to try again. Do not close this page, or your
+                  responses may be lost.
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="text-center pt-6">
             <Button 
-              onClick={() => {
-                // Clear localStorage to prevent re-access
-                localStorage.removeItem('participantId')
-                localStorage.removeItem('prolificPid')
-                
-                // Redirect to Prolific completion page
-                const completionUrl = `https://app.prolific.co/submissions/complete?cc=KNAPSACK2024`
-                window.location.href = completionUrl
-              }}
+              onClick={handleComplete}
+              disabled={completing}
               size="lg"
               className="bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white px-8 py-3 rounded-xl font-semibold shadow-lg transition-all duration-200"
             >
               <Gift className="h-5 w-5 mr-2" />
-              Complete Study & Return to Prolific
+              {completing
+                ? "Saving your responses..."
+                : completionFailed
+                  ? "Retry & Return to Prolific"
+                  : "Complete Study & Return to Prolific"}
             </Button>
           </div>
 
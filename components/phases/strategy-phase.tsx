@@ -1,7 +1,8 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import { useState, useEffect } from "react"
 import { useTimeTracker } from "@/lib/time-tracker"
+import { submitPhase } from "@/lib/api-client"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
@@ -12,6 +13,8 @@ interface StrategyPhaseProps {
   onNext: () => void
   updateParticipantData: (data: any) => void
   benchmarkData: any
+  resumeState?: any
+  saveProgress?: (state: any) => void
 }
 
 const strategyQuestions = [
@@ -42,18 +45,15 @@ const strategyQuestions = [
   }
 ]
 
-export default function StrategyPhase({ onNext, updateParticipantData, benchmarkData }: StrategyPhaseProps) {
-  const [currentQuestion, setCurrentQuestion] = useState(0)
-  const [answers, setAnswers] = useState<{ [key: number]: { text: string; timeSpent?: number } }>({})
-  const [showInstructions, setShowInstructions] = useState(true)
+export default function StrategyPhase({ onNext, updateParticipantData, benchmarkData, resumeState, saveProgress }: StrategyPhaseProps) {
+  const [currentQuestion, setCurrentQuestion] = useState<number>(resumeState?.currentQuestion ?? 0)
+  const [answers, setAnswers] = useState<{ [key: number]: { text: string; timeSpent?: number } }>(resumeState?.answers || {})
+  const [showInstructions, setShowInstructions] = useState(!resumeState?.started)
   const [isComplete, setIsComplete] = useState(false)
   const timeTracker = useTimeTracker()
   const [questionTimes, setQuestionTimes] = useState<{[key: number]: {startTime: number, endTime?: number, timeSpent?: number}}>({})
   const [currentQuestionStartTime, setCurrentQuestionStartTime] = useState<number | null>(null)
 
-  // API base (configure in .env.local as NEXT_PUBLIC_API_BASE=http://localhost:8787)
-  const API_BASE = useMemo(() => process.env.NEXT_PUBLIC_API_BASE || "https://knapsack-expirement.onrender.com", [])
-
   // Start section timing when phase begins
   useEffect(() => {
     if (!showInstructions) {
@@ -99,6 +99,16 @@ export default function StrategyPhase({ onNext, updateParticipantData, benchmark
     }
   }, [currentQuestion, showInstructions, timeTracker])
 
+  // Report in-progress answers so an interrupted session keeps the text written so far
+  useEffect(() => {
+    if (isComplete) return
+    saveProgress?.({
+      currentQuestion,
+      answers,
+      started: !showInstructions,
+    })
+  }, [currentQuestion, answers, showInstructions, isComplete, saveProgress])
+
   const handleAnswerChange = (questionId: number, answer: string) => {
     setAnswers(prev => ({
       ...prev,
@@ -194,22 +204,12 @@ export default function StrategyPhase({ onNext, updateParticipantData, benchmark
       }
     }
   
-    try {
-      const res = await fetch(`${API_BASE}/api/v1/ingest-phase`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload)
-      })
-  
-      if (!res.ok) throw new Error("Failed to submit strategy phase")
-  
-      updateParticipantData({ strategy: payload.data })
-      onNext()
-    } catch (err) {
-      console.error("[Strategy] Submission failed:", err)
-      updateParticipantData({ strategy: payload.data })
-      onNext()
-    }
+    // Queued in the outbox, so a failed first attempt keeps retrying in the background
+    const submitted = await submitPhase(participantId, "strategy", payload.data)
+    if (!submitted) console.warn("[Strategy] Submission pending, retrying in the background")
+
+    updateParticipantData({ strategy: payload.data })
+    onNext()
   }
   
 
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -8,6 +8,7 @@ import { Progress } from "@/components/ui/progress"
 import { Target, CheckCircle, XCircle, Zap, ArrowRight } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import KnapsackQuestion from "@/components/knapsack-question"
+import { submitPhase } from "@/lib/api-client"
 import { getTrainingPhase1Questions, getPracticeQuestions, type Question } from "@/lib/participant-loader"
 
 interface TrainingPhase1Props {
@@ -82,9 +83,6 @@ export default function TrainingPhase1({ onNext, updateParticipantData }: Traini
     loadQuestions()
   }, [pid])
 
-  // API base (configure in .env.local as NEXT_PUBLIC_API_BASE=http://localhost:8787)
-  const API_BASE = useMemo(() => process.env.NEXT_PUBLIC_API_BASE || "https://knapsack-expirement.onrender.com", [])
-
   const handleAnswer = (selectedBalls: number[], isCorrect: boolean) => {
     const newAnswer = {
       questionId: allQuestions[currentQuestion].id,
@@ -157,38 +155,12 @@ export default function TrainingPhase1({ onNext, updateParticipantData }: Traini
       },
     }
 
-    try {
-      // Add timeout to prevent hanging
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 5000) // 5 second timeout
-
-      const res = await fetch(`${API_BASE}/api/v1/ingest-phase`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      const text = await res.text()
-      let json: any = null
-      try { json = JSON.parse(text) } catch { /* server might not return JSON on errors */ }
+    // Queued in the outbox, so a failed first attempt keeps retrying in the background
+    const submitted = await submitPhase(pid, "practice", payload.data)
+    if (!submitted) console.warn("[Practice] Submission pending, retrying in the background")
 
-      console.log("[Practice] ingest-phase status:", res.status, "body:", text)
-
-      if (!res.ok) {
-        throw new Error(json?.error || `Failed to submit practice data (status ${res.status})`)
-      }
-
-      updateParticipantData({ training1: payload.data })
-      onNext()
-    } catch (err) {
-      console.error("[Practice] Failed to submit:", err)
-      // Proceed with local data if backend unavailable
-      updateParticipantData({ training1: payload.data })
-      onNext()
-    }
+    updateParticipantData({ training1: payload.data })
+    onNext()
   }
 
   // UI
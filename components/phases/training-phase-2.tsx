@@ -9,159 +9,37 @@ import { Progress } from "@/components/ui/progress"
 import { Clock, Zap, Trophy, AlertTriangle } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import KnapsackQuestion from "@/components/knapsack-question"
+import { getSkillTestQuestions, getParticipantSeed, getQuestionsByIds, type Question } from "@/lib/participant-loader"
+import { api, submitPhase } from "@/lib/api-client"
+import { usePhaseTimer, secondsUntilDeadline } from "@/lib/phase-timer"
+import { getStudyConfig, scorePoints, maxPoints as studyMaxPoints } from "@/lib/study-config"
 
 interface TrainingPhase2Props {
   onNext: () => void
   participantData: any
   updateParticipantData: (data: any) => void
+  resumeState?: any
+  saveProgress?: (state: any) => void
 }
 
-const skillsQuestions = [
-  // Easy questions (1-3)
-  {
-    id: 1,
-    capacity: 10,
-    balls: [
-      { id: 1, weight: 6, reward: 18, color: "bg-red-500" },
-      { id: 2, weight: 4, reward: 12, color: "bg-blue-500" },
-      { id: 3, weight: 3, reward: 9, color: "bg-green-500" },
-    ],
-    solution: [1, 2],
-    difficulty: "easy",
-  },
-  {
-    id: 2,
-    capacity: 12,
-    balls: [
-      { id: 1, weight: 5, reward: 15, color: "bg-purple-500" },
-      { id: 2, weight: 7, reward: 21, color: "bg-yellow-500" },
-      { id: 3, weight: 4, reward: 12, color: "bg-pink-500" },
-      { id: 4, weight: 3, reward: 9, color: "bg-indigo-500" },
-    ],
-    solution: [2, 3],
-    difficulty: "easy",
-  },
-  {
-    id: 3,
-    capacity: 15,
-    balls: [
-      { id: 1, weight: 8, reward: 24, color: "bg-red-500" },
-      { id: 2, weight: 6, reward: 18, color: "bg-blue-500" },
-      { id: 3, weight: 5, reward: 15, color: "bg-green-500" },
-      { id: 4, weight: 4, reward: 12, color: "bg-yellow-500" },
-    ],
-    solution: [1, 2],
-    difficulty: "easy",
-  },
-  // Medium questions (4-7)
-  {
-    id: 4,
-    capacity: 18,
-    balls: [
-      { id: 1, weight: 9, reward: 27, color: "bg-orange-500" },
-      { id: 2, weight: 7, reward: 21, color: "bg-teal-500" },
-      { id: 3, weight: 6, reward: 18, color: "bg-rose-500" },
-      { id: 4, weight: 5, reward: 15, color: "bg-cyan-500" },
-      { id: 5, weight: 4, reward: 12, color: "bg-lime-500" },
-    ],
-    solution: [1, 2],
-    difficulty: "medium",
-  },
-  {
-    id: 5,
-    capacity: 20,
-    balls: [
-      { id: 1, weight: 10, reward: 30, color: "bg-red-500" },
-      { id: 2, weight: 8, reward: 24, color: "bg-blue-500" },
-      { id: 3, weight: 6, reward: 18, color: "bg-green-500" },
-      { id: 4, weight: 5, reward: 15, color: "bg-yellow-500" },
-      { id: 5, weight: 4, reward: 12, color: "bg-purple-500" },
-    ],
-    solution: [1, 2],
-    difficulty: "medium",
-  },
-  {
-    id: 6,
-    capacity: 22,
-    balls: [
-      { id: 1, weight: 12, reward: 36, color: "bg-indigo-500" },
-      { id: 2, weight: 10, reward: 30, color: "bg-pink-500" },
-      { id: 3, weight: 8, reward: 24, color: "bg-orange-500" },
-      { id: 4, weight: 6, reward: 18, color: "bg-teal-500" },
-      { id: 5, weight: 5, reward: 15, color: "bg-rose-500" },
-    ],
-    solution: [1, 2],
-    difficulty: "medium",
-  },
-  {
-    id: 7,
-    capacity: 25,
-    balls: [
-      { id: 1, weight: 15, reward: 45, color: "bg-cyan-500" },
-      { id: 2, weight: 12, reward: 36, color: "bg-lime-500" },
-      { id: 3, weight: 10, reward: 30, color: "bg-amber-500" },
-      { id: 4, weight: 8, reward: 24, color: "bg-emerald-500" },
-      { id: 5, weight: 6, reward: 18, color: "bg-violet-500" },
-    ],
-    solution: [1, 4],
-    difficulty: "medium",
-  },
-  // Hard questions (8-10)
-  {
-    id: 8,
-    capacity: 30,
-    balls: [
-      { id: 1, weight: 18, reward: 54, color: "bg-red-500" },
-      { id: 2, weight: 15, reward: 45, color: "bg-blue-500" },
-      { id: 3, weight: 12, reward: 36, color: "bg-green-500" },
-      { id: 4, weight: 10, reward: 30, color: "bg-yellow-500" },
-      { id: 5, weight: 8, reward: 24, color: "bg-purple-500" },
-      { id: 6, weight: 6, reward: 18, color: "bg-pink-500" },
-    ],
-    solution: [1, 3],
-    difficulty: "hard",
-  },
-  {
-    id: 9,
-    capacity: 35,
-    balls: [
-      { id: 1, weight: 20, reward: 60, color: "bg-indigo-500" },
-      { id: 2, weight: 18, reward: 54, color: "bg-orange-500" },
-      { id: 3, weight: 15, reward: 45, color: "bg-teal-500" },
-      { id: 4, weight: 12, reward: 36, color: "bg-rose-500" },
-      { id: 5, weight: 10, reward: 30, color: "bg-cyan-500" },
-      { id: 6, weight: 8, reward: 24, color: "bg-lime-500" },
-    ],
-    solution: [1, 3],
-    difficulty: "hard",
-  },
-  {
-    id: 10,
-    capacity: 40,
-    balls: [
-      { id: 1, weight: 25, reward: 75, color: "bg-amber-500" },
-      { id: 2, weight: 20, reward: 60, color: "bg-emerald-500" },
-      { id: 3, weight: 18, reward: 54, color: "bg-violet-500" },
-      { id: 4, weight: 15, reward: 45, color: "bg-sky-500" },
-      { id: 5, weight: 12, reward: 36, color: "bg-stone-500" },
-      { id: 6, weight: 10, reward: 30, color: "bg-red-500" },
-    ],
-    solution: [1, 4],
-    difficulty: "hard",
-  },
-]
-
-export default function TrainingPhase2({ onNext, updateParticipantData }: TrainingPhase2Props) {
-  const [currentQuestion, setCurrentQuestion] = useState(0)
+export default function TrainingPhase2({ onNext, updateParticipantData, resumeState, saveProgress }: TrainingPhase2Props) {
+  const [questions, setQuestions] = useState<Question[]>([])
+  const [isLoadingQuestions, setIsLoadingQuestions] = useState(true)
+  const [currentQuestion, setCurrentQuestion] = useState<number>(resumeState?.currentQuestion ?? 0)
   const [answers, setAnswers] = useState<
-    Array<{ questionId: number; selected: number[]; correct: boolean; confirmed: boolean; timeSpent: number }>
-  >([])
-  const [showInstructions, setShowInstructions] = useState(true)
+    // startTime/endTime: client clock (ms) when the question was shown and left; absent for questions cut off by the time limit
+    Array<{ questionId: number; selected: number[]; correct: boolean; confirmed: boolean; timeSpent: number; startTime?: number; endTime?: number }>
+  >(resumeState?.answers || [])
+  const [showInstructions, setShowInstructions] = useState(!resumeState?.started)
   const timeTracker = useTimeTracker()
   const [startTime, setStartTime] = useState<number>(0)
-  const [totalTimeLeft, setTotalTimeLeft] = useState(15 * 60)
-  const [questionStartTime, setQuestionStartTime] = useState<number>(0)
+  // Time limits (15 minutes, 90 seconds per question by default) come from the study configuration
+  const [timeLimits] = useState(() => getStudyConfig().timeLimits)
+  const [totalTimeLeft, setTotalTimeLeft] = useState<number>(resumeState?.totalTimeLeft ?? timeLimits.skill)
+  const [questionStartTime, setQuestionStartTime] = useState<number>(resumeState?.started ? Date.now() : 0)
   const [isComplete, setIsComplete] = useState(false)
+  // Server-issued deadline for this test (requested once the test starts)
+  const phaseTimer = usePhaseTimer("skill", !showInstructions && !isComplete)
   const hasCompleted = useRef(false)
 
   // Total timer
@@ -169,20 +47,56 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
     if (!showInstructions && totalTimeLeft > 0 && !isComplete) {
       const timer = setInterval(() => {
         setTotalTimeLeft((prev) => {
-          if (prev <= 1) {
+          // Count down to the server deadline once it is known
+          const next = phaseTimer ? secondsUntilDeadline(phaseTimer) : prev - 1
+          if (next <= 0) {
             clearInterval(timer)
             handleTimeUp()
             return 0
           }
-          return prev - 1
+          return next
         })
       }, 1000)
       return () => clearInterval(timer)
     }
-  }, [showInstructions, totalTimeLeft, isComplete])
+  }, [showInstructions, totalTimeLeft, isComplete, phaseTimer])
+
+  // Load the Test 1 questions for this participant from the question bank
+  useEffect(() => {
+    const participantId = localStorage.getItem("participantId")
+    if (!participantId) {
+      console.warn("[Skill Test] No participantId in localStorage")
+      setIsLoadingQuestions(false)
+      return
+    }
+
+    // Resumed sessions keep the exact question order they were shown
+    const loadedQuestions = resumeState?.questionIds?.length
+      ? getQuestionsByIds(resumeState.questionIds)
+      : getSkillTestQuestions(getParticipantSeed(participantId))
+    setQuestions(loadedQuestions)
+    setIsLoadingQuestions(false)
+
+    // Record the exact set and order shown so answers can be joined back to items
+    api.recordQuestionAssignments(participantId, "skill", loadedQuestions).catch((error) => {
+      console.error("[Skill Test] Failed to record question assignments:", error)
+    })
+  }, [])
+
+  // Report in-progress state so an interrupted session resumes at the same question
+  useEffect(() => {
+    if (!questions.length || isComplete) return
+    saveProgress?.({
+      questionIds: questions.map((q) => q.id),
+      currentQuestion,
+      answers,
+      totalTimeLeft,
+      started: !showInstructions,
+    })
+  }, [questions, currentQuestion, answers, totalTimeLeft, showInstructions, isComplete, saveProgress])
 
   const nextQuestion = () => {
-    if (currentQuestion < skillsQuestions.length - 1) {
+    if (currentQuestion < questions.length - 1) {
       setCurrentQuestion((prev) => prev + 1)
       setQuestionStartTime(Date.now())
     } else {
@@ -195,7 +109,7 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
 
     const endTime = Date.now()
     const timeSpent = endTime - questionStartTime
-    const questionId = skillsQuestions[currentQuestion].id
+    const questionId = questions[currentQuestion].id
     
     // Log interaction
     timeTracker.logInteraction('answer_confirmed', {
@@ -212,6 +126,8 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
       correct: isCorrect,
       confirmed: true, // User actively confirmed this answer
       timeSpent,
+      startTime: questionStartTime,
+      endTime,
     }
 
     setAnswers((prev) => [...prev, newAnswer])
@@ -221,13 +137,15 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
   const skipQuestion = () => {
     if (hasCompleted.current) return
 
-    const timeSpent = Date.now() - questionStartTime
+    const endTime = Date.now()
     const newAnswer = {
-      questionId: skillsQuestions[currentQuestion].id,
+      questionId: questions[currentQuestion].id,
       selected: [],
       correct: false,
       confirmed: false, // User skipped this question
-      timeSpent: Math.round(timeSpent / 1000),
+      timeSpent: endTime - questionStartTime,
+      startTime: questionStartTime,
+      endTime,
     }
 
     setAnswers((prev) => [...prev, newAnswer])
@@ -237,7 +155,7 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
   const handleTimeUp = () => {
     if (hasCompleted.current) return
 
-    const remaining = skillsQuestions.slice(currentQuestion).map((q) => ({
+    const remaining = questions.slice(currentQuestion).map((q) => ({
       questionId: q.id,
       selected: [],
       correct: false,
@@ -256,11 +174,11 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
     // Calculate points using new scheme: 2 points for correct, 1 for unanswered, 0 for incorrect
     const correctCount = answers.filter((a) => a.correct).length
     const incorrectCount = answers.filter((a) => a.selected.length > 0 && !a.correct).length
-    const unansweredCount = skillsQuestions.length - correctCount - incorrectCount
+    const unansweredCount = questions.length - correctCount - incorrectCount
     
     // Calculate total points: 2 points per correct, 1 point per unanswered, 0 per incorrect
-    const totalPoints = (correctCount * 2) + (unansweredCount * 1) + (incorrectCount * 0)
-    const maxPoints = skillsQuestions.length * 2 // 10 questions × 2 = 20 max points
+    const totalPoints = scorePoints(correctCount, unansweredCount, incorrectCount)
+    const maxPoints = studyMaxPoints(questions.length)
 
     const payload = {
       phase: "skill",
@@ -272,49 +190,30 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
         unansweredQuestions: unansweredCount,
         totalPoints,
         maxPoints,
-        totalQuestions: skillsQuestions.length,
-        accuracy: correctCount / skillsQuestions.length,
-        timeUsed: 15 * 60 - totalTimeLeft,
+        totalQuestions: questions.length,
+        accuracy: correctCount / questions.length,
+        timeUsed: timeLimits.skill - totalTimeLeft,
         answers,
         questionTimes: answers.map(answer => ({
           questionId: answer.questionId,
-          startTime: 0, // Will be populated by actual timing
-          endTime: 0,
+          startTime: answer.startTime,
+          endTime: answer.endTime,
           timeSpent: answer.timeSpent
-        }))
+        })),
+        startToken: phaseTimer?.token
       },
     }
 
-     try {
-       const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "https://knapsack-expirement.onrender.com"
-       
-       // Add timeout to prevent hanging
-       const controller = new AbortController()
-       const timeoutId = setTimeout(() => controller.abort(), 5000) // 5 second timeout
-
-       const res = await fetch(`${API_BASE}/api/v1/ingest-phase`, {
-         method: "POST",
-         headers: { "Content-Type": "application/json" },
-         body: JSON.stringify(payload),
-         signal: controller.signal
-       })
-
-       clearTimeout(timeoutId)
-
-      if (!res.ok) {
-        const text = await res.text()
-        console.error("[Test 1] Server error:", res.status, text)
-        throw new Error(`Failed to submit test data (status ${res.status})`)
-      }
-      
-      updateParticipantData({ training2: payload.data, totalScore: totalPoints })
-      onNext()
-    } catch (err) {
-      console.error("[Test 1] Failed to submit:", err)
-      // Proceed with local data if backend unavailable
-      updateParticipantData({ training2: payload.data, totalScore: totalPoints })
-      onNext()
+    // Queued in the outbox, so a failed first attempt keeps retrying in the background
+    if (payload.participantId) {
+      const submitted = await submitPhase(payload.participantId, "skill", payload.data)
+      if (!submitted) console.warn("[Test 1] Submission pending, retrying in the background")
+    } else {
+      console.error("[Test 1] No participantId, submission skipped")
     }
+
+    updateParticipantData({ training2: payload.data, totalScore: totalPoints })
+    onNext()
   }
 
   const startPhase = () => {
@@ -329,13 +228,23 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
     return `${mins}:${secs.toString().padStart(2, "0")}`
   }
 
-  const question = skillsQuestions[currentQuestion]
-  const progress = ((currentQuestion + 1) / skillsQuestions.length) * 100
-  const difficultyColor = {
-    easy: "bg-green-500",
-    medium: "bg-yellow-500",
-    hard: "bg-red-500",
-  }[question.difficulty]
+  if (isLoadingQuestions) {
+    return (
+      <div className="max-w-7xl mx-auto p-6">
+        <Card className="shadow-lg">
+          <CardContent className="p-8 text-center">
+            <div className="flex items-center justify-center space-x-2 text-gray-500">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-500"></div>
+              <span>Loading Test 1 questions...</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const question = questions[currentQuestion]
+  const progress = ((currentQuestion + 1) / questions.length) * 100
   if (showInstructions) {
     return (
       <div className="max-w-7xl mx-auto">
@@ -353,7 +262,7 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
 
               <div className="space-y-6 text-orange-700">
                 <p className="text-xl">
-                  In this section, you will complete <strong>10 questions</strong> in Test 1.
+                  In this section, you will complete <strong>{questions.length} questions</strong> in Test 1.
                 </p>
 
                 <div className="grid md:grid-cols-2 gap-6">
@@ -418,8 +327,8 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
     const incorrectAnswers = answers.filter((a) => a.selected.length > 0 && !a.correct).length
     
     // Calculate points: 2 points per correct, 1 point per unanswered, 0 per incorrect
-    const totalPoints = (correctAnswers * 2) + (unansweredQuestions * 1) + (incorrectAnswers * 0)
-    const maxPoints = skillsQuestions.length * 2 // 20 max points
+    const totalPoints = scorePoints(correctAnswers, unansweredQuestions, incorrectAnswers)
+    const maxPoints = studyMaxPoints(questions.length)
 
     return (
       <div className="max-w-7xl mx-auto">
@@ -487,7 +396,7 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center space-x-4">
               <span className="text-sm font-medium">
-                Question {currentQuestion + 1} of {skillsQuestions.length}
+                Question {currentQuestion + 1} of {questions.length}
               </span>
             </div>
             
@@ -515,7 +424,7 @@ export default function TrainingPhase2({ onNext, updateParticipantData }: Traini
             onSkip={skipQuestion}
             isInteractive={true}
             isTestMode={true}
-            timeLimit={90}
+            timeLimit={timeLimits.skillPerQuestion}
             onTimeUp={() => {
               const timeSpent = Date.now() - questionStartTime
               const newAnswer = {
@@ -3,6 +3,8 @@
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios'
+import type { Question, QuestionMix } from './participant-loader'
+import type { StudyConfig } from './study-config'
 
 // Cache for API responses (5 minute TTL)
 const cache = new Map<string, { data: any; timestamp: number }>()
@@ -117,6 +119,53 @@ export async function apiFetch<T = any>(
   return requestPromise
 }
 
+// Adaptive routing decision made after Test 1 (see backend/src/routing.ts)
+export interface RoutingDecision {
+  enabled: boolean
+  skillEstimate: number | null
+  tier: 'low' | 'mid' | 'high' | null
+  benchmark: QuestionMix
+  final: QuestionMix
+  decidedAt: string
+}
+
+// Server-issued start token and deadline of a timed phase (see backend/src/timers.ts)
+export interface PhaseTimerStart {
+  token: string
+  phase: string
+  startedAt: string
+  deadline: string
+  serverTime: string
+  clockSkewMs: number | null
+}
+
+// Final participant outcome and its Prolific completion code (see backend/src/completion.ts)
+export type FinalStatus = 'completed' | 'failed_attention_check' | 'screened_out' | 'timed_out'
+
+export interface Completion {
+  participantId: string
+  status: FinalStatus | null
+  completionCode: string | null
+  redirectUrl: string | null
+}
+
+// Experiment configuration of a Prolific study (see backend/src/studyConfig.ts)
+export interface StudyConfigResponse {
+  studyId: string
+  active: boolean
+  isDefault: boolean
+  config: StudyConfig
+}
+
+// Question bank a participant is pinned to (see backend/src/questionBank.ts)
+export interface ParticipantQuestions {
+  participantId: string
+  bankVersion: string
+  questions: Question[]
+  // Question IDs recorded per phase so far, in presentation order
+  assigned: Record<string, number[]>
+}
+
 // Specific API methods
 export const api = {
   get: <T = any>(endpoint: string, useCache = true) =>
@@ -138,17 +187,286 @@ export const api = {
     apiFetch<T>(endpoint, { method: 'DELETE' }, false),
   
   checkParticipant: (prolificPid: string) =>
-    api.get<{ exists: boolean; completed: boolean; participantId?: string }>(
+    api.get<{
+      exists: boolean
+      completed: boolean
+      participantId?: string
+      questionSeed?: number | null
+      condition?: string | null
+      finalStatus?: FinalStatus | null
+      redirectUrl?: string | null
+    }>(
       `/api/v1/check-participant/${prolificPid}`,
       true // Cache participant checks for 5 minutes
     ),
   
   registerProlific: (prolificPid: string, studyId: string, sessionId: string) =>
-    api.post<{ participantId: string }>('/api/v1/register-prolific', {
+    api.post<{ participantId: string; questionSeed?: number | null; condition?: string | null }>('/api/v1/register-prolific', {
       prolificPid,
       studyId,
       sessionId,
     }),
+
+  assignCondition: (participantId: string) =>
+    api.post<{ participantId: string; condition: string }>('/api/v1/assign-condition', {
+      participantId,
+    }),
+
+  setParticipantStatus: (participantId: string, status: FinalStatus, reason?: string) =>
+    api.post<Completion>('/api/v1/participant-status', {
+      participantId,
+      status,
+      reason,
+    }),
+
+  getCompletionCode: (participantId: string) =>
+    api.get<Completion>(`/api/v1/completion-code/${participantId}`, false),
+
+  getStudyConfig: (studyId: string) =>
+    api.get<StudyConfigResponse>(`/api/v1/study-config/${encodeURIComponent(studyId)}`, true),
+
+  getParticipantQuestions: (participantId: string) =>
+    api.get<ParticipantQuestions>(`/api/v1/participant-questions/${participantId}`, false),
+
+  getRouting: (participantId: string) =>
+    api.get<RoutingDecision>(`/api/v1/routing/${participantId}`, false),
+
+  startPhaseTimer: (participantId: string, phase: 'skill' | 'benchmark' | 'final') =>
+    api.post<PhaseTimerStart>('/api/v1/phase-start', {
+      participantId,
+      phase,
+      clientTimestamp: new Date().toISOString(),
+    }),
+
+  getSession: (participantId: string) =>
+    api.get<{
+      participantId: string
+      hasSession: boolean
+      completed: boolean
+      currentPhase: string | null
+      participantData: any
+      phaseState: any
+      updatedAt: string | null
+    }>(`/api/v1/session/${participantId}`, false),
+
+  saveSession: (participantId: string, snapshot: { currentPhase: string; participantData: any; phaseState: any }) =>
+    api.post<{ success: boolean }>('/api/v1/session', {
+      participantId,
+      ...snapshot,
+    }),
+
+  recordQuestionAssignments: (
+    participantId: string,
+    phase: 'skill' | 'benchmark' | 'meta' | 'final',
+    questions: Array<{ id: number }>
+  ) =>
+    // Only the IDs are sent: the backend reads the items from the participant's bank
+    api.post<{ success: boolean; recorded: number }>('/api/v1/question-assignments', {
+      participantId,
+      phase,
+      questions: questions.map((q) => q.id),
+    }),
+}
+
+// Phase submission outbox
+// Phase payloads are persisted locally and retried with exponential backoff
+// until the backend acknowledges them. Each submission keeps one idempotency
+// key across retries so the backend can ignore duplicates.
+
+export type SubmissionPhase = 'practice' | 'skill' | 'benchmark' | 'strategy' | 'meta' | 'final'
+
+interface OutboxEntry {
+  idempotencyKey: string
+  participantId: string
+  phase: SubmissionPhase
+  data: any
+  bankVersion?: string
+  attempts: number
+  createdAt: string
+}
+
+const OUTBOX_KEY = 'submissionOutbox'
+// Submissions the backend refused, kept so no participant data is discarded
+const REJECTED_KEY = 'rejectedSubmissions'
+// Version of the question bank in use, written by lib/question-bank.ts
+const BANK_VERSION_KEY = 'questionBankVersion'
+const OUTBOX_INITIAL_BACKOFF = 1000
+const OUTBOX_MAX_BACKOFF = 30000
+
+let outbox: OutboxEntry[] | null = null
+let outboxFlushing: Promise<void> | null = null
+let outboxRetryTimer: ReturnType<typeof setTimeout> | null = null
+let outboxBackoff = 0
+const outboxListeners = new Set<() => void>()
+
+const newIdempotencyKey = (participantId: string, phase: string) => {
+  const random = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+  return `${participantId}:${phase}:${random}`
+}
+
+function loadOutbox(): OutboxEntry[] {
+  if (outbox) return outbox
+  outbox = []
+  if (typeof window === 'undefined') return outbox
+
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY)
+    outbox = stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('[Outbox] Failed to restore outbox:', error)
+  }
+
+  window.addEventListener('online', () => {
+    // Connection is back, retry now instead of waiting out the backoff
+    outboxBackoff = 0
+    if (outboxRetryTimer) {
+      clearTimeout(outboxRetryTimer)
+      outboxRetryTimer = null
+    }
+    flushOutbox()
+  })
+
+  // Retry anything left over from a previous page load
+  if (outbox!.length > 0) setTimeout(flushOutbox, 0)
+  return outbox!
+}
+
+function persistOutbox() {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(loadOutbox()))
+  } catch (error) {
+    console.error('[Outbox] Failed to persist outbox:', error)
+  }
+  outboxListeners.forEach((listener) => listener())
+}
+
+function removeFromOutbox(idempotencyKey: string) {
+  outbox = loadOutbox().filter((entry) => entry.idempotencyKey !== idempotencyKey)
+  persistOutbox()
+}
+
+function keepRejected(entry: OutboxEntry, status: number, error: string) {
+  try {
+    const rejected = JSON.parse(localStorage.getItem(REJECTED_KEY) || '[]')
+    rejected.push({ ...entry, status, error, rejectedAt: new Date().toISOString() })
+    localStorage.setItem(REJECTED_KEY, JSON.stringify(rejected))
+  } catch (storageError) {
+    console.error('[Outbox] Failed to keep rejected submission:', storageError)
+  }
+}
+
+function scheduleOutboxRetry() {
+  outboxBackoff = outboxBackoff ? Math.min(outboxBackoff * 2, OUTBOX_MAX_BACKOFF) : OUTBOX_INITIAL_BACKOFF
+  if (outboxRetryTimer) clearTimeout(outboxRetryTimer)
+  outboxRetryTimer = setTimeout(() => {
+    outboxRetryTimer = null
+    flushOutbox()
+  }, outboxBackoff)
+}
+
+/**
+ * Send every pending submission, oldest first
+ * Network errors, timeouts and server errors are retried with backoff;
+ * other client errors (e.g. unknown participant) can never succeed, so they
+ * leave the outbox and a copy is kept under REJECTED_KEY
+ */
+export function flushOutbox(): Promise<void> {
+  if (outboxFlushing) return outboxFlushing
+
+  outboxFlushing = (async () => {
+    // Every entry either leaves the outbox or stops the flush, so entries queued
+    // while it runs are sent in the same flush
+    while (loadOutbox().length > 0) {
+      const entry = loadOutbox()[0]
+      entry.attempts++
+      try {
+        await api.post('/api/v1/ingest-phase', {
+          participantId: entry.participantId,
+          phase: entry.phase,
+          data: entry.data,
+          bankVersion: entry.bankVersion,
+          idempotencyKey: entry.idempotencyKey,
+        })
+        removeFromOutbox(entry.idempotencyKey)
+        outboxBackoff = 0
+      } catch (error: any) {
+        const status = error?.status
+        if (status && status < 500 && status !== 408 && status !== 429) {
+          console.error(`[Outbox] ${entry.phase} submission rejected (${status}), keeping a local copy:`, error.message)
+          keepRejected(entry, status, error.message)
+          removeFromOutbox(entry.idempotencyKey)
+          continue
+        }
+
+        console.warn(`[Outbox] ${entry.phase} submission failed (attempt ${entry.attempts}), will retry:`, error?.message)
+        persistOutbox()
+        scheduleOutboxRetry()
+        return
+      }
+    }
+  })().finally(() => {
+    outboxFlushing = null
+  })
+
+  return outboxFlushing
+}
+
+/**
+ * Queue a phase submission and try to send it right away
+ * Resolves true once acknowledged, false if it is still pending (it keeps retrying in the background)
+ */
+export async function submitPhase(participantId: string, phase: SubmissionPhase, data: any): Promise<boolean> {
+  const idempotencyKey = newIdempotencyKey(participantId, phase)
+  loadOutbox().push({
+    idempotencyKey,
+    participantId,
+    phase,
+    data,
+    bankVersion: localStorage.getItem(BANK_VERSION_KEY) || undefined,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  })
+  persistOutbox()
+
+  await flushOutbox()
+  return !loadOutbox().some((entry) => entry.idempotencyKey === idempotencyKey)
+}
+
+/**
+ * Number of submissions not yet acknowledged by the backend
+ */
+export function pendingSubmissionCount(): number {
+  return loadOutbox().length
+}
+
+/**
+ * Wait until every pending submission is acknowledged
+ * Resolves false if the outbox is still not empty after `timeoutMs`
+ */
+export function waitForOutbox(timeoutMs = 30000): Promise<boolean> {
+  if (loadOutbox().length === 0) return Promise.resolve(true)
+
+  return new Promise((resolve) => {
+    const done = (result: boolean) => {
+      clearTimeout(timer)
+      outboxListeners.delete(check)
+      resolve(result)
+    }
+    const check = () => {
+      if (loadOutbox().length === 0) done(true)
+    }
+    const timer = setTimeout(() => done(loadOutbox().length === 0), timeoutMs)
+    outboxListeners.add(check)
+
+    // Don't sit out the current backoff while the participant is waiting
+    if (outboxRetryTimer) {
+      clearTimeout(outboxRetryTimer)
+      outboxRetryTimer = null
+    }
+    flushOutbox()
+  })
 }
 
 // Export axios instance for advanced usage
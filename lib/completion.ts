@@ -0,0 +1,69 @@
+/**
+ * End-of-study routing to Prolific
+ * Records the participant's final status on the backend, which answers with
+ * the study's completion code for that outcome, then clears local state and
+ * redirects. A completed study first waits for every phase submission to be
+ * acknowledged (and the backend refuses to complete a participant before their
+ * final phase arrived) so no data is lost; other endings wait briefly for the
+ * submission that ended the study, then leave regardless.
+ */
+
+import { api, waitForOutbox, pendingSubmissionCount, type FinalStatus } from './api-client'
+
+const PROLIFIC_COMPLETE_URL = 'https://app.prolific.co/submissions/complete'
+
+// How long an early ending waits for pending submissions before redirecting anyway
+const EARLY_END_FLUSH_MS = 10000
+
+export const prolificCompletionUrl = (code: string | null) =>
+  code ? `${PROLIFIC_COMPLETE_URL}?cc=${encodeURIComponent(code)}` : PROLIFIC_COMPLETE_URL
+
+/**
+ * Remove everything that ties this browser to the participant
+ */
+export function clearParticipantStorage() {
+  localStorage.removeItem('participantId')
+  localStorage.removeItem('prolificPid')
+  localStorage.removeItem('questionSeed')
+  localStorage.removeItem('condition')
+}
+
+/**
+ * Leave the study with a final status and redirect to the matching Prolific URL
+ * Resolves false (without redirecting) while phase submissions are still unacknowledged,
+ * the backend has not received the final phase or the status could not be recorded
+ */
+export async function finishStudy(status: FinalStatus, reason?: string): Promise<boolean> {
+  if (status === 'completed') {
+    const flushed = await waitForOutbox()
+    if (!flushed) {
+      console.error(`[Completion] ${pendingSubmissionCount()} submission(s) still pending, not redirecting`)
+      return false
+    }
+  } else {
+    await waitForOutbox(EARLY_END_FLUSH_MS)
+  }
+
+  const participantId = localStorage.getItem('participantId')
+  let redirectUrl: string | null = null
+
+  if (participantId) {
+    // Only the backend knows the study's completion codes, so without its answer the participant stays to retry
+    try {
+      const completion = await api.setParticipantStatus(participantId, status, reason)
+      redirectUrl = completion.redirectUrl
+      console.log(`[Completion] Final status: ${completion.status}`)
+    } catch (error: any) {
+      if (error?.status === 409) {
+        console.error('[Completion] Final phase not received by the backend yet, not redirecting')
+      } else {
+        console.error('[Completion] Failed to record final status, not redirecting:', error)
+      }
+      return false
+    }
+  }
+
+  clearParticipantStorage()
+  window.location.href = redirectUrl || prolificCompletionUrl(null)
+  return true
+}
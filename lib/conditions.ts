@@ -0,0 +1,59 @@
+/**
+ * Experimental ordering conditions
+ * Each participant is assigned one condition by the backend at registration
+ * (backend/src/conditions.ts keeps the same list). The condition controls the
+ * difficulty order of the Benchmark and Final tests.
+ */
+
+/**
+ * Generate all permutations of a pattern with given counts
+ * Example: generatePermutations(2, 2, 0) returns ['EEMM', 'EMEM', 'EMME', 'MEEM', 'MEME', 'MMEE']
+ */
+export function generatePermutations(easyCount: number, mediumCount: number, hardCount: number): string[] {
+  const patterns: string[] = [];
+  const total = easyCount + mediumCount + hardCount;
+
+  function generate(current: string, eRemaining: number, mRemaining: number, hRemaining: number) {
+    if (current.length === total) {
+      patterns.push(current);
+      return;
+    }
+
+    if (eRemaining > 0) {
+      generate(current + 'E', eRemaining - 1, mRemaining, hRemaining);
+    }
+    if (mRemaining > 0) {
+      generate(current + 'M', eRemaining, mRemaining - 1, hRemaining);
+    }
+    if (hRemaining > 0) {
+      generate(current + 'H', eRemaining, mRemaining, hRemaining - 1);
+    }
+  }
+
+  generate('', easyCount, mediumCount, hardCount);
+  return patterns;
+}
+
+/**
+ * 'random' interleaves difficulties; every other condition is a block order of
+ * the difficulty groups: 'EMH' is ascending, 'HME' is descending
+ */
+export const ORDERING_CONDITIONS = ['random', ...generatePermutations(1, 1, 1)];
+
+export type OrderingCondition = string;
+
+export const DEFAULT_CONDITION: OrderingCondition = 'random';
+
+export function isOrderingCondition(value: unknown): value is OrderingCondition {
+  return typeof value === 'string' && ORDERING_CONDITIONS.includes(value);
+}
+
+/**
+ * Get the ordering condition assigned to this participant
+ * Falls back to 'random' (the original ordering) when none was assigned
+ */
+export function getParticipantCondition(): OrderingCondition {
+  if (typeof window === 'undefined') return DEFAULT_CONDITION;
+  const stored = localStorage.getItem('condition');
+  return isOrderingCondition(stored) ? stored : DEFAULT_CONDITION;
+}
@@ -8,3 +8,10 @@
  */
 export const NUM_BALLS = 4;
 
+// Available colors for balls (one per ball, so also the most balls a question can have)
+export const BALL_COLORS = [
+  "bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500", 
+  "bg-purple-500", "bg-pink-500", "bg-indigo-500", "bg-orange-500",
+  "bg-teal-500", "bg-rose-500", "bg-cyan-500", "bg-lime-500",
+  "bg-amber-500", "bg-emerald-500", "bg-violet-500", "bg-sky-500"
+];
@@ -0,0 +1,239 @@
+/**
+ * Buffered transport for interaction events
+ * Events are queued in memory and localStorage, sent in batches to
+ * POST /api/v1/events on an interval, retried with backoff on failure and
+ * flushed with navigator.sendBeacon when the page is hidden or unloaded.
+ * Each event carries a clientEventId so the backend drops re-sent duplicates.
+ * If the queue still overflows (long offline stretch), the oldest events are
+ * dropped and counted per participant; the counts ride along with the next
+ * batch and are stored on the participant (droppedEvents).
+ */
+
+import { getApiBase } from './api-client'
+
+export interface QueuedEvent {
+  clientEventId: string
+  type: string
+  section?: string | null
+  questionId?: number | null
+  clientTimestamp: string
+  payload?: any
+}
+
+interface QueueEntry {
+  participantId: string
+  event: QueuedEvent
+}
+
+const STORAGE_KEY = 'eventQueue'
+const DROPPED_KEY = 'eventQueueDropped'
+const FLUSH_INTERVAL = 5000
+const BATCH_SIZE = 50
+// Matches MAX_EVENT_BATCH in backend/src/events.ts
+const MAX_BATCH = 500
+const MAX_QUEUE = 20000
+const INITIAL_BACKOFF = 2000
+const MAX_BACKOFF = 60000
+
+let queue: QueueEntry[] = []
+// Events dropped on overflow and not yet reported, by participant
+let dropped: Record<string, number> = {}
+let initialized = false
+let flushing = false
+let backoff = 0
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+const eventsUrl = () => `${getApiBase()}/api/v1/events`
+
+function newEventId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+function persist() {
+  try {
+    localStorage.setItem(DROPPED_KEY, JSON.stringify(dropped))
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue))
+  } catch (error) {
+    // Storage full: the queue keeps growing in memory up to MAX_QUEUE
+    console.error('[EventQueue] Failed to persist queue:', error)
+  }
+}
+
+function restore() {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    queue = stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('[EventQueue] Failed to restore queue:', error)
+    queue = []
+  }
+  try {
+    const stored = localStorage.getItem(DROPPED_KEY)
+    dropped = stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('[EventQueue] Failed to restore drop counts:', error)
+    dropped = {}
+  }
+}
+
+/**
+ * Pick whose events go next: the oldest queued event's participant, or a
+ * participant with only an unreported drop count left
+ */
+function nextParticipant(): string | null {
+  if (queue.length > 0) return queue[0].participantId
+  const pending = Object.keys(dropped)
+  return pending.length > 0 ? pending[0] : null
+}
+
+/**
+ * Take the next batch: oldest events for a single participant
+ */
+function nextBatch(participantId: string, limit: number): QueueEntry[] {
+  return queue.filter((entry) => entry.participantId === participantId).slice(0, limit)
+}
+
+function removeFromQueue(participantId: string, batch: QueueEntry[], reportedDrops: number) {
+  const sent = new Set(batch.map((entry) => entry.event.clientEventId))
+  queue = queue.filter((entry) => !sent.has(entry.event.clientEventId))
+  if (reportedDrops > 0) {
+    // Drops counted while the batch was in flight stay for the next one
+    const remaining = (dropped[participantId] || 0) - reportedDrops
+    if (remaining > 0) dropped[participantId] = remaining
+    else delete dropped[participantId]
+  }
+  persist()
+}
+
+function scheduleRetry() {
+  backoff = backoff ? Math.min(backoff * 2, MAX_BACKOFF) : INITIAL_BACKOFF
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    flushEvents()
+  }, backoff)
+}
+
+/**
+ * Send queued events to the backend, batch by batch
+ */
+export async function flushEvents() {
+  if (typeof window === 'undefined' || flushing || retryTimer) return
+  flushing = true
+
+  try {
+    let participantId: string | null
+    while ((participantId = nextParticipant()) !== null) {
+      const batch = nextBatch(participantId, MAX_BATCH)
+      const droppedEvents = dropped[participantId] || 0
+      let response: Response
+
+      try {
+        response = await fetch(eventsUrl(), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            participantId,
+            events: batch.map((entry) => entry.event),
+            droppedEvents
+          })
+        })
+      } catch (error) {
+        console.warn('[EventQueue] Network error, will retry:', error)
+        scheduleRetry()
+        return
+      }
+
+      if (response.ok) {
+        removeFromQueue(participantId, batch, droppedEvents)
+        backoff = 0
+        continue
+      }
+
+      // Server errors and throttling are retried; other client errors mean the batch can never succeed
+      if (response.status >= 500 || response.status === 408 || response.status === 429) {
+        console.warn('[EventQueue] Server error, will retry:', response.status)
+        scheduleRetry()
+        return
+      }
+
+      console.error('[EventQueue] Dropping rejected batch:', response.status, await response.text())
+      removeFromQueue(participantId, batch, droppedEvents)
+    }
+  } finally {
+    flushing = false
+  }
+}
+
+/**
+ * Hand everything queued to sendBeacon (page hidden or unloading)
+ * Events stay queued until a regular flush confirms them; duplicates are
+ * ignored by the backend via clientEventId.
+ */
+export function flushEventsWithBeacon() {
+  if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') return
+
+  const participants = Array.from(new Set(queue.map((entry) => entry.participantId)))
+  for (const participantId of participants) {
+    const events = queue
+      .filter((entry) => entry.participantId === participantId)
+      .map((entry) => entry.event)
+
+    for (let i = 0; i < events.length; i += MAX_BATCH) {
+      // text/plain keeps the beacon a simple CORS request (no preflight)
+      const body = new Blob(
+        [JSON.stringify({ participantId, events: events.slice(i, i + MAX_BATCH) })],
+        { type: 'text/plain' }
+      )
+      navigator.sendBeacon(eventsUrl(), body)
+    }
+  }
+}
+
+function init() {
+  if (initialized || typeof window === 'undefined') return
+  initialized = true
+
+  restore()
+
+  setInterval(flushEvents, FLUSH_INTERVAL)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushEventsWithBeacon()
+  })
+  window.addEventListener('pagehide', flushEventsWithBeacon)
+  window.addEventListener('online', () => {
+    // Connection is back, retry now instead of waiting out the backoff
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+    backoff = 0
+    flushEvents()
+  })
+
+  // Send anything left over from a previous page load
+  if (queue.length > 0 || Object.keys(dropped).length > 0) flushEvents()
+}
+
+/**
+ * Queue an event for a participant
+ */
+export function enqueueEvent(participantId: string, event: Omit<QueuedEvent, 'clientEventId'>) {
+  if (typeof window === 'undefined') return
+  init()
+
+  queue.push({ participantId, event: { clientEventId: newEventId(), ...event } })
+  if (queue.length > MAX_QUEUE) {
+    console.warn(`[EventQueue] Queue over ${MAX_QUEUE} events, dropping oldest`)
+    for (const entry of queue.slice(0, queue.length - MAX_QUEUE)) {
+      dropped[entry.participantId] = (dropped[entry.participantId] || 0) + 1
+    }
+    queue = queue.slice(queue.length - MAX_QUEUE)
+  }
+  persist()
+
+  if (queue.length >= BATCH_SIZE) flushEvents()
+}
@@ -0,0 +1,89 @@
+/**
+ * Knapsack Heuristics
+ * Named shortcut strategies a participant might use instead of solving the
+ * problem. The generator records which of them reach the optimum on each
+ * question (and by how much they miss), and the question loader can balance a
+ * test by trap type: the heuristics a question defeats, or 'none' when every
+ * heuristic solves it.
+ */
+
+import { feasibleSubsets, solveKnapsack, type KnapsackItem } from './knapsack-solver';
+
+export const HEURISTICS = ['highest-reward', 'best-ratio', 'heaviest', 'fill-capacity'] as const;
+
+export type HeuristicName = typeof HEURISTICS[number];
+
+// A question is a trap for every heuristic that misses its optimum; 'none' when all reach it
+export type TrapType = HeuristicName | 'none';
+
+export const TRAP_TYPES: TrapType[] = ['none', ...HEURISTICS];
+
+export interface HeuristicResult {
+  reward: number;
+  // Reward short of the optimum, absolute and as a fraction of the optimum
+  gap: number;
+  relativeGap: number;
+  optimal: boolean;
+}
+
+/**
+ * Take items in the given order whenever they still fit
+ */
+function greedy(items: KnapsackItem[], capacity: number, order: (a: KnapsackItem, b: KnapsackItem) => number): number[] {
+  let weight = 0;
+  const selection: number[] = [];
+  for (const item of [...items].sort(order)) {
+    if (weight + item.weight <= capacity) {
+      weight += item.weight;
+      selection.push(item.id);
+    }
+  }
+  return selection;
+}
+
+/**
+ * Selection (item IDs) each heuristic makes
+ */
+export function runHeuristic(name: HeuristicName, items: KnapsackItem[], capacity: number): number[] {
+  switch (name) {
+    case 'highest-reward':
+      return greedy(items, capacity, (a, b) => b.reward - a.reward || a.weight - b.weight);
+    case 'best-ratio':
+      return greedy(items, capacity, (a, b) => b.reward / b.weight - a.reward / a.weight || a.weight - b.weight);
+    case 'heaviest':
+      return greedy(items, capacity, (a, b) => b.weight - a.weight || b.reward - a.reward);
+    case 'fill-capacity': {
+      // Use as much of the capacity as possible, breaking ties by reward
+      const best = feasibleSubsets(items, capacity).reduce((chosen, subset) =>
+        subset.weight > chosen.weight || (subset.weight === chosen.weight && subset.reward > chosen.reward) ? subset : chosen
+      );
+      return best.ids;
+    }
+  }
+}
+
+/**
+ * Run every heuristic on a question
+ */
+export function evaluateHeuristics(items: KnapsackItem[], capacity: number): {
+  heuristics: Record<HeuristicName, HeuristicResult>;
+  // Heuristics that miss the optimum
+  traps: HeuristicName[];
+} {
+  const optimum = solveKnapsack(items, capacity).maxReward;
+  const rewards = new Map(items.map((item) => [item.id, item.reward]));
+
+  const heuristics = {} as Record<HeuristicName, HeuristicResult>;
+  for (const name of HEURISTICS) {
+    const reward = runHeuristic(name, items, capacity).reduce((sum, id) => sum + (rewards.get(id) || 0), 0);
+    const gap = optimum - reward;
+    heuristics[name] = {
+      reward,
+      gap,
+      relativeGap: optimum > 0 ? Math.round((gap / optimum) * 1000) / 1000 : 0,
+      optimal: gap === 0
+    };
+  }
+
+  return { heuristics, traps: HEURISTICS.filter((name) => !heuristics[name].optimal) };
+}
@@ -0,0 +1,126 @@
+/**
+ * 0-1 Knapsack Solver
+ * Shared by the question generator and the difficulty classifiers
+ * (scripts/difficulty-classifiers.ts) so every script solves and compares
+ * items the same way
+ */
+
+export interface KnapsackItem {
+  id: number;
+  weight: number;
+  reward: number;
+  // Attributes of the other question types (see lib/knapsack-variants.ts)
+  quantity?: number;
+  volume?: number;
+  group?: number;
+}
+
+/**
+ * Dynamic programming table: table[i][w] is the best reward using the first
+ * i items with capacity w
+ */
+export function knapsackTable(items: KnapsackItem[], capacity: number): number[][] {
+  const n = items.length;
+  const dp: number[][] = Array(n + 1).fill(null).map(() => Array(capacity + 1).fill(0));
+
+  for (let i = 1; i <= n; i++) {
+    for (let w = 0; w <= capacity; w++) {
+      const item = items[i - 1];
+      if (item.weight <= w) {
+        dp[i][w] = Math.max(
+          dp[i - 1][w],
+          dp[i - 1][w - item.weight] + item.reward
+        );
+      } else {
+        dp[i][w] = dp[i - 1][w];
+      }
+    }
+  }
+
+  return dp;
+}
+
+/**
+ * Solves 0-1 knapsack problem using dynamic programming
+ * Backtracks one optimal selection (item IDs in item order)
+ */
+export function solveKnapsack(items: KnapsackItem[], capacity: number): {
+  solution: number[];
+  maxReward: number;
+  solutionWeight: number;
+} {
+  const n = items.length;
+  const dp = knapsackTable(items, capacity);
+
+  const solution: number[] = [];
+  let w = capacity;
+  let totalWeight = 0;
+
+  for (let i = n; i > 0 && w > 0; i--) {
+    if (dp[i][w] !== dp[i - 1][w]) {
+      solution.push(items[i - 1].id);
+      totalWeight += items[i - 1].weight;
+      w -= items[i - 1].weight;
+    }
+  }
+
+  return {
+    solution: solution.reverse(),
+    maxReward: dp[n][capacity],
+    solutionWeight: totalWeight
+  };
+}
+
+/**
+ * Check if item1 dominates item2 (no heavier and no less rewarding, and strictly better in one)
+ * Volume counts like weight (0 when missing); items in different
+ * multiple-choice groups are never alternatives, so neither dominates
+ */
+export function itemDominates(item1: KnapsackItem, item2: KnapsackItem): boolean {
+  if (item1.group !== item2.group) return false;
+  const volume1 = item1.volume ?? 0;
+  const volume2 = item2.volume ?? 0;
+  return (item1.weight <= item2.weight && volume1 <= volume2 && item1.reward >= item2.reward) &&
+         (item1.weight < item2.weight || volume1 < volume2 || item1.reward > item2.reward);
+}
+
+/**
+ * Every subset of the items that fits the capacity, with its total weight and reward
+ */
+export function feasibleSubsets(items: KnapsackItem[], capacity: number): Array<{
+  ids: number[];
+  weight: number;
+  reward: number;
+}> {
+  const subsets: Array<{ ids: number[]; weight: number; reward: number }> = [];
+
+  for (let mask = 0; mask < (1 << items.length); mask++) {
+    const ids: number[] = [];
+    let weight = 0;
+    let reward = 0;
+
+    for (let i = 0; i < items.length; i++) {
+      if (mask & (1 << i)) {
+        ids.push(items[i].id);
+        weight += items[i].weight;
+        reward += items[i].reward;
+      }
+    }
+
+    if (weight <= capacity) subsets.push({ ids, weight, reward });
+  }
+
+  return subsets;
+}
+
+/**
+ * Every optimal selection (item IDs in item order), so ties can be detected
+ * and any optimum accepted as correct
+ */
+export function enumerateOptimalSubsets(items: KnapsackItem[], capacity: number): number[][] {
+  const subsets = feasibleSubsets(items, capacity);
+  const best = subsets.reduce((max, subset) => Math.max(max, subset.reward), 0);
+  return subsets
+    .filter((subset) => subset.reward === best && subset.ids.length > 0)
+    .map((subset) => subset.ids);
+}
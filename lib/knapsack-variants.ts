@@ -0,0 +1,265 @@
+/**
+ * Knapsack Question Types
+ * Besides the classic 0-1 problem ('binary') a question can be:
+ * - 'bounded': each ball can be taken up to its `quantity` times
+ * - 'multidimensional': balls also have a `volume`, limited by the question's `volumeCapacity`
+ * - 'multiple-choice': balls belong to a `group` and exactly one ball is taken from each group
+ * A selection is a list of ball IDs; a bounded selection repeats an ID once per copy.
+ * Shared by the generator, the bank validator and the question component so
+ * they solve and check selections the same way (backend/src/scoring.ts mirrors
+ * the rules for server-side scoring).
+ */
+
+import { enumerateOptimalSubsets, feasibleSubsets, solveKnapsack, type KnapsackItem } from './knapsack-solver';
+
+export const QUESTION_TYPES = ['binary', 'bounded', 'multidimensional', 'multiple-choice'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export interface KnapsackInstance {
+  // One of QUESTION_TYPES; questions generated before types existed have none and are 0-1
+  type?: string;
+  capacity: number;
+  volumeCapacity?: number;
+  balls: KnapsackItem[];
+}
+
+export interface SelectionTotals {
+  weight: number;
+  volume: number;
+  reward: number;
+}
+
+export function questionType(instance: { type?: string }): QuestionType {
+  return (QUESTION_TYPES as readonly string[]).includes(instance.type || '') ? instance.type as QuestionType : 'binary';
+}
+
+/**
+ * Copies of a ball a selection may contain
+ */
+export function maxCopies(instance: KnapsackInstance, ball: KnapsackItem): number {
+  return questionType(instance) === 'bounded' ? ball.quantity ?? 1 : 1;
+}
+
+/**
+ * Multiple-choice groups in ascending order
+ */
+export function questionGroups(instance: KnapsackInstance): number[] {
+  return Array.from(new Set(instance.balls.map((ball) => ball.group ?? 0))).sort((a, b) => a - b);
+}
+
+export function selectionTotals(instance: KnapsackInstance, selection: number[]): SelectionTotals {
+  const byId = new Map(instance.balls.map((ball) => [ball.id, ball]));
+  return selection.reduce((totals, id) => {
+    const ball = byId.get(id);
+    if (ball) {
+      totals.weight += ball.weight;
+      totals.volume += ball.volume ?? 0;
+      totals.reward += ball.reward;
+    }
+    return totals;
+  }, { weight: 0, volume: 0, reward: 0 });
+}
+
+/**
+ * Rule violations of a selection other than capacity: unknown balls, more
+ * copies than allowed, and (multiple-choice) not exactly one ball per group
+ */
+export function selectionProblems(instance: KnapsackInstance, selection: number[]): string[] {
+  const byId = new Map(instance.balls.map((ball) => [ball.id, ball]));
+  const problems: string[] = [];
+
+  const unknown = selection.filter((id) => !byId.has(id));
+  if (unknown.length > 0) problems.push(`references unknown balls ${unknown.join(', ')}`);
+
+  const copies = new Map<number, number>();
+  selection.forEach((id) => copies.set(id, (copies.get(id) || 0) + 1));
+  copies.forEach((count, id) => {
+    const ball = byId.get(id);
+    if (ball && count > maxCopies(instance, ball)) {
+      problems.push(maxCopies(instance, ball) === 1 ? `repeats ball ${id}` : `takes ball ${id} ${count} times, only ${maxCopies(instance, ball)} available`);
+    }
+  });
+
+  if (questionType(instance) === 'multiple-choice') {
+    for (const group of questionGroups(instance)) {
+      const taken = selection.filter((id) => byId.get(id)?.group === group).length;
+      if (taken !== 1) problems.push(`takes ${taken} balls from group ${group}`);
+    }
+  }
+
+  return problems;
+}
+
+export function isOverCapacity(instance: KnapsackInstance, totals: SelectionTotals): boolean {
+  return totals.weight > instance.capacity ||
+    (questionType(instance) === 'multidimensional' && totals.volume > (instance.volumeCapacity ?? 0));
+}
+
+/**
+ * A selection that follows the question's rules and fits its limits
+ */
+export function isFeasibleSelection(instance: KnapsackInstance, selection: number[]): boolean {
+  return selectionProblems(instance, selection).length === 0 &&
+    !isOverCapacity(instance, selectionTotals(instance, selection));
+}
+
+/**
+ * Same balls with the same number of copies, in any order
+ */
+export function sameSelection(a: number[], b: number[]): boolean {
+  if (a.length !== b.length) return false;
+  const sortedB = [...b].sort((x, y) => x - y);
+  return [...a].sort((x, y) => x - y).every((id, i) => id === sortedB[i]);
+}
+
+/**
+ * Every feasible selection with its totals
+ * Enumerates the search space, which is small for the ball counts shown to participants
+ */
+export function feasibleSelections(instance: KnapsackInstance): Array<SelectionTotals & { ids: number[] }> {
+  const type = questionType(instance);
+  if (type === 'binary') {
+    return feasibleSubsets(instance.balls, instance.capacity).map((subset) => ({ ...subset, volume: 0 }));
+  }
+
+  // Candidate selections: copy counts per ball, or one ball per group
+  let candidates: number[][] = [[]];
+  if (type === 'multiple-choice') {
+    for (const group of questionGroups(instance)) {
+      const members = instance.balls.filter((ball) => (ball.group ?? 0) === group);
+      candidates = candidates.reduce<number[][]>((next, ids) => next.concat(members.map((ball) => ids.concat(ball.id))), []);
+    }
+  } else {
+    for (const ball of instance.balls) {
+      const counts = Array.from({ length: maxCopies(instance, ball) + 1 }, (_, count) => count);
+      candidates = candidates.reduce<number[][]>((next, ids) =>
+        next.concat(counts.map((count) => ids.concat(Array(count).fill(ball.id)))), []);
+    }
+  }
+
+  return candidates
+    .map((ids) => ({ ids, ...selectionTotals(instance, ids) }))
+    .filter((selection) => !isOverCapacity(instance, selection));
+}
+
+/**
+ * Bounded: 0-1 DP over one entry per available copy
+ */
+function solveBounded(instance: KnapsackInstance) {
+  const copies = instance.balls.reduce<KnapsackItem[]>((all, ball) =>
+    all.concat(Array(maxCopies(instance, ball)).fill(ball)), []);
+  return solveKnapsack(copies, instance.capacity);
+}
+
+/**
+ * Multidimensional: DP over weight and volume
+ */
+function solveMultidimensional(instance: KnapsackInstance) {
+  const { balls, capacity } = instance;
+  const volumeCapacity = instance.volumeCapacity ?? 0;
+  const empty = () => Array.from({ length: capacity + 1 }, () => Array(volumeCapacity + 1).fill(0));
+  const dp: number[][][] = [empty()];
+
+  balls.forEach((ball, i) => {
+    const row = empty();
+    for (let w = 0; w <= capacity; w++) {
+      for (let v = 0; v <= volumeCapacity; v++) {
+        const skip = dp[i][w][v];
+        const volume = ball.volume ?? 0;
+        row[w][v] = ball.weight <= w && volume <= v ? Math.max(skip, dp[i][w - ball.weight][v - volume] + ball.reward) : skip;
+      }
+    }
+    dp.push(row);
+  });
+
+  const solution: number[] = [];
+  let w = capacity;
+  let v = volumeCapacity;
+  for (let i = balls.length; i > 0; i--) {
+    if (dp[i][w][v] !== dp[i - 1][w][v]) {
+      solution.push(balls[i - 1].id);
+      w -= balls[i - 1].weight;
+      v -= balls[i - 1].volume ?? 0;
+    }
+  }
+
+  return {
+    solution: solution.reverse(),
+    maxReward: dp[balls.length][capacity][volumeCapacity],
+    solutionWeight: capacity - w
+  };
+}
+
+/**
+ * Multiple-choice: DP over groups, taking exactly one ball from each
+ * Returns an empty solution when no combination fits
+ */
+function solveMultipleChoice(instance: KnapsackInstance) {
+  const { capacity } = instance;
+  const groups = questionGroups(instance).map((group) => instance.balls.filter((ball) => (ball.group ?? 0) === group));
+  // best[g][w]: best reward taking one ball from each of the first g groups within weight w
+  const best: number[][] = [Array(capacity + 1).fill(0)];
+  const choice: Array<Array<KnapsackItem | null>> = [];
+
+  groups.forEach((members, g) => {
+    const row = Array(capacity + 1).fill(-Infinity);
+    const picked: Array<KnapsackItem | null> = Array(capacity + 1).fill(null);
+    for (let w = 0; w <= capacity; w++) {
+      for (const ball of members) {
+        if (ball.weight <= w && best[g][w - ball.weight] + ball.reward > row[w]) {
+          row[w] = best[g][w - ball.weight] + ball.reward;
+          picked[w] = ball;
+        }
+      }
+    }
+    best.push(row);
+    choice.push(picked);
+  });
+
+  if (best[groups.length][capacity] === -Infinity) {
+    return { solution: [], maxReward: 0, solutionWeight: 0 };
+  }
+
+  const solution: number[] = [];
+  let w = capacity;
+  for (let g = groups.length - 1; g >= 0; g--) {
+    const ball = choice[g][w]!;
+    solution.push(ball.id);
+    w -= ball.weight;
+  }
+
+  const ids = solution.reverse();
+  return { solution: ids, maxReward: best[groups.length][capacity], solutionWeight: selectionTotals(instance, ids).weight };
+}
+
+/**
+ * Solve a question of any type: one optimal selection and its reward
+ */
+export function solveQuestion(instance: KnapsackInstance): {
+  solution: number[];
+  maxReward: number;
+  solutionWeight: number;
+} {
+  switch (questionType(instance)) {
+    case 'bounded':
+      return solveBounded(instance);
+    case 'multidimensional':
+      return solveMultidimensional(instance);
+    case 'multiple-choice':
+      return solveMultipleChoice(instance);
+    default:
+      return solveKnapsack(instance.balls, instance.capacity);
+  }
+}
+
+/**
+ * Every optimal selection of a question of any type (IDs in ball order)
+ */
+export function enumerateOptimalSelections(instance: KnapsackInstance): number[][] {
+  if (questionType(instance) === 'binary') return enumerateOptimalSubsets(instance.balls, instance.capacity);
+
+  const selections = feasibleSelections(instance).filter((selection) => selection.ids.length > 0);
+  const best = selections.reduce((max, selection) => Math.max(max, selection.reward), 0);
+  return selections.filter((selection) => selection.reward === best).map((selection) => selection.ids);
+}
@@ -1,24 +1,39 @@
 /**
  * Participant Question Loader
- * Implements the same logic as generate-participant-questions.ts
- * but loads and organizes questions dynamically in the frontend
+ * Loads and organizes questions for each phase from the participant's
+ * question bank (lib/question-bank.ts). All randomness comes from a per-participant seed, so
+ * scripts/generate-participant-questions.ts regenerates the same sequence offline.
  */
 
-import staticQuestions from './static-questions.json';
-import { NUM_BALLS } from './config';
+import { BALL_COLORS } from './config';
+import { getBankQuestions } from './question-bank';
+import { getStudyConfig, itemCountFor, metaExcludedBankPhases } from './study-config';
+import { SeededRandom, deriveSeed, seedFromString, shuffle } from './seeded-random';
+import { DEFAULT_CONDITION, type OrderingCondition } from './conditions';
+import { TRAP_TYPES, evaluateHeuristics, type HeuristicName, type HeuristicResult, type TrapType } from './knapsack-heuristics';
+import { enumerateOptimalSelections, questionType, solveQuestion, type QuestionType } from './knapsack-variants';
 
 export interface Ball {
   id: number;
   weight: number;
   reward: number;
   color: string;
+  // Set by the question type (see lib/knapsack-variants.ts)
+  quantity?: number;
+  volume?: number;
+  group?: number;
 }
 
 export interface Question {
   id: number;
+  // 0-1 knapsack when missing
+  type?: QuestionType;
   capacity: number;
+  volumeCapacity?: number;
   balls: Ball[];
   solution?: number[];
+  // Every optimal selection (written by the generator; more than one when rewards tie)
+  solutions?: number[][];
   explanation?: string;
   difficulty?: string;
   phase?: string;
@@ -27,6 +42,18 @@ export interface Question {
     slackRatio: number;
     optimalityGap: number;
     densityVariance: number;
+    // Written by scripts/calibrate-irt.ts once enough responses exist
+    irt?: {
+      model: '1pl' | '2pl';
+      difficulty: number;
+      discrimination: number;
+      responses: number;
+      pCorrect: number;
+      calibratedAt: string;
+    };
+    // Written by the generator (see lib/knapsack-heuristics.ts)
+    heuristics?: Record<HeuristicName, HeuristicResult>;
+    traps?: HeuristicName[];
   };
 }
 
@@ -37,36 +64,121 @@ interface QuestionSet {
 }
 
 /**
- * Shuffle array using Fisher-Yates algorithm
+ * Question mix for a test, chosen by adaptive routing (backend/src/routing.ts)
  */
-function shuffle<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+export interface QuestionMix {
+  easy: number;
+  medium: number;
+  hard: number;
+  capacityRange?: { min: number; max: number } | null;
+  numItems?: number | null;
+  // Spread each difficulty's questions evenly over heuristic trap types (defaults to the study setting)
+  balanceTraps?: boolean | null;
+}
+
+/**
+ * Question mix for a test from the study configuration (see lib/study-config.ts),
+ * used whenever adaptive routing did not pick one
+ */
+export function getStudyMix(test: 'benchmark' | 'final'): QuestionMix {
+  return { ...getStudyConfig().questionCounts[test], capacityRange: null, numItems: null };
+}
+
+/**
+ * Get the question seed for a participant
+ * Prefers the seed assigned by the backend at registration, falling back to
+ * a hash of the participantId so the sequence is still reproducible offline
+ */
+export function getParticipantSeed(participantId: string): number {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem('questionSeed');
+    if (stored !== null && stored !== '' && !isNaN(Number(stored))) {
+      return Number(stored) >>> 0;
+    }
   }
-  return shuffled;
+  return seedFromString(participantId);
 }
 
+// Study test whose question and item counts apply to each bank phase
+const PHASE_TESTS = { training: 'skill', benchmark: 'benchmark', prediction: 'final' } as const;
+
 /**
  * Load questions for a specific phase and difficulty
+ * Each difficulty's pool holds the questions with the study's item count for
+ * that test and difficulty (or the routed mix's item count), falling back to
+ * numItems when the bank has none of that size. A routed mix can also narrow
+ * the pools by capacity; a pool that would end up too small for the requested
+ * count keeps the unfiltered questions
  */
-function loadQuestionsForPhase(phase: 'training' | 'benchmark' | 'prediction'): QuestionSet {
-  const phaseQuestions = (staticQuestions.questions as Question[]).filter(
-    (q) => q.phase === phase && q.balls.length === NUM_BALLS
-  );
+function loadQuestionsForPhase(phase: 'training' | 'benchmark' | 'prediction', mix?: QuestionMix): QuestionSet {
+  const bank = getBankQuestions().filter((q) => q.phase === phase);
+  const studyItems = getStudyConfig().numItems;
+
+  const byDifficulty = (difficulty: 'easy' | 'medium' | 'hard', count: number) => {
+    const numItems = mix?.numItems ?? itemCountFor(PHASE_TESTS[phase], difficulty);
+    let pool = bank.filter(q => q.difficulty === difficulty && q.balls.length === numItems);
+    if (pool.length === 0) {
+      pool = bank.filter(q => q.difficulty === difficulty && q.balls.length === studyItems);
+    }
+    const range = mix?.capacityRange;
+    if (!range) return pool;
+
+    const inRange = pool.filter(q => q.capacity >= range.min && q.capacity <= range.max);
+    return inRange.length >= count ? inRange : pool;
+  };
 
   return {
-    easy: phaseQuestions.filter(q => q.difficulty === 'easy'),
-    medium: phaseQuestions.filter(q => q.difficulty === 'medium'),
-    hard: phaseQuestions.filter(q => q.difficulty === 'hard')
+    easy: byDifficulty('easy', mix?.easy ?? 0),
+    medium: byDifficulty('medium', mix?.medium ?? 0),
+    hard: byDifficulty('hard', mix?.hard ?? 0)
   };
 }
 
+/**
+ * Trap types of a question: the heuristics that miss its optimum, or 'none'
+ * Banks generated before heuristics were recorded are evaluated on the fly;
+ * the heuristics are 0-1 strategies, so other question types have none
+ */
+export function questionTraps(question: Question): TrapType[] {
+  if (questionType(question) !== 'binary') return ['none'];
+  const traps = question.metadata?.traps ?? evaluateHeuristics(question.balls, question.capacity).traps;
+  return traps.length > 0 ? traps : ['none'];
+}
+
+/**
+ * Take `count` questions from a shuffled pool, cycling through the trap types
+ * so each is represented as evenly as the pool allows
+ * Deterministic, so the participant's seeded sequence stays reproducible
+ */
+function balanceByTrapType(pool: Question[], count: number): Question[] {
+  const remaining = [...pool];
+  const selected: Question[] = [];
+
+  // Every question matches at least one trap type, so each round takes at least one
+  while (selected.length < count && remaining.length > 0) {
+    for (const trapType of TRAP_TYPES) {
+      if (selected.length >= count) break;
+      const index = remaining.findIndex((q) => questionTraps(q).includes(trapType));
+      if (index !== -1) selected.push(remaining.splice(index, 1)[0]);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Shuffle a difficulty pool, keeping a trap-balanced selection of `count` when requested
+ */
+function drawPool(pool: Question[], count: number, rng: SeededRandom, balanceTraps: boolean): Question[] {
+  const shuffled = shuffle(pool, rng);
+  return balanceTraps ? balanceByTrapType(shuffled, count) : shuffled;
+}
+
 /**
  * Randomize question order using weighted random selection
  */
 function randomizeQuestionOrder(
+  rng: SeededRandom,
   easyQuestions: Question[],
   mediumQuestions: Question[],
   hardQuestions: Question[],
@@ -74,9 +186,9 @@ function randomizeQuestionOrder(
   mediumCount: number,
   hardCount: number
 ): Question[] {
-  const shuffledEasy = shuffle(easyQuestions);
-  const shuffledMedium = shuffle(mediumQuestions);
-  const shuffledHard = shuffle(hardQuestions);
+  const shuffledEasy = shuffle(easyQuestions, rng);
+  const shuffledMedium = shuffle(mediumQuestions, rng);
+  const shuffledHard = shuffle(hardQuestions, rng);
   
   const result: Question[] = [];
   let easyIndex = 0;
@@ -90,7 +202,7 @@ function randomizeQuestionOrder(
   
   for (let i = 0; i < total; i++) {
     const totalRemaining = eRemaining + mRemaining + hRemaining;
-    const rand = Math.random() * totalRemaining;
+    const rand = rng.next() * totalRemaining;
     
     if (rand < eRemaining && easyIndex < shuffledEasy.length) {
       result.push(shuffledEasy[easyIndex++]);
@@ -114,7 +226,80 @@ function randomizeQuestionOrder(
 }
 
 /**
- * Get practice questions (hardcoded 6 questions: 2 easy + 2 medium + 2 hard)
+ * Order questions for the participant's condition
+ * 'random' interleaves difficulties; block conditions (e.g. 'EMH', 'HME')
+ * present each difficulty group in turn, shuffled within the group
+ */
+function orderQuestionsForCondition(
+  rng: SeededRandom,
+  condition: OrderingCondition,
+  easyQuestions: Question[],
+  mediumQuestions: Question[],
+  hardQuestions: Question[],
+  easyCount: number,
+  mediumCount: number,
+  hardCount: number
+): Question[] {
+  if (condition === DEFAULT_CONDITION) {
+    return randomizeQuestionOrder(
+      rng,
+      easyQuestions,
+      mediumQuestions,
+      hardQuestions,
+      easyCount,
+      mediumCount,
+      hardCount
+    );
+  }
+
+  const blocks: Record<string, Question[]> = {
+    E: shuffle(easyQuestions, rng).slice(0, easyCount),
+    M: shuffle(mediumQuestions, rng).slice(0, mediumCount),
+    H: shuffle(hardQuestions, rng).slice(0, hardCount)
+  };
+
+  return condition.split('').reduce<Question[]>((ordered, level) => ordered.concat(blocks[level] || []), []);
+}
+
+// Balls in the hardcoded practice questions
+const PRACTICE_BALLS = 4;
+const PRACTICE_SEED = seedFromString('practice');
+
+/**
+ * Practice question with `numItems` balls, for studies whose Test 1 doesn't use
+ * PRACTICE_BALLS: built like the generator's dominance patterns (a dominated
+ * chain for easy, half a chain for medium, random balls for hard)
+ */
+function generatePracticeQuestion(id: number, numItems: number, difficulty: string, rng: SeededRandom): Question {
+  const balls: Ball[] = Array.from({ length: numItems }, (_, i) => {
+    const chained = difficulty === 'easy' || (difficulty === 'medium' && i < Math.floor(numItems / 2));
+    return {
+      id: i + 1,
+      weight: chained ? 2 + i * 2 + rng.range(0, 1) : rng.range(2, 12),
+      reward: chained ? 40 - i * 2 - rng.range(0, 1) : rng.range(8, 40),
+      color: BALL_COLORS[i % BALL_COLORS.length]
+    };
+  });
+  const totalWeight = balls.reduce((sum, ball) => sum + ball.weight, 0);
+  const capacity = Math.max(Math.round(totalWeight / 2), ...balls.map((ball) => ball.weight));
+  const { solution, maxReward, solutionWeight } = solveQuestion({ capacity, balls });
+
+  return {
+    id,
+    capacity,
+    balls,
+    solution,
+    solutions: enumerateOptimalSelections({ capacity, balls }),
+    explanation: `Select items ${solution.join(', ')} for total weight ${solutionWeight} and reward ${maxReward}.`,
+    difficulty
+  };
+}
+
+/**
+ * Get practice questions: 2 easy + 2 medium + 2 hard, with as many balls as
+ * Test 1 uses for each difficulty
+ * The hardcoded questions have PRACTICE_BALLS balls; other sizes are generated
+ * from a fixed seed, so every participant practises on the same items
  */
 export function getPracticeQuestions(): Question[] {
   const practiceQuestions: Question[] = [
@@ -198,71 +383,137 @@ export function getPracticeQuestions(): Question[] {
     }
   ];
   
-  return practiceQuestions.filter(q => q.balls.length === NUM_BALLS);
+  const rng = new SeededRandom(PRACTICE_SEED);
+  return practiceQuestions.map((question) => {
+    const numItems = itemCountFor('skill', question.difficulty as 'easy' | 'medium' | 'hard');
+    return numItems === PRACTICE_BALLS ? question : generatePracticeQuestion(question.id, numItems, question.difficulty!, rng);
+  });
 }
 
 /**
  * Get questions for Skill Test (Test 1): 3 easy + 4 medium + 3 hard = 10 total
+ * unless the study configures other counts
  * Questions are GROUPED by difficulty (easy first, then medium, then hard)
  */
-export function getSkillTestQuestions(): Question[] {
+export function getSkillTestQuestions(seed: number): Question[] {
+  const { questionCounts, balanceTrapTypes } = getStudyConfig();
+  const counts = questionCounts.skill;
   const questions = loadQuestionsForPhase('training');
+  const rng = new SeededRandom(deriveSeed(seed, 'skill'));
   
   // Shuffle within each difficulty group, but keep groups separate
-  const shuffledEasy = shuffle(questions.easy);
-  const shuffledMedium = shuffle(questions.medium);
-  const shuffledHard = shuffle(questions.hard);
+  const shuffledEasy = drawPool(questions.easy, counts.easy, rng, balanceTrapTypes);
+  const shuffledMedium = drawPool(questions.medium, counts.medium, rng, balanceTrapTypes);
+  const shuffledHard = drawPool(questions.hard, counts.hard, rng, balanceTrapTypes);
   
   // Return in order: all easy, then all medium, then all hard
   return [
-    ...shuffledEasy.slice(0, 3),
-    ...shuffledMedium.slice(0, 4),
-    ...shuffledHard.slice(0, 3)
+    ...shuffledEasy.slice(0, counts.easy),
+    ...shuffledMedium.slice(0, counts.medium),
+    ...shuffledHard.slice(0, counts.hard)
   ];
 }
 
 /**
  * Get questions for Benchmark Test (Test 2): 10 easy + 10 medium + 10 hard = 30 total
- * Questions are RANDOMIZED (not grouped)
+ * unless the study configures other counts or adaptive routing picked a different mix
+ * Questions are ordered by the participant's condition (interleaved for 'random');
+ * with balanceTraps each difficulty is spread over heuristic trap types
  */
-export function getBenchmarkPhaseQuestions(): Question[] {
-  const questions = loadQuestionsForPhase('benchmark');
+export function getBenchmarkPhaseQuestions(
+  seed: number,
+  condition: OrderingCondition = DEFAULT_CONDITION,
+  mix: QuestionMix = getStudyMix('benchmark')
+): Question[] {
+  const questions = loadQuestionsForPhase('benchmark', mix);
+  const rng = new SeededRandom(deriveSeed(seed, 'benchmark'));
+  const balanceTraps = mix.balanceTraps ?? getStudyConfig().balanceTrapTypes;
   
-  const shuffledEasy = shuffle(questions.easy);
-  const shuffledMedium = shuffle(questions.medium);
-  const shuffledHard = shuffle(questions.hard);
+  const shuffledEasy = drawPool(questions.easy, mix.easy, rng, balanceTraps);
+  const shuffledMedium = drawPool(questions.medium, mix.medium, rng, balanceTraps);
+  const shuffledHard = drawPool(questions.hard, mix.hard, rng, balanceTraps);
   
-  return randomizeQuestionOrder(
+  return orderQuestionsForCondition(
+    rng,
+    condition,
     shuffledEasy,
     shuffledMedium,
     shuffledHard,
-    10,
-    10,
-    10
+    mix.easy,
+    mix.medium,
+    mix.hard
   );
 }
 
 /**
  * Get questions for Final Test (Test 3): 10 easy + 10 medium + 10 hard = 30 total
- * Questions are RANDOMIZED (not grouped)
+ * unless the study configures other counts or adaptive routing picked a different mix
+ * Questions are ordered by the participant's condition (interleaved for 'random');
+ * with balanceTraps each difficulty is spread over heuristic trap types
  */
-export function getPredictionPhaseQuestions(): Question[] {
-  const questions = loadQuestionsForPhase('prediction');
+export function getPredictionPhaseQuestions(
+  seed: number,
+  condition: OrderingCondition = DEFAULT_CONDITION,
+  mix: QuestionMix = getStudyMix('final')
+): Question[] {
+  const questions = loadQuestionsForPhase('prediction', mix);
+  const rng = new SeededRandom(deriveSeed(seed, 'final'));
+  const balanceTraps = mix.balanceTraps ?? getStudyConfig().balanceTrapTypes;
   
-  const shuffledEasy = shuffle(questions.easy);
-  const shuffledMedium = shuffle(questions.medium);
-  const shuffledHard = shuffle(questions.hard);
+  const shuffledEasy = drawPool(questions.easy, mix.easy, rng, balanceTraps);
+  const shuffledMedium = drawPool(questions.medium, mix.medium, rng, balanceTraps);
+  const shuffledHard = drawPool(questions.hard, mix.hard, rng, balanceTraps);
   
-  return randomizeQuestionOrder(
+  return orderQuestionsForCondition(
+    rng,
+    condition,
     shuffledEasy,
     shuffledMedium,
     shuffledHard,
-    10,
-    10,
-    10
+    mix.easy,
+    mix.medium,
+    mix.hard
   );
 }
 
+/**
+ * Get questions for the difficulty labelling (meta-analysis) phase: 3 easy + 4 medium + 3 hard
+ * unless the study configures other counts, drawn from the bank with the
+ * generator-assigned difficulty as the answer key. Pools of tests still ahead
+ * in the pipeline are never used, so labelled items cannot reappear in them;
+ * items in `exclude` (questions the participant already solved) are skipped
+ * while enough others remain.
+ * Difficulties are interleaved in random order so position gives no hint.
+ */
+export function getMetaAnalysisQuestions(seed: number, exclude: number[] = []): Question[] {
+  const counts = getStudyConfig().questionCounts.meta;
+  const excluded = new Set(exclude);
+  const later = metaExcludedBankPhases();
+  const rng = new SeededRandom(deriveSeed(seed, 'meta'));
+
+  const pick = (difficulty: 'easy' | 'medium' | 'hard') => {
+    const numItems = itemCountFor('meta', difficulty);
+    const pool = getBankQuestions().filter(
+      (q) => q.difficulty === difficulty && q.balls.length === numItems && !later.has(q.phase || '')
+    );
+    const unseen = pool.filter((q) => !excluded.has(q.id));
+    return shuffle(unseen.length >= counts[difficulty] ? unseen : pool, rng).slice(0, counts[difficulty]);
+  };
+
+  return shuffle([...pick('easy'), ...pick('medium'), ...pick('hard')], rng);
+}
+
+/**
+ * Look up bank questions by ID, preserving the given order
+ * Used to restore the exact question order of a resumed session
+ */
+export function getQuestionsByIds(ids: number[]): Question[] {
+  const byId = new Map(getBankQuestions().map((q) => [q.id, q]));
+  return ids
+    .map((id) => byId.get(id))
+    .filter((q): q is Question => q !== undefined);
+}
+
 /**
  * Aliases for consistency with old static-loader
  */
@@ -0,0 +1,119 @@
+/**
+ * Phase pipeline
+ * A study's phase sequence is data, not code: an ordered list of steps, each
+ * naming a phase from the registry (components/phases/registry.tsx) with
+ * optional extra props, optional branches on earlier results and whether the
+ * participant may navigate back from it. The page walks the pipeline with
+ * nextStep / previousPhaseId instead of a hardcoded phase order; a branch can
+ * also end the study early (screening, attention checks).
+ */
+
+import type { FinalStatus } from './api-client'
+
+export type PhaseId =
+  | 'intro'
+  | 'tutorial'
+  | 'training1'
+  | 'training2'
+  | 'benchmark'
+  | 'strategy'
+  | 'meta'
+  | 'prediction'
+  | 'results'
+
+export interface PhaseBranch {
+  // Dotted path into participantData, e.g. "training2.accuracy"
+  when: {
+    field: string
+    op: 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq'
+    value: number | string | boolean
+  }
+  // Later phase to jump to when the condition holds
+  goto?: PhaseId
+  // Or end the study with this final status instead (exactly one of goto and end)
+  end?: Extract<FinalStatus, 'screened_out' | 'failed_attention_check'>
+  // Recorded with the final status
+  reason?: string
+}
+
+// Where the pipeline goes after a phase: another phase, or the end of the study
+export type PipelineOutcome =
+  | { phase: PhaseId }
+  | { end: NonNullable<PhaseBranch['end']>; reason?: string }
+
+export interface PipelineStep {
+  id: PhaseId
+  // Back-navigation from this phase is disallowed unless set
+  allowBack?: boolean
+  // Checked in order when the phase finishes; the first match wins
+  branches?: PhaseBranch[]
+  // Extra props passed to the phase component
+  props?: Record<string, any>
+}
+
+// Study configurations may list a bare phase ID for a step without options
+export type PipelineEntry = PhaseId | PipelineStep
+
+export function normalizePipeline(entries: PipelineEntry[]): PipelineStep[] {
+  return entries.map((entry) => (typeof entry === 'string' ? { id: entry } : entry))
+}
+
+export function pipelineIds(entries: PipelineEntry[]): PhaseId[] {
+  return normalizePipeline(entries).map((step) => step.id)
+}
+
+/**
+ * Read a dotted path from participant data (undefined when any part is missing)
+ */
+export function resolveField(data: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), data)
+}
+
+function matches(branch: PhaseBranch, participantData: any): boolean {
+  const actual = resolveField(participantData, branch.when.field)
+  const expected = branch.when.value
+  if (actual === undefined || actual === null) return false
+
+  switch (branch.when.op) {
+    case 'eq': return actual === expected
+    case 'neq': return actual !== expected
+    case 'lt': return actual < expected
+    case 'lte': return actual <= expected
+    case 'gt': return actual > expected
+    case 'gte': return actual >= expected
+    default: return false
+  }
+}
+
+/**
+ * What follows `currentId`: the outcome of the first matching branch,
+ * otherwise the next step in order (null after the last step)
+ * Branches may only jump forward, so the pipeline always terminates.
+ */
+export function nextStep(pipeline: PipelineStep[], currentId: string, participantData: any): PipelineOutcome | null {
+  const index = pipeline.findIndex((step) => step.id === currentId)
+  if (index === -1) return null
+
+  for (const branch of pipeline[index].branches || []) {
+    if (!matches(branch, participantData)) continue
+    if (branch.end) return { end: branch.end, reason: branch.reason }
+    const target = pipeline.findIndex((step) => step.id === branch.goto)
+    if (target > index) return { phase: pipeline[target].id }
+  }
+
+  return index + 1 < pipeline.length ? { phase: pipeline[index + 1].id } : null
+}
+
+/**
+ * Phase to return to from `currentId`, or null when back-navigation is not allowed
+ * `history` holds the phases shown before the current one, so phases a branch
+ * jumped over are not revisited (a resumed session falls back to pipeline order)
+ */
+export function previousPhaseId(pipeline: PipelineStep[], currentId: string, history: string[]): PhaseId | null {
+  const index = pipeline.findIndex((step) => step.id === currentId)
+  if (index <= 0 || !pipeline[index].allowBack) return null
+
+  const previous = history.length > 0 ? history[history.length - 1] : pipeline[index - 1].id
+  const step = pipeline.find((s) => s.id === previous)
+  return step ? step.id : null
+}
@@ -0,0 +1,49 @@
+/**
+ * Server-enforced phase timers
+ * A timed phase requests a start token and deadline from the backend when it
+ * begins and counts down to that deadline (corrected for clock skew) instead
+ * of decrementing a counter, so throttled background tabs can't stretch it.
+ */
+
+import { useEffect, useState } from 'react'
+import { api, type PhaseTimerStart } from './api-client'
+
+export type TimedPhase = 'skill' | 'benchmark' | 'final'
+
+/**
+ * Seconds left until the server deadline, on the client's clock
+ */
+export function secondsUntilDeadline(timer: PhaseTimerStart): number {
+  const deadline = new Date(timer.deadline).getTime() + (timer.clockSkewMs ?? 0)
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000))
+}
+
+/**
+ * Start the server timer for a phase once it becomes active
+ * Returns null until the backend answers (or if it can't be reached, in which
+ * case the phase falls back to its local countdown)
+ */
+export function usePhaseTimer(phase: TimedPhase, active: boolean): PhaseTimerStart | null {
+  const [timer, setTimer] = useState<PhaseTimerStart | null>(null)
+
+  useEffect(() => {
+    if (!active || timer) return
+    const participantId = localStorage.getItem('participantId')
+    if (!participantId) return
+
+    let cancelled = false
+    api.startPhaseTimer(participantId, phase)
+      .then((started) => {
+        if (!cancelled) setTimer(started)
+      })
+      .catch((error) => {
+        console.error(`[PhaseTimer] Failed to start ${phase} timer, using local countdown:`, error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [phase, active, timer])
+
+  return timer
+}
@@ -0,0 +1,81 @@
+/**
+ * Question bank
+ * The backend serves versioned question banks (see backend/src/questionBank.ts)
+ * and pins each participant to the one active when they registered. The
+ * participant's bank is fetched once per page load and kept in memory so the
+ * question loader can read it synchronously; the bank bundled at build time
+ * is only used in test mode, since question IDs mean different questions in
+ * different banks. The version in use is cached so phase submissions (and
+ * session snapshots) can be stamped with it.
+ */
+
+import staticQuestions from './static-questions.json'
+import { api } from './api-client'
+import type { Question } from './participant-loader'
+
+// Also read by the submission outbox in lib/api-client.ts
+const BANK_VERSION_KEY = 'questionBankVersion'
+
+/**
+ * Version of a generator output: an explicit bankVersion, otherwise the
+ * generation timestamp (keep in sync with backend/src/questionBank.ts)
+ */
+export function bankVersionOf(metadata: { bankVersion?: string; generatedAt?: string }): string {
+  return metadata.bankVersion || metadata.generatedAt || 'bundled'
+}
+
+export const BUNDLED_BANK_VERSION = bankVersionOf(staticQuestions.metadata)
+
+let loadedBank: { version: string; questions: Question[] } | null = null
+
+/**
+ * Questions of the current bank (the bundled bank until one has been loaded)
+ */
+export function getBankQuestions(): Question[] {
+  return loadedBank ? loadedBank.questions : (staticQuestions.questions as Question[])
+}
+
+export function getBankVersion(): string {
+  return loadedBank ? loadedBank.version : BUNDLED_BANK_VERSION
+}
+
+/**
+ * Use a bank without the backend, e.g. a participant's pinned bank when
+ * reproducing their questions offline
+ */
+export function setQuestionBank(version: string, questions: Question[]) {
+  loadedBank = { version, questions }
+}
+
+// Attempts to fetch a participant's bank before giving up, and the delay between them
+const BANK_FETCH_ATTEMPTS = 3
+const BANK_RETRY_DELAY_MS = 2000
+
+/**
+ * Fetch the bank a participant is pinned to (the bundled bank without a participant)
+ * Retries a failed fetch, then rejects: a participant is never switched to
+ * the bundled bank, so the study waits until their own bank can be loaded
+ */
+export async function loadQuestionBank(participantId: string | null): Promise<string> {
+  loadedBank = null
+
+  if (participantId) {
+    for (let attempt = 1; !loadedBank; attempt++) {
+      try {
+        const response = await api.getParticipantQuestions(participantId)
+        loadedBank = { version: response.bankVersion, questions: response.questions }
+        console.log(`[QuestionBank] Loaded bank ${response.bankVersion} (${response.questions.length} questions)`)
+      } catch (error) {
+        if (attempt >= BANK_FETCH_ATTEMPTS) {
+          console.error(`[QuestionBank] Failed to load bank for participant ${participantId}:`, error)
+          throw error
+        }
+        console.warn(`[QuestionBank] Failed to load bank for participant ${participantId}, retrying (attempt ${attempt})`)
+        await new Promise((resolve) => setTimeout(resolve, BANK_RETRY_DELAY_MS * attempt))
+      }
+    }
+  }
+
+  localStorage.setItem(BANK_VERSION_KEY, getBankVersion())
+  return getBankVersion()
+}
@@ -0,0 +1,176 @@
+/**
+ * Question identity
+ * Shared by the question generator and the bank validator
+ * (scripts/validate-bank.ts) so both agree on when two questions are the same.
+ * Two questions are isomorphic when one is the other with the balls reordered,
+ * weights and capacity scaled by one constant and rewards by another, or a
+ * capacity that admits exactly the same selections; participants could
+ * recognise such a pair as a repeated puzzle. Other question types (see
+ * lib/knapsack-variants.ts) also match on copies, volumes and groups, and
+ * never match a question of another type.
+ */
+
+import { questionType } from './knapsack-variants';
+
+export interface HashableQuestion {
+  type?: string;
+  capacity: number;
+  volumeCapacity?: number;
+  balls: Array<{ weight: number; reward: number; quantity?: number; volume?: number; group?: number }>;
+}
+
+// Questions as stored in a bank, for the cross-phase check
+interface PhasedQuestion extends HashableQuestion {
+  id: number;
+  phase?: string;
+  metadata?: { nearDuplicateOf?: number };
+}
+
+export interface Isomorph {
+  questionId: number;
+  isomorphicTo: number;
+  phases: [string, string];
+}
+
+function gcd(a: number, b: number): number {
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return Math.abs(a);
+}
+
+/**
+ * Divide integer values by their greatest common divisor (other values are left as they are)
+ */
+function normalizeScale(values: number[]): { values: number[]; scale: number } {
+  if (!values.every(Number.isInteger)) return { values, scale: 1 };
+  const scale = values.reduce(gcd, 0) || 1;
+  return { values: values.map((value) => value / scale), scale };
+}
+
+/**
+ * Heaviest selection that fits: every capacity between it and the stated
+ * capacity admits the same selections
+ */
+function effectiveCapacity(weights: number[], capacity: number): number {
+  let reachable = [0];
+  for (const weight of weights) {
+    const next = reachable.map((sum) => sum + weight).filter((sum) => sum <= capacity);
+    reachable = Array.from(new Set(reachable.concat(next)));
+  }
+  return Math.max(...reachable);
+}
+
+/**
+ * Sorted ball descriptions (weight-reward, then copies and volume where the type has them)
+ */
+function ballsKey(balls: HashableQuestion['balls']): string {
+  return balls
+    .map((b) => ({ b, key: [b.weight, b.reward, b.quantity, b.volume].filter((value) => value !== undefined).join('-') }))
+    .sort((x, y) => x.b.weight - y.b.weight || x.b.reward - y.b.reward || (x.key < y.key ? -1 : x.key > y.key ? 1 : 0))
+    .map(({ key }) => key)
+    .join(',');
+}
+
+/**
+ * Generate question hash for duplicate detection
+ * 0-1 questions keep the capacity:balls form older banks were deduplicated with
+ */
+export function getQuestionHash(question: HashableQuestion): string {
+  // Create a hash based on capacity and sorted balls (by weight and reward)
+  const type = questionType(question);
+  if (type === 'binary') return `${question.capacity}:${ballsKey(question.balls)}`;
+
+  // Multiple-choice groups are compared by content, not by label
+  const groups = Array.from(new Set(question.balls.map((b) => b.group ?? 0)));
+  const sortedBalls = type === 'multiple-choice'
+    ? groups.map((group) => ballsKey(question.balls.filter((b) => (b.group ?? 0) === group))).sort().join('|')
+    : ballsKey(question.balls);
+  return `${type}:${question.capacity}/${question.volumeCapacity ?? ''}:${sortedBalls}`;
+}
+
+/**
+ * Representative of a question's isomorphism class: effective capacity,
+ * weights and capacity divided by the weights' GCD, rewards by the rewards' GCD
+ * (volumes like weights). Other types round the capacities down to a
+ * multiple of the GCD, which admits the same selections.
+ */
+export function canonicalizeQuestion(question: HashableQuestion): HashableQuestion {
+  const weights = normalizeScale(question.balls.map((ball) => ball.weight));
+  const rewards = normalizeScale(question.balls.map((ball) => ball.reward));
+  const balls = weights.values.map((weight, i) => ({ weight, reward: rewards.values[i] }));
+
+  if (questionType(question) === 'binary') {
+    const capacity = effectiveCapacity(question.balls.map((ball) => ball.weight), question.capacity);
+    return { capacity: capacity / weights.scale, balls };
+  }
+
+  const volumes = normalizeScale(question.balls.map((ball) => ball.volume ?? 0));
+  return {
+    type: question.type,
+    capacity: Math.floor(question.capacity / weights.scale),
+    ...(question.volumeCapacity !== undefined ? { volumeCapacity: Math.floor(question.volumeCapacity / volumes.scale) } : {}),
+    balls: balls.map((ball, i) => {
+      const { quantity, volume, group } = question.balls[i];
+      return {
+        ...ball,
+        ...(quantity !== undefined ? { quantity } : {}),
+        ...(volume !== undefined ? { volume: volumes.values[i] } : {}),
+        ...(group !== undefined ? { group } : {})
+      };
+    })
+  };
+}
+
+/**
+ * Hash shared by every question isomorphic to this one
+ */
+export function getCanonicalHash(question: HashableQuestion): string {
+  return getQuestionHash(canonicalizeQuestion(question));
+}
+
+/**
+ * Remove duplicate questions, including isomorphic ones (the first of each class is kept)
+ */
+export function removeDuplicates<T extends HashableQuestion>(questions: T[]): T[] {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+  
+  for (const question of questions) {
+    const hash = getCanonicalHash(question);
+    if (!seen.has(hash)) {
+      seen.add(hash);
+      unique.push(question);
+    }
+  }
+  
+  return unique;
+}
+
+/**
+ * Pairs of isomorphic questions in different phases
+ * Declared near-duplicates (metadata.nearDuplicateOf pointing at the other
+ * question) are allowed and not reported
+ */
+export function findCrossPhaseIsomorphs(questions: PhasedQuestion[]): Isomorph[] {
+  const classes = new Map<string, PhasedQuestion[]>();
+  const isomorphs: Isomorph[] = [];
+
+  for (const question of questions) {
+    const hash = getCanonicalHash(question);
+    const members = classes.get(hash) || [];
+    for (const other of members) {
+      const declared = question.metadata?.nearDuplicateOf === other.id || other.metadata?.nearDuplicateOf === question.id;
+      if (other.phase !== question.phase && !declared) {
+        isomorphs.push({
+          questionId: question.id,
+          isomorphicTo: other.id,
+          phases: [question.phase ?? 'unknown', other.phase ?? 'unknown']
+        });
+      }
+    }
+    classes.set(hash, members.concat(question));
+  }
+
+  return isomorphs;
+}
@@ -0,0 +1,60 @@
+/**
+ * Seeded Random Number Generator
+ * Shared by the runtime question loader and the offline scripts so a
+ * participant's question sequence can be regenerated exactly from its seed
+ */
+
+const MODULUS = Math.pow(2, 32);
+
+/**
+ * Linear congruential generator (same constants the generator scripts have always used)
+ */
+export class SeededRandom {
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed;
+  }
+
+  next(): number {
+    this.seed = (this.seed * 1664525 + 1013904223) % MODULUS;
+    return this.seed / MODULUS;
+  }
+
+  range(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+}
+
+/**
+ * Hash a string to an unsigned 32-bit seed (FNV-1a)
+ * Used to derive a seed from a participantId when the backend has not assigned one
+ */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Derive an independent seed for a named stream (e.g. one per phase)
+ * so phases sharing a participant seed do not get correlated orders
+ */
+export function deriveSeed(seed: number, stream: string): number {
+  return seedFromString(`${seed >>> 0}:${stream}`);
+}
+
+/**
+ * Shuffle array using Fisher-Yates algorithm driven by the given generator
+ */
+export function shuffle<T>(array: T[], rng: SeededRandom): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,97 @@
+/**
+ * Session persistence for interrupted participants
+ * Saves the current phase and in-progress phase state to the backend so a
+ * refresh or crash resumes where the participant left off
+ */
+
+import { api, getApiBase } from './api-client'
+
+export interface SessionSnapshot {
+  currentPhase: string
+  participantData: any
+  phaseState: any | null
+  // Question bank the phase state's question IDs refer to (missing in older snapshots)
+  bankVersion?: string
+}
+
+// Minimum delay between background saves (timer ticks, selections)
+const SAVE_INTERVAL = 3000
+
+let pending: { participantId: string; snapshot: SessionSnapshot } | null = null
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Load the saved session for a participant (null if nothing to resume)
+ */
+export async function loadSession(participantId: string): Promise<SessionSnapshot | null> {
+  try {
+    const session = await api.getSession(participantId)
+    if (!session.hasSession || session.completed || !session.currentPhase) {
+      return null
+    }
+
+    return {
+      currentPhase: session.currentPhase,
+      participantData: session.participantData,
+      phaseState: session.phaseState,
+    }
+  } catch (error) {
+    console.error('[Session] Failed to load session:', error)
+    return null
+  }
+}
+
+/**
+ * Queue a session save. Saves are throttled unless `immediate` is set
+ * (phase changes), in which case the latest snapshot is sent right away.
+ */
+export function saveSession(participantId: string, snapshot: SessionSnapshot, immediate = false) {
+  pending = { participantId, snapshot }
+
+  if (immediate) {
+    return flushSession()
+  }
+
+  if (!saveTimer) {
+    saveTimer = setTimeout(flushSession, SAVE_INTERVAL)
+  }
+}
+
+/**
+ * Send the latest queued snapshot to the backend
+ */
+export async function flushSession() {
+  if (saveTimer) {
+    clearTimeout(saveTimer)
+    saveTimer = null
+  }
+  if (!pending) return
+
+  const { participantId, snapshot } = pending
+  pending = null
+
+  try {
+    await api.saveSession(participantId, snapshot)
+  } catch (error) {
+    console.error('[Session] Failed to save session:', error)
+  }
+}
+
+/**
+ * Best-effort save while the page is being unloaded
+ */
+export function flushSessionOnUnload() {
+  if (!pending || typeof window === 'undefined') return
+
+  const { participantId, snapshot } = pending
+  pending = null
+
+  fetch(`${getApiBase()}/api/v1/session`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ participantId, ...snapshot }),
+    keepalive: true,
+  }).catch(() => {
+    // Page is going away, nothing left to do
+  })
+}
@@ -0,0 +1,184 @@
+/**
+ * Per-study configuration
+ * The backend keeps one configuration per Prolific study (phase sequence,
+ * item count, question counts, time limits, scoring weights). It is loaded
+ * once by STUDY_ID when the participant arrives and cached in localStorage so
+ * the question loader and phases can read it synchronously; without a study
+ * (test mode) or when the backend can't be reached the defaults apply.
+ */
+
+import { api } from './api-client'
+import { NUM_BALLS } from './config'
+import { pipelineIds, type PhaseId, type PipelineEntry } from './phase-pipeline'
+
+export interface DifficultyCounts {
+  easy: number
+  medium: number
+  hard: number
+}
+
+export interface RoutingTier {
+  // Share of the hard (low tier) or easy (high tier) questions swapped for the other end
+  shift: number
+  capacityRange: { min: number; max: number } | null
+}
+
+// Items per question for a test: one count, or per difficulty
+export type ItemCount = number | Partial<DifficultyCounts>
+
+export interface StudyConfig {
+  // Phase pipeline (see lib/phase-pipeline.ts)
+  phases: PipelineEntry[]
+  numItems: number
+  // Per-test overrides of numItems
+  itemCounts: Partial<Record<keyof StudyConfig['questionCounts'], ItemCount>>
+  questionCounts: {
+    skill: DifficultyCounts
+    benchmark: DifficultyCounts
+    final: DifficultyCounts
+    // Difficulty labelling (meta-analysis) items
+    meta: DifficultyCounts
+  }
+  // Seconds
+  timeLimits: {
+    skill: number
+    skillPerQuestion: number
+    benchmark: number
+    final: number
+  }
+  // Points per correct, unanswered and incorrect answer
+  scoring: {
+    correct: number
+    unanswered: number
+    incorrect: number
+  }
+  // Spread test questions evenly over heuristic trap types (see lib/knapsack-heuristics.ts)
+  balanceTrapTypes: boolean
+  // Adaptive routing of the Benchmark and Final mixes (see backend/src/routing.ts)
+  routing: {
+    enabled: boolean
+    low: RoutingTier
+    high: RoutingTier
+  }
+}
+
+// Mirrors DEFAULT_STUDY_CONFIG in backend/src/studyConfig.ts
+export const DEFAULT_STUDY_CONFIG: StudyConfig = {
+  phases: ['intro', 'tutorial', 'training1', 'training2', 'benchmark', 'strategy', 'prediction', 'results'],
+  numItems: NUM_BALLS,
+  itemCounts: {},
+  questionCounts: {
+    skill: { easy: 3, medium: 4, hard: 3 },
+    benchmark: { easy: 10, medium: 10, hard: 10 },
+    final: { easy: 10, medium: 10, hard: 10 },
+    meta: { easy: 3, medium: 4, hard: 3 },
+  },
+  timeLimits: {
+    skill: 15 * 60,
+    skillPerQuestion: 90,
+    benchmark: 15 * 60,
+    final: 20 * 60,
+  },
+  scoring: {
+    correct: 2,
+    unanswered: 1,
+    incorrect: 0,
+  },
+  balanceTrapTypes: false,
+  routing: {
+    enabled: false,
+    low: { shift: 0.4, capacityRange: { min: 0, max: 22 } },
+    high: { shift: 0.4, capacityRange: { min: 18, max: 1000 } },
+  },
+}
+
+const STORAGE_KEY = 'studyConfig'
+
+// Configuration set outside the browser, see setStudyConfig
+let configOverride: StudyConfig | null = null
+
+/**
+ * Use a study's configuration without the backend, e.g. to reproduce a
+ * participant's questions offline (null goes back to the defaults)
+ */
+export function setStudyConfig(config: Partial<StudyConfig> | null) {
+  configOverride = config ? { ...DEFAULT_STUDY_CONFIG, ...config } : null
+}
+
+/**
+ * The current study's configuration (defaults until one has been loaded)
+ */
+export function getStudyConfig(): StudyConfig {
+  if (configOverride) return configOverride
+  if (typeof window === 'undefined') return DEFAULT_STUDY_CONFIG
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (!stored) return DEFAULT_STUDY_CONFIG
+  try {
+    return { ...DEFAULT_STUDY_CONFIG, ...JSON.parse(stored) }
+  } catch {
+    return DEFAULT_STUDY_CONFIG
+  }
+}
+
+/**
+ * Items per question for a test's difficulty: the test's override, else numItems
+ */
+export function itemCountFor(
+  test: keyof StudyConfig['questionCounts'],
+  difficulty: keyof DifficultyCounts,
+  config: StudyConfig = getStudyConfig()
+): number {
+  const count = config.itemCounts?.[test]
+  if (typeof count === 'number') return count
+  return count?.[difficulty] ?? config.numItems
+}
+
+// Bank phase each test step draws from
+const STEP_BANK_PHASES: Partial<Record<PhaseId, string>> = {
+  training2: 'training',
+  benchmark: 'benchmark',
+  prediction: 'prediction'
+}
+
+/**
+ * Bank phases the meta-analysis items must not come from: the pools of tests
+ * after the meta phase in the pipeline, so labelled items never reappear in them
+ */
+export function metaExcludedBankPhases(config: StudyConfig = getStudyConfig()): Set<string> {
+  const steps = pipelineIds(config.phases)
+  const meta = steps.indexOf('meta')
+  const later = meta === -1 ? [] : steps.slice(meta + 1)
+  return new Set(later.map((id) => STEP_BANK_PHASES[id]).filter((phase): phase is string => !!phase))
+}
+
+/**
+ * Fetch and cache the configuration for a study
+ * Keeps the previously cached configuration if the backend can't be reached
+ */
+export async function loadStudyConfig(studyId: string | null): Promise<StudyConfig> {
+  if (!studyId) {
+    localStorage.removeItem(STORAGE_KEY)
+    return DEFAULT_STUDY_CONFIG
+  }
+
+  try {
+    const response = await api.getStudyConfig(studyId)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(response.config))
+    console.log(`[StudyConfig] Loaded configuration for study ${studyId}${response.isDefault ? ' (defaults)' : ''}`)
+  } catch (error) {
+    console.error(`[StudyConfig] Failed to load configuration for study ${studyId}, using cached or default:`, error)
+  }
+  return getStudyConfig()
+}
+
+/**
+ * Points for a test result under the study's scoring weights
+ */
+export function scorePoints(correct: number, unanswered: number, incorrect: number): number {
+  const { scoring } = getStudyConfig()
+  return correct * scoring.correct + unanswered * scoring.unanswered + incorrect * scoring.incorrect
+}
+
+export function maxPoints(totalQuestions: number): number {
+  return totalQuestions * getStudyConfig().scoring.correct
+}
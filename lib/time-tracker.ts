@@ -1,3 +1,5 @@
+import { enqueueEvent, type QueuedEvent } from './event-queue'
+
 // Time tracking utility for questions and sections
 export class TimeTracker {
   private startTime: Date | null = null
@@ -27,9 +29,11 @@ export class TimeTracker {
     console.log(`[TimeTracker] Started section: ${sectionName}`)
     
     // Log section start to backend
-    this.logTimeData({
-      sectionName,
-      timeData: {
+    this.logEvent({
+      type: 'section_start',
+      section: sectionName,
+      clientTimestamp: this.startTime.toISOString(),
+      payload: {
         startTime: this.startTime.toISOString()
       }
     })
@@ -59,10 +63,12 @@ export class TimeTracker {
     console.log(`[TimeTracker] Question ${this.questionId} completed in ${timeSpent}ms`)
     
     // Log question time to backend
-    this.logTimeData({
-      sectionName: this.sectionName,
+    this.logEvent({
+      type: 'question_end',
+      section: this.sectionName,
       questionId: this.questionId,
-      timeData: {
+      clientTimestamp: this.endTime.toISOString(),
+      payload: {
         startTime: this.startTime.toISOString(),
         endTime: this.endTime.toISOString(),
         timeSpent
@@ -83,9 +89,11 @@ export class TimeTracker {
     console.log(`[TimeTracker] Section ${this.sectionName} completed in ${timeSpent}ms`)
     
     // Log section completion to backend
-    this.logTimeData({
-      sectionName: this.sectionName,
-      timeData: {
+    this.logEvent({
+      type: 'section_end',
+      section: this.sectionName,
+      clientTimestamp: this.endTime.toISOString(),
+      payload: {
         endTime: this.endTime.toISOString(),
         timeSpent
       }
@@ -104,24 +112,18 @@ export class TimeTracker {
     
     // If we're tracking a question, log the interaction
     if (this.questionId && this.sectionName) {
-      this.logTimeData({
-        sectionName: this.sectionName,
+      this.logEvent({
+        type,
+        section: this.sectionName,
         questionId: this.questionId,
-        interactionType: type,
-        timeData: {
-          interactionData: data
-        }
+        clientTimestamp: interaction.timestamp.toISOString(),
+        payload: data || {}
       })
     }
   }
 
-  // Private method to send time data to backend
-  private async logTimeData(payload: {
-    sectionName?: string
-    questionId?: number
-    timeData: any
-    interactionType?: string
-  }) {
+  // Private method to queue an event for the backend event log (sent in batches by event-queue)
+  private logEvent(event: Omit<QueuedEvent, 'clientEventId'>) {
     // Skip if we're on the server side
     if (typeof window === 'undefined') return
     
@@ -130,28 +132,7 @@ export class TimeTracker {
       return
     }
 
-    try {
-      const API_BASE = process.env.NODE_ENV === 'production' 
-        ? "https://knapsack-expirement.onrender.com"
-        : "http://localhost:8787"
-
-      const response = await fetch(`${API_BASE}/api/v1/log-time`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          participantId: this.participantId,
-          ...payload
-        })
-      })
-
-      if (!response.ok) {
-        console.error('[TimeTracker] Failed to log time data:', response.status)
-      }
-    } catch (error) {
-      console.error('[TimeTracker] Error logging time data:', error)
-    }
+    enqueueEvent(this.participantId, event)
   }
 
   // Get current timing info
@@ -0,0 +1,409 @@
+/**
+ * Script to calibrate the static question bank with item response theory
+ * Reads exported participant data (GET /api/v1/export-prolific-data), fits a
+ * 1PL (Rasch) or 2PL model per question and writes the calibrated parameters
+ * into each question's metadata. Reports questions whose empirical difficulty
+ * disagrees with their dominance-based label.
+ *
+ * Only Benchmark and Final test answers are used: Test 1 and practice use
+ * hardcoded questions whose IDs overlap the bank. Correctness comes from the
+ * server's scoring, and only participants pinned to the calibrated bank's
+ * version count, since question IDs are only unique within a bank version.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { bankVersionOf } from '../lib/question-bank';
+
+type IrtModel = '1pl' | '2pl';
+
+interface BankQuestion {
+  id: number;
+  difficulty?: string;
+  phase?: string;
+  metadata?: Record<string, any>;
+}
+
+interface Response {
+  person: number;
+  item: number;
+  correct: 0 | 1;
+}
+
+interface ItemEstimate {
+  questionId: number;
+  label: string | undefined;
+  responses: number;
+  pCorrect: number;
+  difficulty: number;
+  discrimination: number;
+}
+
+const CALIBRATED_PHASES = ['benchmark', 'final'];
+const DIFFICULTY_ORDER = ['easy', 'medium', 'hard'];
+
+// Priors keep estimates finite for all-correct/all-wrong persons and items
+const THETA_PRIOR_SD = 1;
+const DIFFICULTY_PRIOR_SD = 2;
+const LOG_DISCRIMINATION_PRIOR_SD = 0.5;
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Collect server-scored responses from exported participants of one bank version
+ * A question counts as a response when the participant confirmed an answer;
+ * skipped and unreached questions are treated as missing, not wrong. Phases
+ * the server could not score are left out.
+ */
+function collectResponses(participants: any[], bankIds: Set<number>): {
+  responses: Response[];
+  personIds: string[];
+  itemIds: number[];
+} {
+  const personIndex = new Map<string, number>();
+  const itemIndex = new Map<number, number>();
+  const responses: Response[] = [];
+
+  for (const participant of participants) {
+    for (const phase of CALIBRATED_PHASES) {
+      const scoring = participant.tests?.[phase]?.serverScoring;
+      if (!scoring?.scored) continue;
+
+      for (const scored of scoring.questions || []) {
+        const questionId = Number(scored.questionId);
+        if (!scored.answered || !bankIds.has(questionId)) continue;
+
+        if (!personIndex.has(participant.participantId)) {
+          personIndex.set(participant.participantId, personIndex.size);
+        }
+        if (!itemIndex.has(questionId)) {
+          itemIndex.set(questionId, itemIndex.size);
+        }
+
+        responses.push({
+          person: personIndex.get(participant.participantId)!,
+          item: itemIndex.get(questionId)!,
+          correct: scored.correct ? 1 : 0
+        });
+      }
+    }
+  }
+
+  return {
+    responses,
+    personIds: Array.from(personIndex.keys()),
+    itemIds: Array.from(itemIndex.keys())
+  };
+}
+
+/**
+ * Joint maximum a posteriori estimation with alternating Newton steps
+ * 1PL: P(correct) = sigmoid(theta - b)
+ * 2PL: P(correct) = sigmoid(a * (theta - b))
+ */
+function fitIrt(
+  responses: Response[],
+  numPersons: number,
+  numItems: number,
+  model: IrtModel,
+  iterations: number
+): { theta: number[]; b: number[]; a: number[] } {
+  const theta = new Array(numPersons).fill(0);
+  const b = new Array(numItems).fill(0);
+  const a = new Array(numItems).fill(1);
+
+  const byPerson: Response[][] = Array.from({ length: numPersons }, () => []);
+  const byItem: Response[][] = Array.from({ length: numItems }, () => []);
+  for (const r of responses) {
+    byPerson[r.person].push(r);
+    byItem[r.item].push(r);
+  }
+
+  for (let iter = 0; iter < iterations; iter++) {
+    // Person abilities
+    for (let p = 0; p < numPersons; p++) {
+      let gradient = -theta[p] / (THETA_PRIOR_SD * THETA_PRIOR_SD);
+      let hessian = -1 / (THETA_PRIOR_SD * THETA_PRIOR_SD);
+      for (const r of byPerson[p]) {
+        const prob = sigmoid(a[r.item] * (theta[p] - b[r.item]));
+        gradient += a[r.item] * (r.correct - prob);
+        hessian -= a[r.item] * a[r.item] * prob * (1 - prob);
+      }
+      theta[p] -= gradient / hessian;
+    }
+
+    // Center abilities so the difficulty scale is identified
+    const meanTheta = theta.reduce((sum, t) => sum + t, 0) / Math.max(1, numPersons);
+    for (let p = 0; p < numPersons; p++) theta[p] -= meanTheta;
+
+    // Item difficulties
+    for (let i = 0; i < numItems; i++) {
+      let gradient = -b[i] / (DIFFICULTY_PRIOR_SD * DIFFICULTY_PRIOR_SD);
+      let hessian = -1 / (DIFFICULTY_PRIOR_SD * DIFFICULTY_PRIOR_SD);
+      for (const r of byItem[i]) {
+        const prob = sigmoid(a[i] * (theta[r.person] - b[i]));
+        gradient -= a[i] * (r.correct - prob);
+        hessian -= a[i] * a[i] * prob * (1 - prob);
+      }
+      b[i] -= gradient / hessian;
+    }
+
+    // Item discriminations (estimated on the log scale so they stay positive)
+    if (model === '2pl') {
+      for (let i = 0; i < numItems; i++) {
+        const logA = Math.log(a[i]);
+        let gradient = -logA / (LOG_DISCRIMINATION_PRIOR_SD * LOG_DISCRIMINATION_PRIOR_SD);
+        let hessian = -1 / (LOG_DISCRIMINATION_PRIOR_SD * LOG_DISCRIMINATION_PRIOR_SD);
+        for (const r of byItem[i]) {
+          const x = theta[r.person] - b[i];
+          const prob = sigmoid(a[i] * x);
+          gradient += a[i] * x * (r.correct - prob);
+          hessian -= a[i] * a[i] * x * x * prob * (1 - prob);
+        }
+        a[i] = Math.exp(logA - gradient / hessian);
+      }
+    }
+  }
+
+  return { theta, b, a };
+}
+
+/**
+ * Empirical label for each calibrated item: tertiles of the fitted difficulty,
+ * sized to match how many items carry each dominance label
+ */
+function empiricalLabels(estimates: ItemEstimate[]): Map<number, string> {
+  const sorted = [...estimates].sort((x, y) => x.difficulty - y.difficulty);
+  const labels = new Map<number, string>();
+  let offset = 0;
+
+  for (const level of DIFFICULTY_ORDER) {
+    const count = estimates.filter(e => e.label === level).length;
+    for (const estimate of sorted.slice(offset, offset + count)) {
+      labels.set(estimate.questionId, level);
+    }
+    offset += count;
+  }
+
+  return labels;
+}
+
+/**
+ * Spearman rank correlation between dominance label and fitted difficulty
+ */
+function spearman(xs: number[], ys: number[]): number {
+  const rank = (values: number[]) => {
+    const order = values.map((v, i) => [v, i] as const).sort((p, q) => p[0] - q[0]);
+    const ranks = new Array(values.length);
+    for (let i = 0; i < order.length; ) {
+      let j = i;
+      while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+      for (let k = i; k <= j; k++) ranks[order[k][1]] = (i + j) / 2;
+      i = j + 1;
+    }
+    return ranks;
+  };
+
+  const rx = rank(xs);
+  const ry = rank(ys);
+  const mean = (v: number[]) => v.reduce((s, x) => s + x, 0) / v.length;
+  const mx = mean(rx);
+  const my = mean(ry);
+  let num = 0;
+  let dx = 0;
+  let dy = 0;
+  for (let i = 0; i < rx.length; i++) {
+    num += (rx[i] - mx) * (ry[i] - my);
+    dx += (rx[i] - mx) ** 2;
+    dy += (ry[i] - my) ** 2;
+  }
+  return dx && dy ? num / Math.sqrt(dx * dy) : 0;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Main function
+ */
+function main() {
+  const args = process.argv.slice(2);
+
+  let inputPath: string | undefined;
+  let bankPath = './lib/static-questions.json';
+  let outputPath: string | undefined;
+  let reportPath: string | undefined;
+  let model: IrtModel = '2pl';
+  let minResponses = 10;
+  let iterations = 100;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--input' || args[i] === '-i') {
+      inputPath = args[++i];
+    } else if (args[i] === '--bank' || args[i] === '-b') {
+      bankPath = args[++i];
+    } else if (args[i] === '--output' || args[i] === '-o') {
+      outputPath = args[++i];
+    } else if (args[i] === '--report' || args[i] === '-r') {
+      reportPath = args[++i];
+    } else if (args[i] === '--model' || args[i] === '-m') {
+      const value = args[++i]?.toLowerCase();
+      if (value !== '1pl' && value !== '2pl') {
+        console.error(`❌ Unknown model "${value}". Use 1pl or 2pl.`);
+        process.exit(1);
+      }
+      model = value;
+    } else if (args[i] === '--min-responses') {
+      minResponses = parseInt(args[++i], 10);
+    } else if (args[i] === '--iterations') {
+      iterations = parseInt(args[++i], 10);
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(`
+Usage: tsx scripts/calibrate-irt.ts --input <export.json> [options]
+
+Options:
+  -i, --input <path>         Exported participant data (from /api/v1/export-prolific-data)
+  -b, --bank <path>          Question bank to calibrate (default: ./lib/static-questions.json)
+  -o, --output <path>        Where to write the calibrated bank (default: overwrite --bank)
+  -r, --report <path>        Also write the disagreement report as JSON
+  -m, --model <1pl|2pl>      IRT model (default: 2pl)
+      --min-responses <n>    Minimum responses to calibrate a question (default: 10)
+      --iterations <n>       Estimation iterations (default: 100)
+  -h, --help                 Show this help message
+
+Examples:
+  tsx scripts/calibrate-irt.ts -i ./prolific-study-data.json
+  tsx scripts/calibrate-irt.ts -i ./prolific-study-data.json -m 1pl -o ./calibrated-questions.json
+      `);
+      process.exit(0);
+    }
+  }
+
+  if (!inputPath) {
+    console.error('❌ Missing --input. Run with --help for usage.');
+    process.exit(1);
+  }
+
+  console.log(`🚀 Calibrating question bank (${model.toUpperCase()})...\n`);
+
+  const participants = JSON.parse(readFileSync(inputPath, 'utf-8'));
+  const bank = JSON.parse(readFileSync(bankPath, 'utf-8'));
+  const questions: BankQuestion[] = bank.questions;
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+
+  // Responses to other bank versions belong to different items with the same IDs
+  const bankVersion = bankVersionOf(bank.metadata || {});
+  const exported: any[] = Array.isArray(participants) ? participants : [];
+  const pinned = exported.filter(p => p.bankVersion === bankVersion);
+  if (pinned.length < exported.length) {
+    console.log(`⚠️  Skipping ${exported.length - pinned.length} participants not pinned to bank ${bankVersion}`);
+  }
+
+  const { responses, personIds, itemIds } = collectResponses(pinned, new Set(questionsById.keys()));
+  console.log(`📋 Participants: ${personIds.length}`);
+  console.log(`📋 Responses: ${responses.length} across ${itemIds.length} questions\n`);
+
+  if (responses.length === 0) {
+    console.error(`❌ No server-scored Benchmark/Final responses for bank ${bankVersion} found in the input.`);
+    process.exit(1);
+  }
+
+  const { b, a } = fitIrt(responses, personIds.length, itemIds.length, model, iterations);
+
+  // Summarize each item that has enough responses to trust
+  const estimates: ItemEstimate[] = [];
+  itemIds.forEach((questionId, index) => {
+    const itemResponses = responses.filter(r => r.item === index);
+    if (itemResponses.length < minResponses) return;
+
+    estimates.push({
+      questionId,
+      label: questionsById.get(questionId)?.difficulty,
+      responses: itemResponses.length,
+      pCorrect: itemResponses.reduce((sum, r) => sum + r.correct, 0) / itemResponses.length,
+      difficulty: b[index],
+      discrimination: a[index]
+    });
+  });
+
+  // Write parameters into question metadata
+  const calibratedAt = new Date().toISOString();
+  for (const estimate of estimates) {
+    const question = questionsById.get(estimate.questionId)!;
+    question.metadata = {
+      ...question.metadata,
+      irt: {
+        model,
+        difficulty: round(estimate.difficulty),
+        discrimination: round(estimate.discrimination),
+        responses: estimate.responses,
+        pCorrect: round(estimate.pCorrect),
+        calibratedAt
+      }
+    };
+  }
+
+  // Compare empirical difficulty with the dominance labels
+  const labeled = estimates.filter(e => e.label && DIFFICULTY_ORDER.includes(e.label));
+  const empirical = empiricalLabels(labeled);
+  const disagreements = labeled
+    .filter(e => empirical.get(e.questionId) !== e.label)
+    .map(e => ({
+      questionId: e.questionId,
+      phase: questionsById.get(e.questionId)?.phase,
+      dominanceLabel: e.label,
+      empiricalLabel: empirical.get(e.questionId),
+      difficulty: round(e.difficulty),
+      pCorrect: round(e.pCorrect),
+      responses: e.responses
+    }))
+    .sort((x, y) => x.questionId - y.questionId);
+
+  const correlation = labeled.length > 1
+    ? spearman(labeled.map(e => DIFFICULTY_ORDER.indexOf(e.label!)), labeled.map(e => e.difficulty))
+    : 0;
+
+  console.log('📈 Calibration Summary:\n');
+  console.log(`Calibrated questions: ${estimates.length} (skipped ${itemIds.length - estimates.length} with < ${minResponses} responses)`);
+  for (const level of DIFFICULTY_ORDER) {
+    const group = labeled.filter(e => e.label === level);
+    if (group.length === 0) continue;
+    const meanDifficulty = group.reduce((sum, e) => sum + e.difficulty, 0) / group.length;
+    console.log(`  ${level.padEnd(6)} n=${group.length}, mean difficulty ${round(meanDifficulty)}`);
+  }
+  console.log(`Spearman(label, difficulty): ${round(correlation)}\n`);
+
+  if (disagreements.length > 0) {
+    console.log(`⚠️  ${disagreements.length} questions disagree with their dominance label:`);
+    for (const d of disagreements) {
+      console.log(`  #${d.questionId} (${d.phase}): labeled ${d.dominanceLabel}, behaves ${d.empiricalLabel} (b=${d.difficulty}, p=${d.pCorrect}, n=${d.responses})`);
+    }
+    console.log('');
+  } else {
+    console.log('✅ All calibrated questions agree with their dominance label\n');
+  }
+
+  const target = outputPath || bankPath;
+  writeFileSync(target, JSON.stringify(bank, null, 2));
+  console.log(`💾 Calibrated bank saved to: ${target}`);
+
+  if (reportPath) {
+    writeFileSync(reportPath, JSON.stringify({
+      model,
+      calibratedAt,
+      participants: personIds.length,
+      responses: responses.length,
+      calibratedQuestions: estimates.length,
+      spearman: round(correlation),
+      disagreements
+    }, null, 2));
+    console.log(`💾 Report saved to: ${reportPath}`);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+export { fitIrt, collectResponses };
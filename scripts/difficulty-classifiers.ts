@@ -0,0 +1,500 @@
+/**
+ * Difficulty classifiers for the question generator
+ * Each classifier labels a question easy/medium/hard under one definition of
+ * difficulty. The generator picks one with --classifier (dominance by
+ * default, matching the existing bank) and compareClassifiers reports how a
+ * bank partitions under every classifier. Only dominance handles every
+ * question type (see lib/knapsack-variants.ts); the others are 0-1 only.
+ */
+
+import {
+  feasibleSubsets,
+  itemDominates,
+  knapsackTable,
+  solveKnapsack,
+  type KnapsackItem
+} from '../lib/knapsack-solver';
+import {
+  QUESTION_TYPES,
+  feasibleSelections,
+  questionGroups,
+  questionType,
+  sameSelection,
+  solveQuestion,
+  type KnapsackInstance,
+  type QuestionType
+} from '../lib/knapsack-variants';
+import { evaluateHeuristics } from '../lib/knapsack-heuristics';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface ClassifiableQuestion {
+  type?: string;
+  capacity: number;
+  volumeCapacity?: number;
+  balls: KnapsackItem[];
+  difficulty?: string;
+}
+
+export interface DifficultyClassifier {
+  name: string;
+  description: string;
+  // Question types the definition applies to (0-1 only when unset)
+  types?: QuestionType[];
+  classify(question: ClassifiableQuestion): Difficulty;
+  // Continuous hardness behind the label (higher is harder), where the definition has one
+  score?(question: ClassifiableQuestion): number;
+}
+
+/**
+ * Classifies difficulty based on Leo's definition from readme.tex
+ *
+ * Easy: For any two balls B_k and B_j, either B_k ≻ B_j OR B_j ≻ B_k
+ *       (every pair has a dominance relationship - full dominance chain)
+ *
+ * Medium: There exists one maximal ball B_k such that B_k ≻ B for all remaining B,
+ *         AND one minimal ball B_j such that B ≻ B_j for all remaining B
+ *         (partial dominance - has both maximal and minimal elements)
+ *
+ * Hard: B_k ⊁ B_j for all k, j (no dominance relationships exist)
+ */
+export function classifyDifficultyByDominance(balls: KnapsackItem[]): Difficulty {
+  if (balls.length < 2) {
+    return 'easy' // Single ball is trivially easy
+  }
+
+  // Check all pairs for dominance relationships
+  const dominanceMatrix: boolean[][] = []
+  let hasAnyDominance = false
+
+  for (let i = 0; i < balls.length; i++) {
+    dominanceMatrix[i] = []
+    for (let j = 0; j < balls.length; j++) {
+      if (i === j) {
+        dominanceMatrix[i][j] = false
+      } else {
+        const dominates = itemDominates(balls[i], balls[j])
+        dominanceMatrix[i][j] = dominates
+        if (dominates) {
+          hasAnyDominance = true
+        }
+      }
+    }
+  }
+
+  // Hard: No dominance relationships exist
+  if (!hasAnyDominance) {
+    return 'hard'
+  }
+
+  // Check if every pair has a dominance relationship (Easy)
+  let allPairsHaveDominance = true
+  for (let i = 0; i < balls.length; i++) {
+    for (let j = i + 1; j < balls.length; j++) {
+      const iDominatesJ = dominanceMatrix[i][j]
+      const jDominatesI = dominanceMatrix[j][i]
+      if (!iDominatesJ && !jDominatesI) {
+        allPairsHaveDominance = false
+        break
+      }
+    }
+    if (!allPairsHaveDominance) break
+  }
+
+  if (allPairsHaveDominance) {
+    return 'easy'
+  }
+
+  // Medium: Check for maximal and minimal elements
+  // Maximal: dominates all other balls
+  // Minimal: dominated by all other balls
+  let hasMaximal = false
+  let hasMinimal = false
+
+  for (let i = 0; i < balls.length; i++) {
+    // Check if ball i is maximal (dominates all others)
+    let dominatesAll = true
+    for (let j = 0; j < balls.length; j++) {
+      if (i !== j && !dominanceMatrix[i][j]) {
+        dominatesAll = false
+        break
+      }
+    }
+    if (dominatesAll) {
+      hasMaximal = true
+    }
+
+    // Check if ball i is minimal (dominated by all others)
+    let dominatedByAll = true
+    for (let j = 0; j < balls.length; j++) {
+      if (i !== j && !dominanceMatrix[j][i]) {
+        dominatedByAll = false
+        break
+      }
+    }
+    if (dominatedByAll) {
+      hasMinimal = true
+    }
+  }
+
+  // Medium: has both maximal and minimal elements
+  if (hasMaximal && hasMinimal) {
+    return 'medium'
+  }
+
+  // Default to hard if we can't classify as easy or medium
+  return 'hard'
+}
+
+/**
+ * Dominance label for any question type
+ * Only balls of the same multiple-choice group compete, so each group is
+ * labelled on its own: the question takes the groups' label when they agree
+ * and is medium when they differ (small groups are never medium themselves)
+ */
+export function classifyQuestionByDominance(question: ClassifiableQuestion): Difficulty {
+  if (questionType(question) !== 'multiple-choice') {
+    return classifyDifficultyByDominance(question.balls);
+  }
+
+  const labels = questionGroups(question).map((group) =>
+    classifyDifficultyByDominance(question.balls.filter((ball) => (ball.group ?? 0) === group)));
+  return labels.every((label) => label === labels[0]) ? labels[0] : 'medium';
+}
+
+/**
+ * Remove dominated items
+ */
+export function removeDominatedItems(items: KnapsackItem[]): {
+  filtered: KnapsackItem[];
+  removedCount: number;
+} {
+  const filtered: KnapsackItem[] = [];
+
+  for (const item of items) {
+    let isDominated = false;
+
+    for (const other of items) {
+      if (item.id !== other.id && itemDominates(other, item)) {
+        isDominated = true;
+        break;
+      }
+    }
+
+    if (!isDominated) {
+      filtered.push(item);
+    }
+  }
+
+  return {
+    filtered,
+    removedCount: items.length - filtered.length
+  };
+}
+
+/**
+ * Analyze difficulty
+ * Other question types pass their type and volume capacity; ball weights
+ * count once per available copy and selections follow the type's rules
+ */
+export function analyzeDifficulty(
+  items: KnapsackItem[],
+  capacity: number,
+  solution: number[],
+  variant: Pick<KnapsackInstance, 'type' | 'volumeCapacity'> = {}
+): {
+  dominanceCount: number;
+  slackRatio: number;
+  optimalityGap: number;
+  densityVariance: number;
+  // Selections that fit: the search space the participant faces
+  feasibleSelections: number;
+} {
+  const { removedCount } = removeDominatedItems(items);
+  const dominanceCount = removedCount;
+
+  const instance: KnapsackInstance = { ...variant, capacity, balls: items };
+  const copies = (item: KnapsackItem) => questionType(instance) === 'bounded' ? item.quantity ?? 1 : 1;
+
+  const totalWeight = items.reduce((sum, item) => sum + item.weight * copies(item), 0);
+  const slackRatio = capacity / totalWeight;
+
+  const densities = items.map(item => item.reward / item.weight);
+  const avgDensity = densities.reduce((sum, d) => sum + d, 0) / densities.length;
+  const densityVariance = densities.reduce((sum, d) => sum + Math.pow(d - avgDensity, 2), 0) / densities.length;
+
+  const optimal = solveQuestion(instance);
+
+  let secondBestReward = 0;
+  const subsets = feasibleSelections(instance);
+
+  for (const subset of subsets) {
+    if (sameSelection(subset.ids, solution)) continue;
+
+    secondBestReward = Math.max(secondBestReward, subset.reward);
+  }
+
+  const optimalityGap = optimal.maxReward - secondBestReward;
+
+  return {
+    dominanceCount,
+    slackRatio,
+    optimalityGap,
+    densityVariance,
+    feasibleSelections: subsets.length
+  };
+}
+
+/**
+ * Number of Pareto-optimal feasible selections: subsets no other feasible
+ * subset beats on both weight and reward. Each one is a plausible candidate
+ * the participant has to weigh against the others.
+ */
+export function countNonDominatedSubsets(question: ClassifiableQuestion): number {
+  // Sweep by weight: a selection is on the frontier when it has the best reward
+  // of its weight and beats every lighter selection
+  const subsets = feasibleSubsets(question.balls, question.capacity)
+    .sort((a, b) => a.weight - b.weight || b.reward - a.reward);
+  let count = 0;
+  let bestLighter = -Infinity;
+
+  for (let i = 0; i < subsets.length;) {
+    const { weight, reward: best } = subsets[i];
+    for (; i < subsets.length && subsets[i].weight === weight; i++) {
+      if (subsets[i].reward === best && best > bestLighter) count++;
+    }
+    bestLighter = Math.max(bestLighter, best);
+  }
+
+  return count;
+}
+
+// The frontier grows roughly as n^1.65 on generator-like instances with n
+// balls, so its size is rescaled to the 4-ball bank the thresholds were set on
+const PARETO_REFERENCE_ITEMS = 4;
+const PARETO_GROWTH = 1.65;
+
+/**
+ * Pareto frontier size comparable across item counts (the raw count for 4 balls)
+ */
+export function paretoFrontierScore(question: ClassifiableQuestion): number {
+  const scale = Math.pow(question.balls.length / PARETO_REFERENCE_ITEMS, PARETO_GROWTH);
+  return countNonDominatedSubsets(question) / scale;
+}
+
+/**
+ * Reward picking items by best reward/weight ratio falls short of the optimum,
+ * as a fraction of the optimum (0 when the greedy choice is optimal)
+ */
+export function greedyRatioGap(question: ClassifiableQuestion): number {
+  return evaluateHeuristics(question.balls, question.capacity).heuristics['best-ratio'].relativeGap;
+}
+
+/**
+ * Mean binary entropy of the take/skip decisions in each row of the DP table
+ * An item whose inclusion flips across capacities has to be reasoned about in
+ * context; one that is always (or never) taken does not. Ranges 0-1.
+ */
+export function dpDecisionEntropy(question: ClassifiableQuestion): number {
+  const dp = knapsackTable(question.balls, question.capacity);
+  let total = 0;
+
+  question.balls.forEach((item, index) => {
+    let taken = 0;
+    let cells = 0;
+    for (let w = item.weight; w <= question.capacity; w++) {
+      cells++;
+      if (dp[index + 1][w] !== dp[index][w]) taken++;
+    }
+    if (cells === 0 || taken === 0 || taken === cells) return;
+
+    const p = taken / cells;
+    total += -(p * Math.log2(p) + (1 - p) * Math.log2(1 - p));
+  });
+
+  return question.balls.length > 0 ? total / question.balls.length : 0;
+}
+
+/**
+ * Weighted composite of the analyzeDifficulty metrics and greedy failure, 0-1
+ * Few dominated items, a small gap to the second-best selection, similar
+ * densities and a greedy trap each make a question harder.
+ */
+export const COMPOSITE_WEIGHTS = {
+  dominance: 0.35,
+  optimalityGap: 0.25,
+  densityVariance: 0.15,
+  greedyFailure: 0.25
+};
+
+export function compositeScore(question: ClassifiableQuestion): number {
+  const { solution, maxReward } = solveKnapsack(question.balls, question.capacity);
+  const metrics = analyzeDifficulty(question.balls, question.capacity, solution);
+  const n = question.balls.length;
+
+  const dominance = n > 1 ? 1 - metrics.dominanceCount / (n - 1) : 0;
+  const optimalityGap = maxReward > 0 ? 1 - Math.min(1, metrics.optimalityGap / maxReward) : 1;
+  const densityVariance = 1 / (1 + metrics.densityVariance);
+  const greedyFailure = greedyRatioGap(question) > 0 ? 1 : 0;
+
+  return COMPOSITE_WEIGHTS.dominance * dominance +
+    COMPOSITE_WEIGHTS.optimalityGap * optimalityGap +
+    COMPOSITE_WEIGHTS.densityVariance * densityVariance +
+    COMPOSITE_WEIGHTS.greedyFailure * greedyFailure;
+}
+
+/**
+ * Label a score with [easy upper bound, medium upper bound] cut-offs
+ */
+function byThresholds(score: number, [easyMax, mediumMax]: [number, number]): Difficulty {
+  if (score <= easyMax) return 'easy';
+  if (score <= mediumMax) return 'medium';
+  return 'hard';
+}
+
+// Cut-offs near the terciles of the 4-item bank (see --compare); greedy-ratio
+// keeps 'easy' for items where the greedy choice is optimal, which is most of them.
+// The other scores are per-ball means or relative gaps, so the cut-offs carry
+// over to larger instances; only the frontier size needs rescaling
+const NON_DOMINATED_THRESHOLDS: [number, number] = [4, 5];
+const GREEDY_GAP_THRESHOLDS: [number, number] = [0, 0.05];
+const DP_ENTROPY_THRESHOLDS: [number, number] = [0.38, 0.46];
+const COMPOSITE_THRESHOLDS: [number, number] = [0.22, 0.27];
+
+const scored = (
+  name: string,
+  description: string,
+  score: (question: ClassifiableQuestion) => number,
+  thresholds: [number, number]
+): DifficultyClassifier => ({
+  name,
+  description,
+  score,
+  classify: (question) => byThresholds(score(question), thresholds)
+});
+
+export const DIFFICULTY_CLASSIFIERS: Record<string, DifficultyClassifier> = {
+  dominance: {
+    name: 'dominance',
+    description: 'Pairwise dominance structure of the balls (full chain / maximal and minimal ball / none)',
+    types: [...QUESTION_TYPES],
+    classify: classifyQuestionByDominance
+  },
+  'non-dominated-subsets': scored(
+    'non-dominated-subsets',
+    'Number of Pareto-optimal feasible selections (weight vs reward), scaled for item count',
+    paretoFrontierScore,
+    NON_DOMINATED_THRESHOLDS
+  ),
+  'greedy-ratio': scored(
+    'greedy-ratio',
+    'Relative reward lost by taking balls in order of reward/weight ratio',
+    greedyRatioGap,
+    GREEDY_GAP_THRESHOLDS
+  ),
+  'dp-entropy': scored(
+    'dp-entropy',
+    'Mean entropy of the take/skip decisions in the DP table',
+    dpDecisionEntropy,
+    DP_ENTROPY_THRESHOLDS
+  ),
+  composite: scored(
+    'composite',
+    'Weighted composite of dominance, optimality gap, density variance and greedy failure',
+    compositeScore,
+    COMPOSITE_THRESHOLDS
+  )
+};
+
+export function getClassifier(name: string): DifficultyClassifier | undefined {
+  return DIFFICULTY_CLASSIFIERS[name];
+}
+
+export function supportsType(classifier: DifficultyClassifier, type: QuestionType): boolean {
+  return (classifier.types ?? ['binary']).includes(type);
+}
+
+export interface ClassifierReport {
+  questions: number;
+  // Label counts per classifier
+  partitions: Record<string, Record<Difficulty, number>>;
+  // Share of questions each classifier labels the same as the stored difficulty
+  agreementWithBank: Record<string, number | null>;
+  // Share of questions two classifiers label the same
+  pairwiseAgreement: Record<string, Record<string, number>>;
+  // Stored difficulty x classifier label counts
+  crossTabs: Record<string, Record<string, Record<Difficulty, number>>>;
+}
+
+/**
+ * How a bank partitions under each classifier, and how far they agree
+ * By default only classifiers that handle every question type in the bank
+ */
+export function compareClassifiers(
+  questions: ClassifiableQuestion[],
+  names: string[] = Object.keys(DIFFICULTY_CLASSIFIERS).filter((name) =>
+    questions.every((question) => supportsType(DIFFICULTY_CLASSIFIERS[name], questionType(question))))
+): ClassifierReport {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const labels: Record<string, Difficulty[]> = {};
+  names.forEach((name) => {
+    labels[name] = questions.map((question) => DIFFICULTY_CLASSIFIERS[name].classify(question));
+  });
+
+  const labelled = questions.filter((question) => question.difficulty);
+  const report: ClassifierReport = {
+    questions: questions.length,
+    partitions: {},
+    agreementWithBank: {},
+    pairwiseAgreement: {},
+    crossTabs: {}
+  };
+
+  for (const name of names) {
+    report.partitions[name] = { easy: 0, medium: 0, hard: 0 };
+    labels[name].forEach((label) => report.partitions[name][label]++);
+
+    report.crossTabs[name] = {};
+    let agreeing = 0;
+    questions.forEach((question, index) => {
+      if (!question.difficulty) return;
+      if (!report.crossTabs[name][question.difficulty]) {
+        report.crossTabs[name][question.difficulty] = { easy: 0, medium: 0, hard: 0 };
+      }
+      report.crossTabs[name][question.difficulty][labels[name][index]]++;
+      if (question.difficulty === labels[name][index]) agreeing++;
+    });
+    report.agreementWithBank[name] = labelled.length > 0 ? round(agreeing / labelled.length) : null;
+
+    report.pairwiseAgreement[name] = {};
+    for (const other of names) {
+      const same = labels[name].filter((label, index) => label === labels[other][index]).length;
+      report.pairwiseAgreement[name][other] = questions.length > 0 ? round(same / questions.length) : 0;
+    }
+  }
+
+  return report;
+}
+
+export function printClassifierReport(report: ClassifierReport): void {
+  const names = Object.keys(report.partitions);
+  const pad = (value: string | number, width: number) => String(value).padEnd(width);
+  const width = Math.max(...names.map((name) => name.length)) + 2;
+
+  console.log(`\n📊 Difficulty partitions (${report.questions} questions):\n`);
+  console.log(`  ${pad('classifier', width)}${pad('easy', 8)}${pad('medium', 8)}${pad('hard', 8)}agrees with bank`);
+  for (const name of names) {
+    const { easy, medium, hard } = report.partitions[name];
+    const agreement = report.agreementWithBank[name];
+    console.log(`  ${pad(name, width)}${pad(easy, 8)}${pad(medium, 8)}${pad(hard, 8)}${agreement === null ? '-' : `${(agreement * 100).toFixed(1)}%`}`);
+  }
+
+  console.log('\n🔀 Pairwise agreement:\n');
+  console.log(`  ${pad('', width)}${names.map((name) => pad(name, width)).join('')}`);
+  for (const name of names) {
+    const row = names.map((other) => pad(`${(report.pairwiseAgreement[name][other] * 100).toFixed(1)}%`, width)).join('');
+    console.log(`  ${pad(name, width)}${row}`);
+  }
+}
@@ -1,318 +1,71 @@
 /**
  * Script to generate complete question set for a participant
  * Outputs all questions (practice, test 1, test 2, test 3) in JSON format
+ * Uses the same seeded loader as the frontend, so a participant's seed
+ * (or participantId) reproduces exactly the sequence they were shown, given
+ * the same study configuration, routing tier and question bank. Those come
+ * from flags or from the participant's record in the admin export.
  */
 
-import { writeFileSync } from 'fs';
-import { NUM_BALLS } from '../lib/config';
-import staticQuestions from '../lib/static-questions.json';
+import { readFileSync, writeFileSync } from 'fs';
+import { seedFromString } from '../lib/seeded-random';
+import { getStudyConfig, setStudyConfig } from '../lib/study-config';
+import { bankVersionOf, getBankVersion, setQuestionBank } from '../lib/question-bank';
+import { mixForTier, type SkillTier } from '../backend/src/routing';
+import { DEFAULT_CONDITION, ORDERING_CONDITIONS, isOrderingCondition } from '../lib/conditions';
+import {
+  getPracticeQuestions,
+  getSkillTestQuestions,
+  getBenchmarkPhaseQuestions,
+  getPredictionPhaseQuestions,
+  type Question,
+  type QuestionMix
+} from '../lib/participant-loader';
 
-interface StaticQuestion {
-  id: number;
-  capacity: number;
-  balls: Array<{
-    id: number;
-    weight: number;
-    reward: number;
-    color: string;
-  }>;
-  solution: number[];
-  explanation?: string;
-  difficulty?: string;
-  phase?: string;
-  metadata?: {
-    dominanceCount: number;
-    slackRatio: number;
-    optimalityGap: number;
-    densityVariance: number;
-  };
-}
-
-interface QuestionSet {
-  easy: StaticQuestion[];
-  medium: StaticQuestion[];
-  hard: StaticQuestion[];
-}
-
-/**
- * Load questions for a specific phase and difficulty
- * Filters by NUM_BALLS to ensure all questions have the correct number of balls
- */
-function loadQuestionsForPhase(phase: 'training' | 'benchmark' | 'prediction'): QuestionSet {
-  const phaseQuestions = staticQuestions.questions.filter(
-    (q: StaticQuestion) => q.phase === phase && q.balls.length === NUM_BALLS
-  );
-
-  return {
-    easy: phaseQuestions.filter(q => q.difficulty === 'easy'),
-    medium: phaseQuestions.filter(q => q.difficulty === 'medium'),
-    hard: phaseQuestions.filter(q => q.difficulty === 'hard')
-  };
-}
-
-/**
- * Generate all permutations of a pattern with given counts
- * Example: generatePermutations(2, 2, 0) returns ['EEMM', 'EMEM', 'MEME', 'MMEE']
- */
-function generatePermutations(easyCount: number, mediumCount: number, hardCount: number): string[] {
-  const patterns: string[] = [];
-  const total = easyCount + mediumCount + hardCount;
-  
-  function generate(current: string, eRemaining: number, mRemaining: number, hRemaining: number) {
-    if (current.length === total) {
-      patterns.push(current);
-      return;
-    }
-    
-    if (eRemaining > 0) {
-      generate(current + 'E', eRemaining - 1, mRemaining, hRemaining);
-    }
-    if (mRemaining > 0) {
-      generate(current + 'M', eRemaining, mRemaining - 1, hRemaining);
-    }
-    if (hRemaining > 0) {
-      generate(current + 'H', eRemaining, mRemaining, hRemaining - 1);
-    }
-  }
-  
-  generate('', easyCount, mediumCount, hardCount);
-  return patterns;
-}
+const SKILL_TIERS: SkillTier[] = ['low', 'mid', 'high'];
 
-/**
- * Shuffle array using Fisher-Yates algorithm
- */
-function shuffle<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+// Mixes adaptive routing picked for the Benchmark and Final tests (null: the study's counts)
+interface RoutingMixes {
+  tier: string | null;
+  benchmark: QuestionMix;
+  final: QuestionMix;
 }
 
 /**
- * Randomize question order using weighted random selection
- * More efficient than generating all permutations - randomly selects difficulty
- * based on remaining counts
+ * A participant from GET /api/v1/export-prolific-data (one entry, or the whole
+ * export with the participant picked by ID) or the analytics detail view
  */
-function randomizeQuestionOrder(
-  easyQuestions: StaticQuestion[],
-  mediumQuestions: StaticQuestion[],
-  hardQuestions: StaticQuestion[],
-  easyCount: number,
-  mediumCount: number,
-  hardCount: number
-): StaticQuestion[] {
-  // Shuffle questions within each difficulty group
-  const shuffledEasy = shuffle(easyQuestions);
-  const shuffledMedium = shuffle(mediumQuestions);
-  const shuffledHard = shuffle(hardQuestions);
-  
-  // Build result array by randomly selecting from remaining difficulties
-  const result: StaticQuestion[] = [];
-  let easyIndex = 0;
-  let mediumIndex = 0;
-  let hardIndex = 0;
-  let eRemaining = easyCount;
-  let mRemaining = mediumCount;
-  let hRemaining = hardCount;
-  
-  const total = easyCount + mediumCount + hardCount;
-  
-  for (let i = 0; i < total; i++) {
-    // Calculate weights based on remaining counts
-    const totalRemaining = eRemaining + mRemaining + hRemaining;
-    const rand = Math.random() * totalRemaining;
-    
-    if (rand < eRemaining && easyIndex < shuffledEasy.length) {
-      result.push(shuffledEasy[easyIndex++]);
-      eRemaining--;
-    } else if (rand < eRemaining + mRemaining && mediumIndex < shuffledMedium.length) {
-      result.push(shuffledMedium[mediumIndex++]);
-      mRemaining--;
-    } else if (hardIndex < shuffledHard.length) {
-      result.push(shuffledHard[hardIndex++]);
-      hRemaining--;
-    } else if (easyIndex < shuffledEasy.length) {
-      // Fallback if one category runs out
-      result.push(shuffledEasy[easyIndex++]);
-      eRemaining--;
-    } else if (mediumIndex < shuffledMedium.length) {
-      result.push(shuffledMedium[mediumIndex++]);
-      mRemaining--;
-    }
+function readParticipantRecord(path: string, participantId?: string): any {
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+  const records: any[] = (Array.isArray(data) ? data : [data]).map((record) => record.participantInfo ?? record);
+  const record = participantId ? records.find((r) => r.participantId === participantId) : records[0];
+  if (!record || (Array.isArray(data) && data.length > 1 && !participantId)) {
+    console.error(`❌ ${participantId ? `Participant ${participantId} not found` : 'Pass --participant-id to pick a participant'} in ${path}`);
+    process.exit(1);
   }
-  
-  return result;
-}
-
-/**
- * Get practice questions (hardcoded 6 questions: 2 easy + 2 medium + 2 hard)
- */
-function getPracticeQuestions(): StaticQuestion[] {
-  const practiceQuestions: StaticQuestion[] = [
-    {
-      id: 1,
-      capacity: 8,
-      balls: [
-        { id: 1, weight: 3, reward: 12, color: "bg-red-500" },
-        { id: 2, weight: 4, reward: 10, color: "bg-blue-500" },
-        { id: 3, weight: 2, reward: 8, color: "bg-green-500" },
-        { id: 4, weight: 5, reward: 15, color: "bg-yellow-500" }
-      ],
-      solution: [1, 4],
-      explanation: "Select items 1 and 4 for total weight 8 and reward 27, using the full capacity.",
-      difficulty: "easy"
-    },
-    {
-      id: 2,
-      capacity: 10,
-      balls: [
-        { id: 1, weight: 4, reward: 15, color: "bg-yellow-500" },
-        { id: 2, weight: 3, reward: 12, color: "bg-purple-500" },
-        { id: 3, weight: 5, reward: 18, color: "bg-pink-500" },
-        { id: 4, weight: 2, reward: 10, color: "bg-indigo-500" }
-      ],
-      solution: [2, 3, 4],
-      explanation: "Select items 2, 3, and 4 for total weight 10 and reward 40, using the full capacity.",
-      difficulty: "easy"
-    },
-    {
-      id: 3,
-      capacity: 12,
-      balls: [
-        { id: 1, weight: 4, reward: 16, color: "bg-indigo-500" },
-        { id: 2, weight: 3, reward: 12, color: "bg-orange-500" },
-        { id: 3, weight: 5, reward: 20, color: "bg-teal-500" },
-        { id: 4, weight: 2, reward: 8, color: "bg-rose-500" }
-      ],
-      solution: [1, 2, 3],
-      explanation: "Select items 1, 2, and 3 for total weight 12 and reward 48, using the full capacity.",
-      difficulty: "medium"
-    },
-    {
-      id: 4,
-      capacity: 15,
-      balls: [
-        { id: 1, weight: 5, reward: 20, color: "bg-cyan-500" },
-        { id: 2, weight: 3, reward: 15, color: "bg-lime-500" },
-        { id: 3, weight: 4, reward: 18, color: "bg-amber-500" },
-        { id: 4, weight: 6, reward: 22, color: "bg-emerald-500" }
-      ],
-      solution: [1, 3, 4],
-      explanation: "Select items 1, 3, and 4 for total weight 15 and reward 60, using the full capacity.",
-      difficulty: "medium"
-    },
-    {
-      id: 5,
-      capacity: 18,
-      balls: [
-        { id: 1, weight: 6, reward: 24, color: "bg-violet-500" },
-        { id: 2, weight: 4, reward: 18, color: "bg-sky-500" },
-        { id: 3, weight: 5, reward: 22, color: "bg-stone-500" },
-        { id: 4, weight: 3, reward: 15, color: "bg-slate-500" }
-      ],
-      solution: [1, 2, 3, 4],
-      explanation: "Select all items 1, 2, 3, and 4 for total weight 18 and reward 79, using the full capacity.",
-      difficulty: "hard"
-    },
-    {
-      id: 6,
-      capacity: 20,
-      balls: [
-        { id: 1, weight: 7, reward: 28, color: "bg-zinc-500" },
-        { id: 2, weight: 4, reward: 20, color: "bg-red-600" },
-        { id: 3, weight: 5, reward: 25, color: "bg-blue-600" },
-        { id: 4, weight: 3, reward: 18, color: "bg-green-600" }
-      ],
-      solution: [1, 2, 3, 4],
-      explanation: "Select all items 1, 2, 3, and 4 for total weight 19 and reward 91, staying within capacity 20.",
-      difficulty: "hard"
-    }
-  ];
-  
-  // Filter to ensure all have NUM_BALLS
-  return practiceQuestions.filter(q => q.balls.length === NUM_BALLS);
-}
-
-/**
- * Get questions for Skill Test (Training): grouped by difficulty
- * Returns: all easy questions first, then all medium, then all hard
- */
-function getSkillTestQuestions(): StaticQuestion[] {
-  const questions = loadQuestionsForPhase('training');
-  
-  // Shuffle within each difficulty group for variety, but keep groups separate
-  const shuffledEasy = shuffle(questions.easy);
-  const shuffledMedium = shuffle(questions.medium);
-  const shuffledHard = shuffle(questions.hard);
-  
-  // Return in order: all easy, then all medium, then all hard
-  return [
-    ...shuffledEasy.slice(0, 3),
-    ...shuffledMedium.slice(0, 4),
-    ...shuffledHard.slice(0, 3)
-  ];
-}
-
-/**
- * Get questions for Benchmark Test: 10 easy + 10 medium + 10 hard = 30 total
- * Questions are randomized using permutation patterns
- */
-function getBenchmarkTestQuestions(): StaticQuestion[] {
-  const questions = loadQuestionsForPhase('benchmark');
-  
-  // Shuffle within each difficulty group
-  const shuffledEasy = shuffle(questions.easy);
-  const shuffledMedium = shuffle(questions.medium);
-  const shuffledHard = shuffle(questions.hard);
-  
-  // Randomize order using permutation patterns
-  return randomizeQuestionOrder(
-    shuffledEasy,
-    shuffledMedium,
-    shuffledHard,
-    10,
-    10,
-    10
-  );
-}
-
-/**
- * Get questions for Final Test (Prediction): 10 easy + 10 medium + 10 hard = 30 total
- * Questions are randomized using permutation patterns
- */
-function getFinalTestQuestions(): StaticQuestion[] {
-  const questions = loadQuestionsForPhase('prediction');
-  
-  // Shuffle within each difficulty group
-  const shuffledEasy = shuffle(questions.easy);
-  const shuffledMedium = shuffle(questions.medium);
-  const shuffledHard = shuffle(questions.hard);
-  
-  // Randomize order using permutation patterns
-  return randomizeQuestionOrder(
-    shuffledEasy,
-    shuffledMedium,
-    shuffledHard,
-    10,
-    10,
-    10
-  );
+  return record;
 }
 
 /**
  * Generate complete question set for a participant
  */
-function generateParticipantQuestionSet(participantId?: string, seed?: number): {
+function generateParticipantQuestionSet(
+  participantId?: string,
+  seed?: number,
+  condition: string = DEFAULT_CONDITION,
+  routing: RoutingMixes | null = null
+): {
   participantId: string;
+  seed: number;
+  condition: string;
+  routingTier: string | null;
+  bankVersion: string;
   generatedAt: string;
   numBalls: number;
-  practice: StaticQuestion[];
-  test1: StaticQuestion[];
-  test2: StaticQuestion[];
-  test3: StaticQuestion[];
+  practice: Question[];
+  test1: Question[];
+  test2: Question[];
+  test3: Question[];
   statistics: {
     practice: { easy: number; medium: number; hard: number; total: number };
     test1: { easy: number; medium: number; hard: number; total: number };
@@ -320,26 +73,19 @@ function generateParticipantQuestionSet(participantId?: string, seed?: number):
     test3: { easy: number; medium: number; hard: number; total: number };
   };
 } {
-  // Set seed for reproducibility if provided
-  if (seed !== undefined) {
-    // Simple seeded random number generator
-    let seedValue = seed;
-    Math.random = () => {
-      seedValue = (seedValue * 1664525 + 1013904223) % Math.pow(2, 32);
-      return seedValue / Math.pow(2, 32);
-    };
-  }
-
   const pid = participantId || `participant-${Date.now()}`;
+
+  // Same fallback as the frontend: an unassigned seed is derived from the participantId
+  const questionSeed = seed !== undefined ? seed >>> 0 : seedFromString(pid);
   
   // Generate all question sets
   const practiceQuestions = getPracticeQuestions();
-  const test1Questions = getSkillTestQuestions();
-  const test2Questions = getBenchmarkTestQuestions();
-  const test3Questions = getFinalTestQuestions();
+  const test1Questions = getSkillTestQuestions(questionSeed);
+  const test2Questions = getBenchmarkPhaseQuestions(questionSeed, condition, routing?.benchmark);
+  const test3Questions = getPredictionPhaseQuestions(questionSeed, condition, routing?.final);
 
   // Calculate statistics
-  const countByDifficulty = (questions: StaticQuestion[]) => ({
+  const countByDifficulty = (questions: Question[]) => ({
     easy: questions.filter(q => q.difficulty === 'easy').length,
     medium: questions.filter(q => q.difficulty === 'medium').length,
     hard: questions.filter(q => q.difficulty === 'hard').length,
@@ -355,8 +101,12 @@ function generateParticipantQuestionSet(participantId?: string, seed?: number):
 
   return {
     participantId: pid,
+    seed: questionSeed,
+    condition,
+    routingTier: routing?.tier ?? null,
+    bankVersion: getBankVersion(),
     generatedAt: new Date().toISOString(),
-    numBalls: NUM_BALLS,
+    numBalls: getStudyConfig().numItems,
     practice: practiceQuestions,
     test1: test1Questions,
     test2: test2Questions,
@@ -374,6 +124,11 @@ function main() {
   // Parse command line arguments
   let participantId: string | undefined;
   let seed: number | undefined;
+  let condition: string | undefined;
+  let tier: string | undefined;
+  let recordPath: string | undefined;
+  let studyConfigPath: string | undefined;
+  let bankPath: string | undefined;
   let outputPath = './participant-question-set.json';
 
   for (let i = 0; i < args.length; i++) {
@@ -381,6 +136,16 @@ function main() {
       participantId = args[++i];
     } else if (args[i] === '--seed' || args[i] === '-s') {
       seed = parseInt(args[++i], 10);
+    } else if (args[i] === '--condition' || args[i] === '-c') {
+      condition = args[++i];
+    } else if (args[i] === '--tier' || args[i] === '-t') {
+      tier = args[++i];
+    } else if (args[i] === '--participant' || args[i] === '-r') {
+      recordPath = args[++i];
+    } else if (args[i] === '--study-config') {
+      studyConfigPath = args[++i];
+    } else if (args[i] === '--bank' || args[i] === '-b') {
+      bankPath = args[++i];
     } else if (args[i] === '--output' || args[i] === '-o') {
       outputPath = args[++i];
     } else if (args[i] === '--help' || args[i] === '-h') {
@@ -389,30 +154,84 @@ Usage: tsx scripts/generate-participant-questions.ts [options]
 
 Options:
   -p, --participant-id <id>  Participant ID (default: auto-generated)
-  -s, --seed <number>        Random seed for reproducibility
+  -s, --seed <number>        Question seed assigned at registration
+                             (default: derived from the participant ID)
+  -c, --condition <name>     Ordering condition: ${ORDERING_CONDITIONS.join(', ')}
+                             (default: ${DEFAULT_CONDITION})
+  -t, --tier <tier>          Adaptive routing tier: ${SKILL_TIERS.join(', ')}
+                             (default: routing off, the study's question counts)
+  -r, --participant <path>   Participant record (an entry of GET /api/v1/export-prolific-data,
+                             or the whole export with -p); fills in the ID, seed, condition,
+                             routing and pinned bank version unless given above
+      --study-config <path>  Study configuration JSON, as returned by GET /api/v1/study-config/:studyId
+                             (default: the built-in defaults)
+  -b, --bank <path>          Question bank the participant was pinned to (generator output;
+                             default: ./lib/static-questions.json)
   -o, --output <path>        Output file path (default: ./participant-question-set.json)
   -h, --help                 Show this help message
 
 Examples:
   tsx scripts/generate-participant-questions.ts
   tsx scripts/generate-participant-questions.ts -p "P001" -s 12345
+  tsx scripts/generate-participant-questions.ts -p "P001" -s 12345 -c HME -t high
+  tsx scripts/generate-participant-questions.ts -r ./prolific-study-data.json -p "P001" --study-config ./study.json
   tsx scripts/generate-participant-questions.ts -o "./output/p001-questions.json"
       `);
       process.exit(0);
     }
   }
 
+  // Explicit flags win over the participant record
+  const record = recordPath ? readParticipantRecord(recordPath, participantId) : null;
+  participantId = participantId ?? record?.participantId;
+  seed = seed ?? (Number.isInteger(record?.questionSeed) ? record.questionSeed : undefined);
+  condition = condition ?? record?.condition ?? DEFAULT_CONDITION;
+
+  if (!isOrderingCondition(condition!)) {
+    console.error(`❌ Unknown condition "${condition}". Use one of: ${ORDERING_CONDITIONS.join(', ')}`);
+    process.exit(1);
+  }
+  if (tier !== undefined && !(SKILL_TIERS as string[]).includes(tier)) {
+    console.error(`❌ Unknown routing tier "${tier}". Use one of: ${SKILL_TIERS.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (studyConfigPath) {
+    const studyConfig = JSON.parse(readFileSync(studyConfigPath, 'utf-8'));
+    setStudyConfig(studyConfig.config ?? studyConfig);
+  }
+
+  // A tier uses the study's tier mixes; otherwise the routing decision stored with the participant
+  const { questionCounts, routing: routingConfig } = getStudyConfig();
+  const routing: RoutingMixes | null = tier
+    ? {
+      tier,
+      benchmark: mixForTier(tier as SkillTier, questionCounts.benchmark, routingConfig),
+      final: mixForTier(tier as SkillTier, questionCounts.final, routingConfig)
+    }
+    : record?.routing?.enabled
+      ? { tier: record.routing.tier, benchmark: record.routing.benchmark, final: record.routing.final }
+      : null;
+  if (bankPath) {
+    const bank = JSON.parse(readFileSync(bankPath, 'utf-8'));
+    setQuestionBank(bankVersionOf(bank.metadata || {}), bank.questions);
+  }
+  if (record?.bankVersion && record.bankVersion !== getBankVersion()) {
+    console.warn(`⚠️  Participant was pinned to bank ${record.bankVersion}, generating from ${getBankVersion()} (pass that bank with --bank)\n`);
+  }
+
   console.log('🚀 Generating complete question set for participant...\n');
   
   if (participantId) {
     console.log(`📋 Participant ID: ${participantId}`);
   }
-  if (seed !== undefined) {
-    console.log(`🎲 Seed: ${seed}`);
-  }
-  console.log(`📊 NUM_BALLS: ${NUM_BALLS}\n`);
+  console.log(`📊 Items per question: ${getStudyConfig().numItems}\n`);
 
-  const questionSet = generateParticipantQuestionSet(participantId, seed);
+  const questionSet = generateParticipantQuestionSet(participantId, seed, condition, routing);
+  console.log(`🎲 Seed: ${questionSet.seed}`);
+  console.log(`🔀 Condition: ${questionSet.condition}`);
+  console.log(`🧭 Routing tier: ${questionSet.routingTier ?? 'off'}`);
+  console.log(`📚 Bank: ${questionSet.bankVersion}\n`);
 
   // Display statistics
   console.log('📈 Question Set Statistics:\n');
@@ -434,7 +253,7 @@ Examples:
   console.log(`  ${test1Order}\n`);
 
   // Show Test 2 ordering sample (should be randomized)
-  console.log('📋 Test 2 Order Sample (first 10 questions, should be randomized):');
+  console.log(`📋 Test 2 Order Sample (first 10 questions, condition ${questionSet.condition}):`);
   const test2Order = questionSet.test2.slice(0, 10).map((q, i) => `${i + 1}. ${q.difficulty?.toUpperCase() || 'UNKNOWN'}`).join(', ');
   console.log(`  ${test2Order}...\n`);
 
@@ -1,11 +1,37 @@
 /**
  * Script to generate static question set for all phases and difficulties
- * Generates many questions and removes duplicates to create a final static set
- * Uses NUM_BALLS constant and Leo's difficulty classification
+ * Generates many questions and removes duplicates (including isomorphic ones,
+ * see lib/question-hash.ts) to create a final static set whose phases are
+ * disjoint, optionally with declared near-duplicates for transfer studies
+ * Uses NUM_BALLS balls per question unless --items sets other counts per phase
+ * or difficulty, and a pluggable difficulty classifier (Leo's dominance
+ * definition by default, see scripts/difficulty-classifiers.ts)
+ * --type generates bounded, multidimensional or multiple-choice questions
+ * instead of 0-1 ones (see lib/knapsack-variants.ts)
  */
 
-import { writeFileSync } from 'fs';
-import { NUM_BALLS } from '../lib/config';
+import { readFileSync, writeFileSync } from 'fs';
+import { BALL_COLORS, NUM_BALLS } from '../lib/config';
+import { SeededRandom, shuffle } from '../lib/seeded-random';
+import {
+  QUESTION_TYPES,
+  enumerateOptimalSelections,
+  questionType,
+  solveQuestion,
+  type KnapsackInstance,
+  type QuestionType
+} from '../lib/knapsack-variants';
+import { evaluateHeuristics, type HeuristicName, type HeuristicResult } from '../lib/knapsack-heuristics';
+import { findCrossPhaseIsomorphs, removeDuplicates } from '../lib/question-hash';
+import {
+  DIFFICULTY_CLASSIFIERS,
+  analyzeDifficulty,
+  compareClassifiers,
+  getClassifier,
+  printClassifierReport,
+  supportsType,
+  type DifficultyClassifier
+} from './difficulty-classifiers';
 
 // Define types
 interface Ball {
@@ -13,25 +39,54 @@ interface Ball {
   weight: number;
   reward: number;
   color: string;
+  // Bounded: copies available; multidimensional: volume; multiple-choice: group
+  quantity?: number;
+  volume?: number;
+  group?: number;
 }
 
 interface Question {
   id: number;
+  type?: QuestionType;
   capacity: number;
+  volumeCapacity?: number;
   balls: Ball[];
   solution?: number[];
+  // Every optimal selection; more than one only when ensureUniqueSolution is off and rewards tie
+  solutions?: number[][];
   explanation?: string;
   difficulty?: string;
   phase?: string;
   metadata?: {
+    uniqueSolution: boolean;
     dominanceCount: number;
     slackRatio: number;
     optimalityGap: number;
     densityVariance: number;
+    feasibleSelections: number;
+    // 0-1 questions only: the heuristics are defined for that problem
+    heuristics?: Record<HeuristicName, HeuristicResult>;
+    traps?: HeuristicName[];
+    // Near-duplicates only: the training question this one is isomorphic to and how it was transformed
+    nearDuplicateOf?: number;
+    transform?: NearDuplicateTransform;
   };
 }
 
+interface NearDuplicateTransform {
+  // Source ball id at each position of the reordered balls
+  order: number[];
+  weightScale: number;
+  rewardScale: number;
+}
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+// Balls per question for each phase and difficulty
+type ItemCounts = Record<string, Record<Difficulty, number>>;
+
 interface GeneratorConfig {
+  type: QuestionType;
   numItems: number;
   minWeight: number;
   maxWeight: number;
@@ -42,274 +97,16 @@ interface GeneratorConfig {
   ensureUniqueSolution?: boolean;
 }
 
-// Available colors for balls
-const BALL_COLORS = [
-  "bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500", 
-  "bg-purple-500", "bg-pink-500", "bg-indigo-500", "bg-orange-500",
-  "bg-teal-500", "bg-rose-500", "bg-cyan-500", "bg-lime-500",
-  "bg-amber-500", "bg-emerald-500", "bg-violet-500", "bg-sky-500"
+// Scalings a near-duplicate applies on top of reordering the balls (weights scale with capacity)
+const NEAR_DUPLICATE_SCALES = [
+  { weightScale: 1, rewardScale: 2 },
+  { weightScale: 2, rewardScale: 1 },
+  { weightScale: 2, rewardScale: 2 },
+  { weightScale: 1, rewardScale: 1 }
 ];
 
 /**
- * Seeded random number generator
- */
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  next(): number {
-    this.seed = (this.seed * 1664525 + 1013904223) % Math.pow(2, 32);
-    return this.seed / Math.pow(2, 32);
-  }
-
-  range(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-}
-
-/**
- * Solves 0-1 knapsack problem using dynamic programming
- */
-function solveKnapsack(items: Ball[], capacity: number): {
-  solution: number[];
-  maxReward: number;
-  solutionWeight: number;
-} {
-  const n = items.length;
-  const dp: number[][] = Array(n + 1).fill(null).map(() => Array(capacity + 1).fill(0));
-  
-  for (let i = 1; i <= n; i++) {
-    for (let w = 0; w <= capacity; w++) {
-      const item = items[i - 1];
-      if (item.weight <= w) {
-        dp[i][w] = Math.max(
-          dp[i - 1][w],
-          dp[i - 1][w - item.weight] + item.reward
-        );
-      } else {
-        dp[i][w] = dp[i - 1][w];
-      }
-    }
-  }
-  
-  const solution: number[] = [];
-  let w = capacity;
-  let totalWeight = 0;
-  
-  for (let i = n; i > 0 && w > 0; i--) {
-    if (dp[i][w] !== dp[i - 1][w]) {
-      solution.push(items[i - 1].id);
-      totalWeight += items[i - 1].weight;
-      w -= items[i - 1].weight;
-    }
-  }
-  
-  return {
-    solution: solution.reverse(),
-    maxReward: dp[n][capacity],
-    solutionWeight: totalWeight
-  };
-}
-
-/**
- * Check if item i dominates item j
- */
-function itemDominates(item1: Ball, item2: Ball): boolean {
-  return (item1.weight <= item2.weight && item1.reward >= item2.reward) &&
-         (item1.weight < item2.weight || item1.reward > item2.reward);
-}
-
-/**
- * Classifies difficulty based on Leo's definition from readme.tex
- * 
- * Easy: For any two balls B_k and B_j, either B_k ≻ B_j OR B_j ≻ B_k
- *       (every pair has a dominance relationship - full dominance chain)
- * 
- * Medium: There exists one maximal ball B_k such that B_k ≻ B for all remaining B,
- *         AND one minimal ball B_j such that B ≻ B_j for all remaining B
- *         (partial dominance - has both maximal and minimal elements)
- * 
- * Hard: B_k ⊁ B_j for all k, j (no dominance relationships exist)
- */
-function classifyDifficultyByDominance(balls: Ball[]): 'easy' | 'medium' | 'hard' {
-  if (balls.length < 2) {
-    return 'easy' // Single ball is trivially easy
-  }
-
-  // Check all pairs for dominance relationships
-  const dominanceMatrix: boolean[][] = []
-  let hasAnyDominance = false
-
-  for (let i = 0; i < balls.length; i++) {
-    dominanceMatrix[i] = []
-    for (let j = 0; j < balls.length; j++) {
-      if (i === j) {
-        dominanceMatrix[i][j] = false
-      } else {
-        const dominates = itemDominates(balls[i], balls[j])
-        dominanceMatrix[i][j] = dominates
-        if (dominates) {
-          hasAnyDominance = true
-        }
-      }
-    }
-  }
-
-  // Hard: No dominance relationships exist
-  if (!hasAnyDominance) {
-    return 'hard'
-  }
-
-  // Check if every pair has a dominance relationship (Easy)
-  let allPairsHaveDominance = true
-  for (let i = 0; i < balls.length; i++) {
-    for (let j = i + 1; j < balls.length; j++) {
-      const iDominatesJ = dominanceMatrix[i][j]
-      const jDominatesI = dominanceMatrix[j][i]
-      if (!iDominatesJ && !jDominatesI) {
-        allPairsHaveDominance = false
-        break
-      }
-    }
-    if (!allPairsHaveDominance) break
-  }
-
-  if (allPairsHaveDominance) {
-    return 'easy'
-  }
-
-  // Medium: Check for maximal and minimal elements
-  // Maximal: dominates all other balls
-  // Minimal: dominated by all other balls
-  let hasMaximal = false
-  let hasMinimal = false
-
-  for (let i = 0; i < balls.length; i++) {
-    // Check if ball i is maximal (dominates all others)
-    let dominatesAll = true
-    for (let j = 0; j < balls.length; j++) {
-      if (i !== j && !dominanceMatrix[i][j]) {
-        dominatesAll = false
-        break
-      }
-    }
-    if (dominatesAll) {
-      hasMaximal = true
-    }
-
-    // Check if ball i is minimal (dominated by all others)
-    let dominatedByAll = true
-    for (let j = 0; j < balls.length; j++) {
-      if (i !== j && !dominanceMatrix[j][i]) {
-        dominatedByAll = false
-        break
-      }
-    }
-    if (dominatedByAll) {
-      hasMinimal = true
-    }
-  }
-
-  // Medium: has both maximal and minimal elements
-  if (hasMaximal && hasMinimal) {
-    return 'medium'
-  }
-
-  // Default to hard if we can't classify as easy or medium
-  return 'hard'
-}
-
-/**
- * Remove dominated items
- */
-function removeDominatedItems(items: Ball[]): {
-  filtered: Ball[];
-  removedCount: number;
-} {
-  const filtered: Ball[] = [];
-  
-  for (const item of items) {
-    let isDominated = false;
-    
-    for (const other of items) {
-      if (item.id !== other.id && itemDominates(other, item)) {
-        isDominated = true;
-        break;
-      }
-    }
-    
-    if (!isDominated) {
-      filtered.push(item);
-    }
-  }
-  
-  return {
-    filtered,
-    removedCount: items.length - filtered.length
-  };
-}
-
-/**
- * Analyze difficulty
- */
-function analyzeDifficulty(items: Ball[], capacity: number, solution: number[]): {
-  dominanceCount: number;
-  slackRatio: number;
-  optimalityGap: number;
-  densityVariance: number;
-} {
-  const { removedCount } = removeDominatedItems(items);
-  const dominanceCount = removedCount;
-  
-  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
-  const slackRatio = capacity / totalWeight;
-  
-  const densities = items.map(item => item.reward / item.weight);
-  const avgDensity = densities.reduce((sum, d) => sum + d, 0) / densities.length;
-  const densityVariance = densities.reduce((sum, d) => sum + Math.pow(d - avgDensity, 2), 0) / densities.length;
-  
-  const optimal = solveKnapsack(items, capacity);
-  
-  let secondBestReward = 0;
-  const optimalSet = new Set(solution);
-  
-  const maxCombinations = Math.min(1 << items.length, 1024);
-  for (let mask = 0; mask < maxCombinations; mask++) {
-    const combination: number[] = [];
-    let totalWeight = 0;
-    let totalReward = 0;
-    
-    for (let i = 0; i < items.length; i++) {
-      if (mask & (1 << i)) {
-        combination.push(items[i].id);
-        totalWeight += items[i].weight;
-        totalReward += items[i].reward;
-      }
-    }
-    
-    if (totalWeight > capacity) continue;
-    if (combination.length === optimalSet.size && 
-        combination.every(id => optimalSet.has(id))) continue;
-    
-    secondBestReward = Math.max(secondBestReward, totalReward);
-  }
-  
-  const optimalityGap = optimal.maxReward - secondBestReward;
-  
-  return {
-    dominanceCount,
-    slackRatio,
-    optimalityGap,
-    densityVariance
-  };
-}
-
-/**
- * Create dominance pattern
- * Now uses NUM_BALLS constant instead of config.numItems
+ * Create dominance pattern with config.numItems balls
  */
 function createDominancePattern(
   config: GeneratorConfig,
@@ -319,27 +116,30 @@ function createDominancePattern(
   const items: Ball[] = [];
   
   switch (dominanceType) {
-    case 'full':
-      // Create fully dominated chain with some randomness for variety
-      for (let i = 0; i < NUM_BALLS; i++) {
+    case 'full': {
+      // Create fully dominated chain with some randomness for variety; the
+      // reward step shrinks for long chains so rewards stay within range
+      const rewardStep = Math.min(3, Math.max(1, Math.floor((config.maxReward - config.minReward) / (config.numItems - 1))));
+      for (let i = 0; i < config.numItems; i++) {
         // Add random variation to weights and rewards while maintaining dominance
         const weightVariation = rng.range(0, 2);
         const rewardVariation = rng.range(0, 3);
         items.push({
           id: i + 1,
           weight: config.minWeight + i * 2 + weightVariation,
-          reward: config.maxReward - i * 3 - rewardVariation,
+          reward: config.maxReward - i * rewardStep - rewardVariation,
           color: BALL_COLORS[i % BALL_COLORS.length]
         });
       }
       break;
+    }
       
     case 'partial':
-      for (let i = 0; i < NUM_BALLS; i++) {
+      for (let i = 0; i < config.numItems; i++) {
         let weight: number;
         let reward: number;
         
-        if (i < Math.floor(NUM_BALLS / 2)) {
+        if (i < Math.floor(config.numItems / 2)) {
           weight = config.minWeight + i * 2;
           reward = config.maxReward - i * 2;
         } else {
@@ -357,7 +157,7 @@ function createDominancePattern(
       break;
       
     case 'none':
-      for (let i = 0; i < NUM_BALLS; i++) {
+      for (let i = 0; i < config.numItems; i++) {
         items.push({
           id: i + 1,
           weight: rng.range(config.minWeight, config.maxWeight),
@@ -386,15 +186,57 @@ function adjustCapacityForSlackRatio(items: Ball[], targetSlackRatio?: number, r
   return Math.floor(totalWeight * slackRatio);
 }
 
+/**
+ * Give generated balls the attributes of the question type and set the limits
+ * - bounded: 1-3 copies of each ball, capacity from the weight of every copy
+ * - multidimensional: a volume per ball and a volume capacity, sized like the capacity
+ * - multiple-choice: balls dealt into groups of two, capacity between the
+ *   lightest and heaviest one-per-group selection so the choice matters
+ */
+function shapeQuestion(items: Ball[], config: GeneratorConfig, rng: SeededRandom): KnapsackInstance & { balls: Ball[] } {
+  switch (config.type) {
+    case 'bounded': {
+      const balls = items.map((ball) => ({ ...ball, quantity: rng.range(1, 3) }));
+      const copies = balls.reduce<Ball[]>((all, ball) => all.concat(Array(ball.quantity).fill(ball)), []);
+      return { type: config.type, capacity: adjustCapacityForSlackRatio(copies, config.targetSlackRatio, rng), balls };
+    }
+
+    case 'multidimensional': {
+      const balls = items.map((ball) => ({ ...ball, volume: rng.range(config.minWeight, config.maxWeight) }));
+      const volumes = balls.map((ball) => ({ ...ball, weight: ball.volume }));
+      return {
+        type: config.type,
+        capacity: adjustCapacityForSlackRatio(balls, config.targetSlackRatio, rng),
+        volumeCapacity: adjustCapacityForSlackRatio(volumes, config.targetSlackRatio, rng),
+        balls
+      };
+    }
+
+    case 'multiple-choice': {
+      const groupCount = Math.max(2, Math.floor(items.length / 2));
+      const balls = items.map((ball, i) => ({ ...ball, group: (i % groupCount) + 1 }));
+      const groupWeights = Array.from({ length: groupCount }, (_, g) =>
+        balls.filter((ball) => ball.group === g + 1).map((ball) => ball.weight));
+      const lightest = groupWeights.reduce((sum, weights) => sum + Math.min(...weights), 0);
+      const heaviest = groupWeights.reduce((sum, weights) => sum + Math.max(...weights), 0);
+      return { type: config.type, capacity: rng.range(lightest, Math.max(lightest, heaviest - 1)), balls };
+    }
+
+    default:
+      return { type: config.type, capacity: adjustCapacityForSlackRatio(items, config.targetSlackRatio, rng), balls: items };
+  }
+}
+
 /**
  * Generate a single knapsack question
- * Now classifies difficulty using Leo's definition instead of config.difficultyLevel
+ * Difficulty comes from the selected classifier instead of config.difficultyLevel
  */
 function generateKnapsackQuestion(
   id: number,
   config: GeneratorConfig,
   phase: string,
   seed: number,
+  classifier: DifficultyClassifier,
   targetDifficulty?: 'easy' | 'medium' | 'hard'
 ): Question | null {
   const rng = new SeededRandom(seed + id);
@@ -411,47 +253,168 @@ function generateKnapsackQuestion(
     
     const items = createDominancePattern(config, dominanceType, rng);
     
-    // Ensure we have exactly NUM_BALLS items
-    if (items.length !== NUM_BALLS) {
+    // Ensure we have exactly the configured number of items
+    if (items.length !== config.numItems) {
       continue;
     }
     
-    const capacity = adjustCapacityForSlackRatio(items, config.targetSlackRatio, rng);
-    const solution = solveKnapsack(items, capacity);
+    const instance = shapeQuestion(items, config, rng);
+    const solution = solveQuestion(instance);
     
     if (solution.solution.length === 0) {
       continue;
     }
     
-    // Classify difficulty using Leo's definition
-    const classifiedDifficulty = classifyDifficultyByDominance(items);
+    // The DP backtracks a single optimum, so count ties separately
+    const solutions = enumerateOptimalSelections(instance);
+    if (config.ensureUniqueSolution && solutions.length > 1) {
+      continue;
+    }
+    
+    // Classify difficulty with the selected classifier
+    const classifiedDifficulty = classifier.classify(instance);
     
     // If target difficulty is specified, only accept questions matching it
     if (targetDifficulty && classifiedDifficulty !== targetDifficulty) {
       continue;
     }
     
-    const metadata = analyzeDifficulty(items, capacity, solution.solution);
-    const explanation = `The optimal selection maximizes reward (${solution.maxReward}) while staying within capacity (${solution.solutionWeight}/${capacity}).`;
-    
-    return {
+    // Use classified difficulty, not config
+    return describeQuestion(id, instance, phase, classifiedDifficulty, solution, solutions);
+  }
+  
+  return null;
+}
+
+/**
+ * Assemble a solved question with its explanation and metadata
+ */
+function describeQuestion(
+  id: number,
+  instance: KnapsackInstance & { balls: Ball[] },
+  phase: string,
+  difficulty: string,
+  solution: ReturnType<typeof solveQuestion>,
+  solutions: number[][]
+): Question {
+  const { balls: items, capacity, volumeCapacity } = instance;
+  const type = questionType(instance);
+  // Which shortcut strategies reach the optimum, and by how much the rest miss it
+  const metadata = {
+    uniqueSolution: solutions.length === 1,
+    ...analyzeDifficulty(items, capacity, solution.solution, { type, volumeCapacity }),
+    ...(type === 'binary' ? evaluateHeuristics(items, capacity) : {})
+  };
+  const solutionVolume = solution.solution.reduce((sum, ballId) => sum + (items.find((ball) => ball.id === ballId)?.volume ?? 0), 0);
+  const limits = type === 'multidimensional'
+    ? `capacity (${solution.solutionWeight}/${capacity}) and volume (${solutionVolume}/${volumeCapacity})`
+    : `capacity (${solution.solutionWeight}/${capacity})`;
+  const explanation = solutions.length > 1
+    ? `The optimal selection maximizes reward (${solution.maxReward}) while staying within ${limits}. ${solutions.length} selections reach this reward and all count as correct.`
+    : `The optimal selection maximizes reward (${solution.maxReward}) while staying within ${limits}.`;
+
+  return {
+    id,
+    type,
+    capacity,
+    ...(volumeCapacity !== undefined ? { volumeCapacity } : {}),
+    balls: items,
+    solution: solution.solution,
+    solutions,
+    explanation,
+    difficulty,
+    phase,
+    metadata
+  };
+}
+
+/**
+ * Create a near-duplicate of a question for another phase: the same instance
+ * with the balls reordered (colors follow position) and weights/capacity and
+ * rewards scaled. Returns null if no transform keeps the source's difficulty
+ */
+function createNearDuplicate(
+  source: Question,
+  id: number,
+  phase: string,
+  rng: SeededRandom,
+  classifier: DifficultyClassifier
+): Question | null {
+  for (const { weightScale, rewardScale } of shuffle(NEAR_DUPLICATE_SCALES, rng)) {
+    const reordered = shuffle(source.balls, rng);
+    // Copies, volumes and groups stay with their ball
+    const items: Ball[] = reordered.map((ball, i) => ({
+      ...ball,
+      id: i + 1,
+      weight: ball.weight * weightScale,
+      reward: ball.reward * rewardScale,
+      color: BALL_COLORS[i % BALL_COLORS.length]
+    }));
+    const instance = { type: source.type, capacity: source.capacity * weightScale, volumeCapacity: source.volumeCapacity, balls: items };
+
+    if (classifier.classify(instance) !== source.difficulty) {
+      continue;
+    }
+
+    const question = describeQuestion(
       id,
-      capacity,
-      balls: items,
-      solution: solution.solution,
-      explanation,
-      difficulty: classifiedDifficulty, // Use classified difficulty, not config
+      instance,
       phase,
-      metadata
-    };
+      source.difficulty!,
+      solveQuestion(instance),
+      enumerateOptimalSelections(instance)
+    );
+    question.metadata!.nearDuplicateOf = source.id;
+    question.metadata!.transform = { order: reordered.map((ball) => ball.id), weightScale, rewardScale };
+    return question;
   }
-  
+
   return null;
 }
 
+/**
+ * Add near-duplicates of training questions to the benchmark and prediction
+ * pools (count per phase and difficulty), each from a different source with
+ * the target pool's ball count so the later phases stay disjoint from each other
+ */
+function addNearDuplicates(
+  questions: Question[],
+  count: number,
+  classifier: DifficultyClassifier,
+  seed: number,
+  itemCounts: ItemCounts
+): Question[] {
+  const rng = new SeededRandom(seed);
+  const targets = ['benchmark', 'prediction'];
+  const nearDuplicates: Question[] = [];
+  let nextId = questions.length + 1;
+
+  for (const difficulty of ['easy', 'medium', 'hard'] as Difficulty[]) {
+    const sources = shuffle(questions.filter((q) => q.phase === 'training' && q.difficulty === difficulty), rng);
+
+    for (const phase of targets) {
+      let added = 0;
+      let next: number;
+      while (added < count && (next = sources.findIndex((q) => q.balls.length === itemCounts[phase][difficulty])) >= 0) {
+        const nearDuplicate = createNearDuplicate(sources.splice(next, 1)[0], nextId, phase, rng, classifier);
+        if (nearDuplicate) {
+          nearDuplicates.push(nearDuplicate);
+          nextId++;
+          added++;
+        }
+      }
+      if (added < count) {
+        console.log(`  ⚠️  Only ${added}/${count} ${difficulty} near-duplicates for ${phase}`);
+      }
+    }
+  }
+
+  return questions.concat(nearDuplicates);
+}
+
 /**
  * Configuration for each phase and difficulty
- * Note: numItems is now always NUM_BALLS, but we keep different weight/reward ranges for variety
+ * Note: numItems defaults to NUM_BALLS (see --items), and we keep different weight/reward ranges for variety
  */
 const PHASE_CONFIGS = {
   training: {
@@ -471,41 +434,18 @@ const PHASE_CONFIGS = {
   }
 };
 
-/**
- * Generate question hash for duplicate detection
- */
-function getQuestionHash(question: Question): string {
-  // Create a hash based on capacity and sorted balls (by weight and reward)
-  const sortedBalls = [...question.balls]
-    .sort((a, b) => a.weight - b.weight || a.reward - b.reward)
-    .map(b => `${b.weight}-${b.reward}`)
-    .join(',');
-  return `${question.capacity}:${sortedBalls}`;
-}
-
-/**
- * Remove duplicate questions
- */
-function removeDuplicates(questions: Question[]): Question[] {
-  const seen = new Set<string>();
-  const unique: Question[] = [];
-  
-  for (const question of questions) {
-    const hash = getQuestionHash(question);
-    if (!seen.has(hash)) {
-      seen.add(hash);
-      unique.push(question);
-    }
-  }
-  
-  return unique;
-}
-
 /**
  * Main generation function
  */
-function generateStaticQuestions() {
+function generateStaticQuestions(
+  classifier: DifficultyClassifier,
+  options: { reportPath?: string; uniqueSolutions: boolean; nearDuplicates: number; itemCounts: ItemCounts; type: QuestionType }
+) {
   console.log('🚀 Starting static question generation...\n');
+  console.log(`🧮 Question type: ${options.type}`);
+  console.log(`🏷️  Difficulty classifier: ${classifier.name} - ${classifier.description}`);
+  console.log(`🎯 Multiple optima: ${options.uniqueSolutions ? 'rejected' : 'kept and tagged'}`);
+  console.log(`🔁 Near-duplicates: ${options.nearDuplicates > 0 ? `${options.nearDuplicates} per later phase and difficulty` : 'none (phases disjoint)'}\n`);
   
   const allQuestions: Question[] = [];
   let questionId = 1;
@@ -521,9 +461,10 @@ function generateStaticQuestions() {
     console.log(`📋 Generating questions for ${phase.toUpperCase()} phase...`);
     
     for (const difficulty of difficulties) {
-      console.log(`  ⚙️  Difficulty: ${difficulty}...`);
+      const numItems = options.itemCounts[phase][difficulty];
+      console.log(`  ⚙️  Difficulty: ${difficulty} (${numItems} balls)...`);
       
-      const baseConfig = PHASE_CONFIGS[phase as keyof typeof PHASE_CONFIGS][difficulty];
+      const baseConfig = { ...PHASE_CONFIGS[phase as keyof typeof PHASE_CONFIGS][difficulty], numItems };
       
       let successCount = 0;
       let seed = 10000 + Math.random() * 100000; // Random starting seed
@@ -531,8 +472,9 @@ function generateStaticQuestions() {
       for (let i = 0; i < questionsPerCombination; i++) {
         const config: GeneratorConfig = {
           ...baseConfig,
-          difficultyLevel: difficulty, // Still used for generation hints, but final classification uses Leo's definition
-          ensureUniqueSolution: false // Allow more variety
+          type: options.type,
+          difficultyLevel: difficulty, // Still used for generation hints, but final classification uses the classifier
+          ensureUniqueSolution: options.uniqueSolutions // Off by default to allow more variety
         };
         
         const question = generateKnapsackQuestion(
@@ -540,12 +482,13 @@ function generateStaticQuestions() {
           config,
           phase,
           seed + i * 1000,
+          classifier,
           difficulty // Target difficulty - will filter to match
         );
         
         if (question) {
-          // Verify the question has exactly NUM_BALLS
-          if (question.balls.length === NUM_BALLS) {
+          // Verify the question has exactly the configured number of balls
+          if (question.balls.length === numItems) {
             allQuestions.push(question);
             successCount++;
           }
@@ -558,21 +501,37 @@ function generateStaticQuestions() {
   
   console.log(`\n📊 Total questions generated: ${allQuestions.length}`);
   
-  // Remove duplicates
-  console.log('\n🔍 Removing duplicates...');
+  // Remove duplicates, including reordered or rescaled copies, within and across phases
+  console.log('\n🔍 Removing duplicates and isomorphic questions...');
   const uniqueQuestions = removeDuplicates(allQuestions);
   console.log(`✨ Unique questions after deduplication: ${uniqueQuestions.length}`);
   console.log(`🗑️  Removed ${allQuestions.length - uniqueQuestions.length} duplicates`);
   
-  // Filter to ensure all questions have exactly NUM_BALLS
-  const filteredQuestions = uniqueQuestions.filter(q => q.balls.length === NUM_BALLS);
-  console.log(`🔢 Questions with exactly ${NUM_BALLS} balls: ${filteredQuestions.length}`);
+  // Filter to ensure all questions have exactly the configured number of balls
+  const filteredQuestions = uniqueQuestions.filter(q => q.balls.length === options.itemCounts[q.phase!][q.difficulty as Difficulty]);
+  console.log(`🔢 Questions with the configured ball counts: ${filteredQuestions.length}`);
+  console.log(`🎯 Questions with more than one optimal selection: ${filteredQuestions.filter(q => !q.metadata?.uniqueSolution).length}`);
   
   // Re-assign sequential IDs
   filteredQuestions.forEach((q, index) => {
     q.id = index + 1;
   });
   
+  // Planted after deduplication so they survive it, with ids after the generated questions
+  let questions = filteredQuestions;
+  if (options.nearDuplicates > 0) {
+    console.log('\n🔁 Adding near-duplicates of training questions...');
+    questions = addNearDuplicates(filteredQuestions, options.nearDuplicates, classifier, 10000 + Math.random() * 100000, options.itemCounts);
+    console.log(`  ✅ Added ${questions.length - filteredQuestions.length} near-duplicates`);
+  }
+  
+  const isomorphs = findCrossPhaseIsomorphs(questions);
+  if (isomorphs.length > 0) {
+    isomorphs.forEach((pair) => console.error(`❌ Question ${pair.questionId} (${pair.phases[0]}) is isomorphic to ${pair.isomorphicTo} (${pair.phases[1]})`));
+    process.exit(1);
+  }
+  console.log('🧩 No undeclared isomorphic questions across phases');
+  
   // Generate statistics
   console.log('\n📈 Statistics:');
   const stats: Record<string, Record<string, number>> = {};
@@ -580,7 +539,7 @@ function generateStaticQuestions() {
   for (const phase of phases) {
     stats[phase] = { easy: 0, medium: 0, hard: 0 };
     for (const difficulty of difficulties) {
-      const count = filteredQuestions.filter(
+      const count = questions.filter(
         q => q.phase === phase && q.difficulty === difficulty
       ).length;
       stats[phase][difficulty] = count;
@@ -589,9 +548,9 @@ function generateStaticQuestions() {
   
   for (const phase of phases) {
     console.log(`\n  ${phase.toUpperCase()}:`);
-    console.log(`    Easy: ${stats[phase].easy}`);
-    console.log(`    Medium: ${stats[phase].medium}`);
-    console.log(`    Hard: ${stats[phase].hard}`);
+    console.log(`    Easy: ${stats[phase].easy} (${options.itemCounts[phase].easy} balls)`);
+    console.log(`    Medium: ${stats[phase].medium} (${options.itemCounts[phase].medium} balls)`);
+    console.log(`    Hard: ${stats[phase].hard} (${options.itemCounts[phase].hard} balls)`);
     console.log(`    Total: ${stats[phase].easy + stats[phase].medium + stats[phase].hard}`);
   }
   
@@ -600,19 +559,188 @@ function generateStaticQuestions() {
   const output = {
     metadata: {
       generatedAt: new Date().toISOString(),
-      totalQuestions: filteredQuestions.length,
-      numBalls: NUM_BALLS,
+      totalQuestions: questions.length,
+      type: options.type,
+      // numBalls only when every pool has the same count (as older banks do)
+      ...(uniformItemCount(options.itemCounts) !== null ? { numBalls: uniformItemCount(options.itemCounts) } : {}),
+      itemCounts: options.itemCounts,
       statistics: stats,
+      classifier: classifier.name,
+      uniqueSolutions: options.uniqueSolutions,
+      nearDuplicates: options.nearDuplicates,
       version: '2.0.0'
     },
-    questions: filteredQuestions
+    questions
   };
   
   writeFileSync(outputPath, JSON.stringify(output, null, 2));
   console.log(`\n💾 Questions saved to: ${outputPath}`);
+
+  writeClassifierReport(questions, options.reportPath);
   console.log('✅ Done!\n');
 }
 
+/**
+ * The ball count shared by every pool, or null when pools differ
+ */
+function uniformItemCount(itemCounts: ItemCounts): number | null {
+  const counts = Object.keys(itemCounts).reduce<number[]>((all, phase) => {
+    const { easy, medium, hard } = itemCounts[phase];
+    return all.concat([easy, medium, hard]);
+  }, []);
+  return counts.every((count) => count === counts[0]) ? counts[0] : null;
+}
+
+/**
+ * Parse --items: one count for every pool, or comma-separated overrides
+ * keyed by phase, difficulty or phase.difficulty (e.g. "6,prediction=8,hard=10");
+ * later entries win. Returns null for an invalid spec
+ */
+function parseItemCounts(spec: string): ItemCounts | null {
+  const phases = Object.keys(PHASE_CONFIGS);
+  const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+  const itemCounts: ItemCounts = {};
+  phases.forEach((phase) => {
+    itemCounts[phase] = { easy: NUM_BALLS, medium: NUM_BALLS, hard: NUM_BALLS };
+  });
+
+  for (const entry of spec.split(',')) {
+    const [key, value] = entry.includes('=') ? entry.split('=') : ['', entry];
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 2 || count > BALL_COLORS.length) return null;
+
+    const [first, second] = key ? key.split('.') : [];
+    const phase = phases.includes(first) ? first : undefined;
+    const difficulty = (phase ? second : first) as Difficulty | undefined;
+    if (key && !phase && !difficulties.includes(difficulty!)) return null;
+    if (difficulty && !difficulties.includes(difficulty)) return null;
+
+    for (const p of phase ? [phase] : phases) {
+      for (const d of difficulty ? [difficulty] : difficulties) {
+        itemCounts[p][d] = count;
+      }
+    }
+  }
+
+  return itemCounts;
+}
+
+/**
+ * Print (and optionally save) how the questions partition under every classifier
+ */
+function writeClassifierReport(questions: Question[], reportPath?: string) {
+  const report = compareClassifiers(questions);
+  printClassifierReport(report);
+
+  if (reportPath) {
+    writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    console.log(`\n💾 Classifier report saved to: ${reportPath}`);
+  }
+  console.log('');
+}
+
+/**
+ * Main function
+ */
+function main() {
+  const args = process.argv.slice(2);
+
+  let classifierName = 'dominance';
+  let comparePath: string | undefined;
+  let reportPath: string | undefined;
+  let uniqueSolutions = false;
+  let nearDuplicates = 0;
+  let itemSpec = String(NUM_BALLS);
+  let type = 'binary';
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--classifier' || args[i] === '-c') {
+      classifierName = args[++i];
+    } else if (args[i] === '--compare') {
+      comparePath = args[i + 1] && !args[i + 1].startsWith('-') ? args[++i] : './lib/static-questions.json';
+    } else if (args[i] === '--report' || args[i] === '-r') {
+      reportPath = args[++i];
+    } else if (args[i] === '--unique-solutions' || args[i] === '-u') {
+      uniqueSolutions = true;
+    } else if (args[i] === '--near-duplicates' || args[i] === '-n') {
+      nearDuplicates = parseInt(args[++i], 10);
+    } else if (args[i] === '--items' || args[i] === '-i') {
+      itemSpec = args[++i];
+    } else if (args[i] === '--type' || args[i] === '-t') {
+      type = args[++i];
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(`
+Usage: tsx scripts/generate-static-questions.ts [options]
+
+Options:
+  -c, --classifier <name>    Difficulty classifier used to label questions (default: dominance)
+      --compare [path]       Don't generate; report how an existing bank partitions under
+                             every classifier (default: ./lib/static-questions.json)
+  -r, --report <path>        Also write the classifier comparison as JSON
+  -u, --unique-solutions     Reject questions with more than one optimal selection
+                             (by default they are kept, tagged and every optimum is stored)
+  -i, --items <spec>         Balls per question (default: NUM_BALLS = ${NUM_BALLS}): one count, or
+                             comma-separated overrides by phase, difficulty or phase.difficulty,
+                             e.g. "benchmark=6,prediction.hard=8" (2-${BALL_COLORS.length} balls)
+  -n, --near-duplicates <n>  Add n isomorphic variants of training questions per difficulty to the
+                             benchmark and prediction pools, tagged metadata.nearDuplicateOf
+                             (learning-transfer studies; by default phases are disjoint)
+  -t, --type <type>          Question type: ${QUESTION_TYPES.join(', ')} (default: binary, the 0-1 problem);
+                             only the dominance classifier handles the other types
+  -h, --help                 Show this help message
+
+Classifiers:
+${Object.values(DIFFICULTY_CLASSIFIERS).map((c) => `  ${c.name.padEnd(26)} ${c.description}`).join('\n')}
+
+Examples:
+  tsx scripts/generate-static-questions.ts
+  tsx scripts/generate-static-questions.ts --classifier composite
+  tsx scripts/generate-static-questions.ts --compare -r ./classifier-report.json
+  tsx scripts/generate-static-questions.ts --near-duplicates 3
+  tsx scripts/generate-static-questions.ts --items 4,benchmark=6,prediction=8
+  tsx scripts/generate-static-questions.ts --type multiple-choice --items 6
+      `);
+      process.exit(0);
+    }
+  }
+
+  const classifier = getClassifier(classifierName);
+  if (!classifier) {
+    console.error(`❌ Unknown classifier "${classifierName}". Use one of: ${Object.keys(DIFFICULTY_CLASSIFIERS).join(', ')}`);
+    process.exit(1);
+  }
+
+  if (comparePath) {
+    const bank = JSON.parse(readFileSync(comparePath, 'utf-8'));
+    console.log(`🔍 Comparing difficulty classifiers on ${comparePath}`);
+    writeClassifierReport(bank.questions, reportPath);
+    return;
+  }
+
+  if (!(QUESTION_TYPES as readonly string[]).includes(type)) {
+    console.error(`❌ Unknown question type "${type}". Use one of: ${QUESTION_TYPES.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (!supportsType(classifier, type as QuestionType)) {
+    console.error(`❌ Classifier "${classifier.name}" does not handle ${type} questions`);
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(nearDuplicates) || nearDuplicates < 0) {
+    console.error('❌ --near-duplicates must be a non-negative integer');
+    process.exit(1);
+  }
+
+  const itemCounts = parseItemCounts(itemSpec);
+  if (!itemCounts) {
+    console.error(`❌ Invalid --items "${itemSpec}". Use a count (2-${BALL_COLORS.length}) or overrides like "benchmark=6,prediction.hard=8"`);
+    process.exit(1);
+  }
+
+  generateStaticQuestions(classifier, { reportPath, uniqueSolutions, nearDuplicates, itemCounts, type: type as QuestionType });
+}
+
 // Run the generator
-generateStaticQuestions();
+main();
 
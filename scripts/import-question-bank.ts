@@ -0,0 +1,81 @@
+/**
+ * Script to import a generated question bank into the backend
+ * Posts a generator output (default ./lib/static-questions.json) to
+ * POST /api/v1/admin/question-banks, where it is stored as a versioned
+ * QuestionBank. The version defaults to metadata.bankVersion or the
+ * generation timestamp; pass --version for a bank edited in place (e.g. by
+ * scripts/calibrate-irt.ts), since a version can't be re-imported with
+ * different questions.
+ */
+
+import { readFileSync } from 'fs';
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  let bankPath = './lib/static-questions.json';
+  let version: string | undefined;
+  let activate = false;
+  let apiBase = process.env.API_BASE || 'http://localhost:8787';
+  let adminKey = process.env.ADMIN_KEY;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--bank' || args[i] === '-b') {
+      bankPath = args[++i];
+    } else if (args[i] === '--version' || args[i] === '-v') {
+      version = args[++i];
+    } else if (args[i] === '--activate' || args[i] === '-a') {
+      activate = true;
+    } else if (args[i] === '--api') {
+      apiBase = args[++i];
+    } else if (args[i] === '--admin-key' || args[i] === '-k') {
+      adminKey = args[++i];
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(`
+Usage: tsx scripts/import-question-bank.ts [options]
+
+Options:
+  -b, --bank <path>          Generator output to import (default: ./lib/static-questions.json)
+  -v, --version <name>       Bank version (default: metadata.bankVersion or metadata.generatedAt)
+  -a, --activate             Serve this version to newly registered participants
+      --api <url>            Backend URL (default: $API_BASE or http://localhost:8787)
+  -k, --admin-key <key>      Admin key (default: $ADMIN_KEY)
+  -h, --help                 Show this help message
+
+Examples:
+  tsx scripts/import-question-bank.ts --activate
+  tsx scripts/import-question-bank.ts -b ./calibrated-questions.json -v 2026-10-calibrated -a
+      `);
+      process.exit(0);
+    }
+  }
+
+  if (!adminKey) {
+    console.error('❌ Missing admin key. Set ADMIN_KEY or pass --admin-key.');
+    process.exit(1);
+  }
+
+  const bank = JSON.parse(readFileSync(bankPath, 'utf-8'));
+  console.log(`🚀 Importing ${bank.questions?.length ?? 0} questions from ${bankPath}...`);
+
+  const response = await fetch(`${apiBase}/api/v1/admin/question-banks`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+    body: JSON.stringify({ bank, version, source: bankPath, activate })
+  });
+  const result: any = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error(`❌ Import failed (${response.status}): ${result.error || response.statusText}`);
+    (result.details || []).forEach((detail: string) => console.error(`   ${detail}`));
+    process.exit(1);
+  }
+
+  console.log(`${result.created ? '✅ Imported' : 'ℹ️  Already imported'} bank ${result.bank.version} (${result.bank.questionCount} questions)`);
+  console.log(result.bank.active ? '✅ Active: new participants are pinned to this bank' : 'ℹ️  Not active (use --activate to serve it)');
+}
+
+main().catch((error) => {
+  console.error('❌ Import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,447 @@
+/**
+ * Script to validate a whole question bank
+ * Loads a generator output (default ./lib/static-questions.json) and checks
+ * every question: structure, ball count against the bank's item counts
+ * (NUM_BALLS for banks that don't record them), unique colors,
+ * stored solution(s) against a re-solve, difficulty against a re-classification
+ * with the bank's classifier, duplicates via getQuestionHash, and isomorphic
+ * questions across phases other than declared near-duplicates. Selections
+ * follow each question's type (copies, volume, one ball per group; see
+ * lib/knapsack-variants.ts). It then checks
+ * that every phase/difficulty bucket holds enough questions for the study's
+ * question counts (Test 1, Benchmark, Final and meta-analysis draws).
+ * Banks from older generators that record no optimal selections or trap
+ * types are reported with a warning.
+ *
+ * Prints a summary, or the machine-readable report with --json / --output,
+ * and exits non-zero when any error is found.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { NUM_BALLS } from '../lib/config';
+import {
+  QUESTION_TYPES,
+  enumerateOptimalSelections,
+  isOverCapacity,
+  questionType,
+  sameSelection,
+  selectionProblems,
+  selectionTotals,
+  solveQuestion
+} from '../lib/knapsack-variants';
+import { findCrossPhaseIsomorphs, getCanonicalHash, getQuestionHash } from '../lib/question-hash';
+import { DEFAULT_STUDY_CONFIG, itemCountFor, metaExcludedBankPhases, type DifficultyCounts, type StudyConfig } from '../lib/study-config';
+import { DIFFICULTIES, getClassifier, supportsType, type Difficulty } from './difficulty-classifiers';
+
+type Check =
+  | 'structure'
+  | 'ball-count'
+  | 'colors'
+  | 'solution'
+  | 'solutions'
+  | 'difficulty'
+  | 'duplicate'
+  | 'isomorph'
+  | 'bucket';
+
+interface Issue {
+  check: Check;
+  questionId?: number;
+  message: string;
+}
+
+interface BucketReport {
+  phase: string;
+  difficulty: Difficulty;
+  // Loader that draws from the bucket and how many questions it asks for
+  usedBy: string;
+  numItems: number;
+  required: number;
+  available: number;
+  ok: boolean;
+}
+
+interface ValidationReport {
+  bank: string;
+  checkedAt: string;
+  bankVersion: string | null;
+  classifier: string;
+  numBalls: number;
+  questions: number;
+  passed: boolean;
+  errors: Issue[];
+  warnings: Issue[];
+  buckets: BucketReport[];
+  summary: Record<Check, number>;
+}
+
+const PHASES = ['training', 'benchmark', 'prediction'] as const;
+
+// Bank phase each question-count entry draws from; meta-analysis items come from the whole bank
+// except the pools of tests after it (see metaExcludedBankPhases)
+const BUCKET_SOURCES: Array<{ counts: keyof StudyConfig['questionCounts']; phase: typeof PHASES[number] | 'all'; usedBy: string }> = [
+  { counts: 'skill', phase: 'training', usedBy: 'getSkillTestQuestions' },
+  { counts: 'benchmark', phase: 'benchmark', usedBy: 'getBenchmarkPhaseQuestions' },
+  { counts: 'final', phase: 'prediction', usedBy: 'getPredictionPhaseQuestions' },
+  { counts: 'meta', phase: 'all', usedBy: 'getMetaAnalysisQuestions' }
+];
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+/**
+ * Structural problems that make the other checks meaningless for a question
+ */
+function structureErrors(question: any): string[] {
+  const problems: string[] = [];
+  if (!isInteger(question.id)) problems.push('id is not an integer');
+  if (!isInteger(question.capacity) || question.capacity <= 0) problems.push('capacity is not a positive integer');
+  if (question.type !== undefined && !(QUESTION_TYPES as readonly string[]).includes(question.type)) {
+    problems.push(`unknown type "${question.type}"`);
+  }
+  const type = questionType(question);
+  if (type === 'multidimensional' && (!isInteger(question.volumeCapacity) || question.volumeCapacity <= 0)) {
+    problems.push('volumeCapacity is not a positive integer');
+  }
+  if (!Array.isArray(question.balls) || question.balls.length === 0) {
+    problems.push('balls is missing or empty');
+    return problems;
+  }
+
+  const ids = new Set<number>();
+  question.balls.forEach((ball: any, index: number) => {
+    if (!isInteger(ball.id)) problems.push(`ball ${index} has no integer id`);
+    else if (ids.has(ball.id)) problems.push(`ball id ${ball.id} is repeated`);
+    else ids.add(ball.id);
+    if (!isInteger(ball.weight) || ball.weight <= 0) problems.push(`ball ${ball.id ?? index} weight is not a positive integer`);
+    if (typeof ball.reward !== 'number' || ball.reward < 0) problems.push(`ball ${ball.id ?? index} reward is not a non-negative number`);
+    if (type === 'bounded' && (!isInteger(ball.quantity) || ball.quantity <= 0)) problems.push(`ball ${ball.id ?? index} quantity is not a positive integer`);
+    if (type === 'multidimensional' && (!isInteger(ball.volume) || ball.volume <= 0)) problems.push(`ball ${ball.id ?? index} volume is not a positive integer`);
+    if (type === 'multiple-choice' && !isInteger(ball.group)) problems.push(`ball ${ball.id ?? index} has no integer group`);
+  });
+
+  if (!PHASES.includes(question.phase)) problems.push(`unknown phase "${question.phase}"`);
+  if (!DIFFICULTIES.includes(question.difficulty)) problems.push(`unknown difficulty "${question.difficulty}"`);
+  return problems;
+}
+
+/**
+ * Problems with a stored selection: unknown balls, more copies than allowed,
+ * a broken group rule, over capacity, or not optimal
+ */
+function selectionErrors(selection: unknown, question: any, maxReward: number): string[] {
+  if (!Array.isArray(selection)) return ['is not an array of ball ids'];
+
+  const problems = selectionProblems(question, selection);
+  if (problems.length > 0) return problems;
+
+  const totals = selectionTotals(question, selection);
+  if (isOverCapacity(question, totals)) {
+    problems.push(totals.weight > question.capacity
+      ? `weighs ${totals.weight}, over capacity ${question.capacity}`
+      : `has volume ${totals.volume}, over volume capacity ${question.volumeCapacity}`);
+  }
+  if (totals.reward !== maxReward) problems.push(`earns ${totals.reward}, optimum is ${maxReward}`);
+  return problems;
+}
+
+export function validateBank(
+  bank: any,
+  options: { bankPath: string; studyConfig: StudyConfig }
+): ValidationReport {
+  const errors: Issue[] = [];
+  const warnings: Issue[] = [];
+  const questions: any[] = Array.isArray(bank?.questions) ? bank.questions : [];
+  const metadata = bank?.metadata ?? {};
+
+  if (questions.length === 0) {
+    errors.push({ check: 'structure', message: 'Bank has no questions array' });
+  }
+  if (metadata.numBalls !== undefined && metadata.numBalls !== NUM_BALLS) {
+    warnings.push({ check: 'ball-count', message: `Bank was generated with ${metadata.numBalls} balls, NUM_BALLS is ${NUM_BALLS}` });
+  }
+  if (metadata.totalQuestions !== undefined && metadata.totalQuestions !== questions.length) {
+    warnings.push({ check: 'structure', message: `metadata.totalQuestions is ${metadata.totalQuestions}, bank has ${questions.length}` });
+  }
+
+  const classifierName = metadata.classifier || 'dominance';
+  const classifier = getClassifier(classifierName);
+  if (!classifier) {
+    errors.push({ check: 'difficulty', message: `Unknown classifier "${classifierName}", difficulties not re-checked` });
+  }
+
+  const seenIds = new Set<number>();
+  const seenHashes = new Map<string, number>();
+  const seenClasses = new Map<string, number>();
+  const valid: any[] = [];
+
+  for (const question of questions) {
+    const questionId = isInteger(question?.id) ? question.id : undefined;
+    const problems = question && typeof question === 'object' ? structureErrors(question) : ['is not an object'];
+    if (questionId !== undefined) {
+      if (seenIds.has(questionId)) problems.push(`id ${questionId} is repeated`);
+      seenIds.add(questionId);
+    }
+    if (problems.length > 0) {
+      problems.forEach((message) => errors.push({ check: 'structure', questionId, message }));
+      continue;
+    }
+    valid.push(question);
+
+    const expectedBalls = metadata.itemCounts?.[question.phase]?.[question.difficulty];
+    if (expectedBalls !== undefined && question.balls.length !== expectedBalls) {
+      errors.push({ check: 'ball-count', questionId, message: `Has ${question.balls.length} balls, ${question.phase} ${question.difficulty} questions have ${expectedBalls}` });
+    } else if (expectedBalls === undefined && question.balls.length !== NUM_BALLS) {
+      errors.push({ check: 'ball-count', questionId, message: `Has ${question.balls.length} balls, NUM_BALLS is ${NUM_BALLS}` });
+    }
+
+    const colors = question.balls.map((ball: any) => ball.color);
+    if (colors.some((color: unknown) => typeof color !== 'string' || color === '')) {
+      errors.push({ check: 'colors', questionId, message: 'A ball has no color' });
+    } else if (new Set(colors).size !== colors.length) {
+      errors.push({ check: 'colors', questionId, message: `Colors repeat: ${colors.join(', ')}` });
+    }
+
+    const { maxReward } = solveQuestion(question);
+    if (question.solution === undefined) {
+      errors.push({ check: 'solution', questionId, message: 'Has no solution' });
+    } else {
+      selectionErrors(question.solution, question, maxReward)
+        .forEach((problem) => errors.push({ check: 'solution', questionId, message: `Solution ${problem}` }));
+    }
+
+    if (question.solutions !== undefined) {
+      const optimal = enumerateOptimalSelections(question);
+      if (!Array.isArray(question.solutions)) {
+        errors.push({ check: 'solutions', questionId, message: 'Solutions is not an array' });
+      } else {
+        question.solutions.forEach((selection: unknown, index: number) => {
+          selectionErrors(selection, question, maxReward)
+            .forEach((problem) => errors.push({ check: 'solutions', questionId, message: `Solution ${index + 1} ${problem}` }));
+        });
+        const missing = optimal.filter((ids) => !question.solutions.some((s: unknown) => Array.isArray(s) && sameSelection(s, ids)));
+        if (missing.length > 0) {
+          errors.push({ check: 'solutions', questionId, message: `Missing optimal selections ${missing.map((ids) => `[${ids.join(', ')}]`).join(' ')}` });
+        }
+        if (question.metadata?.uniqueSolution !== undefined && question.metadata.uniqueSolution !== (optimal.length === 1)) {
+          errors.push({ check: 'solutions', questionId, message: `metadata.uniqueSolution is ${question.metadata.uniqueSolution}, found ${optimal.length} optimal selections` });
+        }
+      }
+    }
+
+    if (classifier && !supportsType(classifier, questionType(question))) {
+      errors.push({ check: 'difficulty', questionId, message: `${classifier.name} does not classify ${questionType(question)} questions` });
+    } else if (classifier) {
+      const difficulty = classifier.classify(question);
+      if (difficulty !== question.difficulty) {
+        errors.push({ check: 'difficulty', questionId, message: `Labelled ${question.difficulty}, ${classifier.name} classifies it ${difficulty}` });
+      }
+    }
+
+    const hash = getQuestionHash(question);
+    const original = seenHashes.get(hash);
+    if (original !== undefined) {
+      // A near-duplicate that only reorders the balls hashes like its source
+      if (question.metadata?.nearDuplicateOf !== original) {
+        errors.push({ check: 'duplicate', questionId, message: `Duplicates question ${original}` });
+      }
+    } else {
+      seenHashes.set(hash, questionId!);
+      // Reordered or rescaled copies within a phase are allowed but reported
+      const phaseClass = `${question.phase}|${getCanonicalHash(question)}`;
+      const isomorphic = seenClasses.get(phaseClass);
+      if (isomorphic !== undefined) {
+        warnings.push({ check: 'isomorph', questionId, message: `Isomorphic to ${question.phase} question ${isomorphic}` });
+      } else {
+        seenClasses.set(phaseClass, questionId!);
+      }
+    }
+  }
+
+  findCrossPhaseIsomorphs(valid).forEach((pair) => {
+    errors.push({
+      check: 'isomorph',
+      questionId: pair.questionId,
+      message: `Isomorphic to ${pair.phases[1]} question ${pair.isomorphicTo} without declaring metadata.nearDuplicateOf`
+    });
+  });
+  // Output of older generators makes the question component accept answers by
+  // reward and the loader compute trap types at runtime
+  const withoutSolutions = valid.filter((question) => question.solutions === undefined).length;
+  if (withoutSolutions > 0) {
+    warnings.push({ check: 'solutions', message: `${withoutSolutions} questions record no optimal selections, answers are checked by reward at runtime` });
+  }
+  const withoutTraps = valid.filter((question) => questionType(question) === 'binary' && !Array.isArray(question.metadata?.traps)).length;
+  if (withoutTraps > 0) {
+    warnings.push({ check: 'structure', message: `${withoutTraps} questions record no metadata.traps, trap types are computed at runtime` });
+  }
+
+  const byId = new Map<number, any>(valid.map((question) => [question.id, question]));
+  valid
+    .filter((question) => question.metadata?.nearDuplicateOf !== undefined)
+    .forEach((question) => {
+      const source = byId.get(question.metadata.nearDuplicateOf);
+      if (!source || getCanonicalHash(source) !== getCanonicalHash(question)) {
+        errors.push({ check: 'isomorph', questionId: question.id, message: `Declares nearDuplicateOf ${question.metadata.nearDuplicateOf} but is not isomorphic to it` });
+      }
+    });
+
+  // The loaders draw from questions with the study's item count for the test and difficulty
+  const buckets: BucketReport[] = [];
+  const metaExcluded = metaExcludedBankPhases(options.studyConfig);
+  for (const source of BUCKET_SOURCES) {
+    const counts: DifficultyCounts = options.studyConfig.questionCounts[source.counts];
+    for (const difficulty of DIFFICULTIES) {
+      const numItems = itemCountFor(source.counts, difficulty, options.studyConfig);
+      const available = valid.filter((question) =>
+        question.difficulty === difficulty && question.balls.length === numItems &&
+        (source.phase === 'all' ? !metaExcluded.has(question.phase) : question.phase === source.phase)
+      ).length;
+      const bucket = {
+        phase: source.phase,
+        difficulty,
+        usedBy: source.usedBy,
+        numItems,
+        required: counts[difficulty],
+        available,
+        ok: available >= counts[difficulty]
+      };
+      buckets.push(bucket);
+      if (!bucket.ok) {
+        errors.push({
+          check: 'bucket',
+          message: `${source.usedBy} needs ${bucket.required} ${difficulty} ${source.phase === 'all' ? '' : `${source.phase} `}questions with ${numItems} balls, bank has ${available}`
+        });
+      }
+    }
+  }
+
+  const summary = {} as Record<Check, number>;
+  (['structure', 'ball-count', 'colors', 'solution', 'solutions', 'difficulty', 'duplicate', 'isomorph', 'bucket'] as Check[])
+    .forEach((check) => { summary[check] = errors.filter((issue) => issue.check === check).length; });
+
+  return {
+    bank: options.bankPath,
+    checkedAt: new Date().toISOString(),
+    bankVersion: metadata.bankVersion || metadata.generatedAt || null,
+    classifier: classifierName,
+    numBalls: NUM_BALLS,
+    questions: questions.length,
+    passed: errors.length === 0,
+    errors,
+    warnings,
+    buckets,
+    summary
+  };
+}
+
+function printReport(report: ValidationReport): void {
+  console.log(`\n📋 Validated ${report.questions} questions in ${report.bank} (version ${report.bankVersion ?? 'unknown'}, classifier ${report.classifier})\n`);
+
+  console.log('Checks:');
+  Object.entries(report.summary).forEach(([check, count]) => {
+    console.log(`  ${count === 0 ? '✅' : '❌'} ${check.padEnd(11)} ${count === 0 ? 'ok' : `${count} error${count === 1 ? '' : 's'}`}`);
+  });
+
+  console.log('\nBuckets:');
+  report.buckets.forEach((bucket) => {
+    console.log(`  ${bucket.ok ? '✅' : '❌'} ${bucket.phase.padEnd(10)} ${bucket.difficulty.padEnd(6)} ${String(bucket.numItems).padStart(2)} balls ${String(bucket.available).padStart(4)} / ${bucket.required} (${bucket.usedBy})`);
+  });
+
+  if (report.warnings.length > 0) {
+    console.log('\n⚠️  Warnings:');
+    report.warnings.forEach((issue) => {
+      console.log(`  [${issue.check}]${issue.questionId !== undefined ? ` #${issue.questionId}` : ''} ${issue.message}`);
+    });
+  }
+
+  if (report.errors.length > 0) {
+    console.log('\n❌ Errors:');
+    report.errors.slice(0, 50).forEach((issue) => {
+      console.log(`  [${issue.check}]${issue.questionId !== undefined ? ` #${issue.questionId}` : ''} ${issue.message}`);
+    });
+    if (report.errors.length > 50) {
+      console.log(`  ... and ${report.errors.length - 50} more (use --json or --output for the full report)`);
+    }
+  }
+
+  console.log(report.passed ? '\n✅ Bank is valid\n' : `\n❌ Bank has ${report.errors.length} error${report.errors.length === 1 ? '' : 's'}\n`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  let bankPath = './lib/static-questions.json';
+  let outputPath: string | undefined;
+  let studyConfigPath: string | undefined;
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--bank' || args[i] === '-b') {
+      bankPath = args[++i];
+    } else if (args[i] === '--output' || args[i] === '-o') {
+      outputPath = args[++i];
+    } else if (args[i] === '--study-config' || args[i] === '-s') {
+      studyConfigPath = args[++i];
+    } else if (args[i] === '--json') {
+      json = true;
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(`
+Usage: tsx scripts/validate-bank.ts [options]
+
+Options:
+  -b, --bank <path>          Question bank to validate (default: ./lib/static-questions.json)
+  -s, --study-config <path>  Study config JSON whose numItems/itemCounts/questionCounts the buckets must cover
+                             (default: the built-in study defaults)
+  -o, --output <path>        Also write the JSON report to a file
+      --json                 Print the JSON report instead of the summary
+  -h, --help                 Show this help message
+
+Exits with status 1 when any check fails.
+
+Examples:
+  npm run validate-bank
+  tsx scripts/validate-bank.ts --json > bank-report.json
+  tsx scripts/validate-bank.ts -b ./calibrated-questions.json -s ./study-config.json -o report.json
+      `);
+      process.exit(0);
+    }
+  }
+
+  let studyConfig: Partial<StudyConfig> = {};
+  if (studyConfigPath) {
+    studyConfig = JSON.parse(readFileSync(studyConfigPath, 'utf-8'));
+  }
+
+  let bank: any;
+  try {
+    bank = JSON.parse(readFileSync(bankPath, 'utf-8'));
+  } catch (error) {
+    console.error(`❌ Could not read ${bankPath}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const report = validateBank(bank, {
+    bankPath,
+    studyConfig: {
+      ...DEFAULT_STUDY_CONFIG,
+      ...studyConfig,
+      questionCounts: { ...DEFAULT_STUDY_CONFIG.questionCounts, ...studyConfig.questionCounts }
+    }
+  });
+
+  if (outputPath) {
+    writeFileSync(outputPath, JSON.stringify(report, null, 2));
+  }
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+    if (outputPath) console.log(`📄 Report written to ${outputPath}\n`);
+  }
+
+  process.exit(report.passed ? 0 : 1);
+}
+
+if (require.main === module) {
+  main();
+}